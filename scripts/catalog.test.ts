@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { MockChain } from '../src/sdk/MockChain'
+import { createCliClient } from './cli'
+import { catalogSymbols, loadCatalog, metadataUri, seedCatalog } from './catalog'
+import type { CatalogCard } from './catalog'
+
+const catalog = loadCatalog()
+
+const named = (...names: string[]) => names.map(name => ({ name }) as CatalogCard)
+
+function client(chain: MockChain) {
+  return createCliClient({ network: chain.network, transport: chain.transport, account: { address: chain.accounts[0], type: 'json-rpc' } })
+}
+
+describe('catalogSymbols', () => {
+  it('derives short symbols from the name', () => {
+    expect(catalogSymbols(named('Zombie', 'Young White Dragon', 'Acolyte 2', 'Moonwell Sanctuary')))
+      .toEqual(['ZOMBIE', 'YOUWD', 'ACO2', 'MOOS'])
+  })
+
+  it('suffixes clashes', () => {
+    expect(catalogSymbols(named('Aco Bee', 'Aco Bat', 'Acolyte Bee'))).toEqual(['ACOB', 'ACOB2', 'ACOB3'])
+  })
+
+  it('gives every catalog card a unique symbol of at most 6 characters', () => {
+    const symbols = catalogSymbols(catalog)
+    expect(new Set(symbols).size).toBe(catalog.length)
+    expect(symbols.every(s => /^[A-Z0-9]{1,6}$/.test(s))).toBe(true)
+  })
+})
+
+describe('metadataUri', () => {
+  it('encodes the design as base64 JSON metadata', () => {
+    const card = catalog[0]
+    const uri = metadataUri(card)
+    expect(uri.startsWith('data:application/json;base64,')).toBe(true)
+
+    const metadata = JSON.parse(Buffer.from(uri.split(',')[1], 'base64').toString())
+    expect(metadata).toMatchObject({ name: card.name, description: card.flavorText, image: card.image })
+    expect(metadata.attributes).toContainEqual({ trait_type: 'Type', value: card.type })
+    expect(metadata.properties.theme).toEqual(card.theme)
+  })
+})
+
+describe('seedCatalog', () => {
+  it('creates cards in catalog order and resumes after the last one', async () => {
+    const chain = new MockChain()
+    const progress: number[] = []
+
+    const first = await seedCatalog(client(chain), catalog, { limit: 2, onProgress: p => progress.push(p.cardId) })
+    expect(first).toEqual({ existing: 0, created: 2, total: catalog.length })
+
+    const second = await seedCatalog(client(chain), catalog, { limit: 3, onProgress: p => progress.push(p.cardId) })
+    expect(second).toMatchObject({ existing: 2, created: 3 })
+    expect(progress).toEqual([0, 1, 2, 3, 4])
+
+    const cards = await client(chain).loadCards()
+    expect(cards.map(c => c.name)).toEqual(catalog.slice(0, 5).map(c => c.name))
+    expect(cards[4].symbol).toBe(catalogSymbols(catalog)[4])
+    expect(cards[0].uri).toBe(metadataUri(catalog[0]))
+  })
+
+  it('stops when the catalog is complete', async () => {
+    const chain = new MockChain()
+    const short = catalog.slice(0, 2)
+    await seedCatalog(client(chain), short)
+    expect(await seedCatalog(client(chain), short)).toEqual({ existing: 2, created: 0, total: 2 })
+  })
+
+  it('refuses a chain whose cards are not from the catalog', async () => {
+    const chain = new MockChain({ cards: [{ name: 'Hand Minted', symbol: 'HAND' }] })
+    await expect(seedCatalog(client(chain), catalog)).rejects.toThrow(/not a catalog chain/)
+    expect(await client(chain).totalCards()).toBe(1)
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Card catalog — public/data/cardData.json as on-chain cards
+ *
+ * Each catalog entry becomes one ROUTER.createCard: its name, a symbol derived
+ * from the name, and a tokenURI holding the full design as base64 JSON
+ * metadata (the `data:application/json;base64,` URIs the pages already read
+ * `image` from). Catalog order is card id order, so a chain holding the first
+ * N catalog cards resumes at entry N.
+ */
+import { readFileSync } from 'node:fs'
+import type { TransactionReceipt } from 'viem'
+import type { WhirlpoolClient } from '../src/sdk/WhirlpoolClient'
+
+/** Card stat badge: the value plus how the card renders it */
+export interface CatalogBadge {
+  value: string
+  color: string
+  textColor: string
+}
+
+/** One entry of public/data/cardData.json */
+export interface CatalogCard {
+  name: string
+  subtitle: string
+  level: string
+  /** Gateway URL or /images/ path */
+  image: string
+  type: string
+  stats: { attack: string; defense: string } | null
+  flavorText: string
+  artist: string
+  rarity: string
+  hp: CatalogBadge
+  manaCost: CatalogBadge
+  crit: CatalogBadge
+  /** CSS for each card section */
+  theme: Record<string, unknown>
+  /** Id in an earlier deployment; not used for seeding */
+  token_id?: number | null
+  ipfs_cid?: string
+}
+
+export const CATALOG_PATH = new URL('../public/data/cardData.json', import.meta.url)
+
+const MAX_SYMBOL = 6
+
+export function loadCatalog(path: string | URL = CATALOG_PATH): CatalogCard[] {
+  return JSON.parse(readFileSync(path, 'utf8')) as CatalogCard[]
+}
+
+/** ERC-721-style metadata: trait values as attributes, the card design under properties */
+export function cardMetadata(card: CatalogCard) {
+  const traits: [string, string | null | undefined][] = [
+    ['Type', card.type],
+    ['Rarity', card.rarity],
+    ['Level', card.level],
+    ['HP', card.hp?.value],
+    ['Mana Cost', card.manaCost?.value],
+    ['Crit', card.crit?.value],
+    ['Attack', card.stats?.attack],
+    ['Defense', card.stats?.defense],
+    ['Artist', card.artist],
+  ]
+  return {
+    name: card.name,
+    description: card.flavorText,
+    image: card.image,
+    attributes: traits.filter(([, value]) => value).map(([trait_type, value]) => ({ trait_type, value })),
+    properties: {
+      subtitle: card.subtitle,
+      badges: { hp: card.hp, manaCost: card.manaCost, crit: card.crit },
+      theme: card.theme,
+    },
+  }
+}
+
+export function metadataUri(card: CatalogCard): string {
+  return `data:application/json;base64,${Buffer.from(JSON.stringify(cardMetadata(card))).toString('base64')}`
+}
+
+/**
+ * One unique symbol per entry, in catalog order: a one-word name keeps its
+ * first letters ("Zombie" → ZOMBIE), longer names take three letters of the
+ * first word plus the initials of the rest ("Young White Dragon" → YOUWD).
+ * Clashes get a numeric suffix (ACO, ACO2, …).
+ */
+export function catalogSymbols(cards: CatalogCard[]): string[] {
+  const taken = new Set<string>()
+  return cards.map(card => {
+    const words = card.name.toUpperCase().match(/[A-Z0-9]+/g) ?? ['CARD']
+    const base = (words.length === 1 ? words[0] : words[0].slice(0, 3) + words.slice(1).map(w => w[0]).join(''))
+      .slice(0, MAX_SYMBOL)
+    let symbol = base
+    for (let n = 2; taken.has(symbol); n++) symbol = base.slice(0, MAX_SYMBOL - String(n).length) + n
+    taken.add(symbol)
+    return symbol
+  })
+}
+
+export interface SeedProgress {
+  /** Card id just created — also its catalog index */
+  cardId: number
+  total: number
+  name: string
+  symbol: string
+  receipt: TransactionReceipt
+}
+
+export interface SeedResult {
+  /** Catalog entries already on chain when seeding started */
+  existing: number
+  created: number
+  total: number
+}
+
+/**
+ * Create every catalog card the chain does not have yet, in order, resuming
+ * after the last created card id. Refuses to run on a chain whose last card
+ * is not the matching catalog entry, since the ids would no longer line up.
+ */
+export async function seedCatalog(client: WhirlpoolClient, cards: CatalogCard[], {
+  limit = Infinity,
+  fee,
+  onProgress,
+}: { limit?: number; fee?: bigint; onProgress?: (progress: SeedProgress) => void } = {}): Promise<SeedResult> {
+  const existing = await client.totalCards()
+  if (existing > cards.length) {
+    throw new Error(`Chain has ${existing} cards but the catalog only ${cards.length}`)
+  }
+  if (existing > 0) {
+    const last = await client.loadCard(existing - 1)
+    if (last.name !== cards[existing - 1].name) {
+      throw new Error(`Card #${existing - 1} is "${last.name}", catalog entry ${existing - 1} is "${cards[existing - 1].name}" — not a catalog chain`)
+    }
+  }
+
+  const symbols = catalogSymbols(cards)
+  const end = Math.min(cards.length, existing + limit)
+  for (let cardId = existing; cardId < end; cardId++) {
+    const card = cards[cardId]
+    const receipt = await client.createCard(card.name, symbols[cardId], metadataUri(card), fee)
+    onProgress?.({ cardId, total: cards.length, name: card.name, symbol: symbols[cardId], receipt })
+  }
+  return { existing, created: end - existing, total: cards.length }
+}
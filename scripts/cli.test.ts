@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { parseEther } from 'viem'
+import { MockChain } from '../src/sdk/MockChain'
+import { createCliClient, findCommand, formatTable, runCommand } from './cli'
+
+const options = { slippageBps: 50 }
+
+function setup() {
+  const chain = new MockChain({ cards: [{ name: 'Alpha Eagle', symbol: 'ALPHA' }, { name: 'Beta Beast', symbol: 'BETA' }] })
+  const account = chain.accounts[1]
+  chain.fund(account, { waves: parseEther('1000') })
+  const client = createCliClient({ network: chain.network, transport: chain.transport, account: { address: account, type: 'json-rpc' } })
+  const run = (line: string) => runCommand(client, line.split(' '), options)
+  return { chain, account, run }
+}
+
+describe('findCommand', () => {
+  it('prefers two-word commands and passes the rest as arguments', () => {
+    expect(findCommand(['weth', 'stake', '1'])?.args).toEqual(['1'])
+    expect(findCommand(['card', 'show', '3'])?.command.usage).toBe('card show <id>')
+    expect(findCommand(['swap', 'waves', '0', '5'])?.args).toEqual(['waves', '0', '5'])
+    expect(findCommand(['bogus'])).toBeNull()
+  })
+})
+
+describe('whirlpool CLI', () => {
+  it('lists cards and shows one', async () => {
+    const { chain, run } = setup()
+    const cards = await run('cards list')
+    expect(cards.map(c => c.name)).toEqual(['Alpha Eagle', 'Beta Beast'])
+    expect(cards[0].owner).toBe(chain.accounts[0])
+
+    const fields = Object.fromEntries((await run('card show 1')).map(r => [r.field, r.value]))
+    expect(fields).toMatchObject({ id: 1, symbol: 'BETA', myStake: '0' })
+  })
+
+  it('swaps, stakes, moves and unstakes a position', async () => {
+    const { run } = setup()
+
+    const [swap] = await run('swap waves 0 100')
+    expect(swap).toMatchObject({ step: 'waves → card-0', action: 'swapExact', status: 'success', spent: '100' })
+    expect(parseFloat(String(swap.minOut))).toBeLessThan(parseFloat(String(swap.received)))
+
+    expect((await run('stake 0 500'))[0].status).toBe('success')
+    const [move] = await run('swap-stake 0 1 200')
+    expect(move).toMatchObject({ step: 'card-0 → card-1', action: 'swapStake', status: 'success', spent: '200' })
+    expect(parseFloat(String(move.minOut))).toBeLessThan(parseFloat(String(move.received)))
+    await run('unstake 0 300')
+
+    const cards = await run('cards list')
+    expect(cards.map(c => c.stake)).toEqual(['0', expect.stringMatching(/^\d/)])
+    expect(parseFloat(String(cards[1].stake))).toBeGreaterThan(0)
+  })
+
+  it('claims every card with pending rewards when given no ids', async () => {
+    const { chain, run } = setup()
+    await run('swap waves card-1 100')
+    await run('stake 1 100')
+    chain.mine(3)
+
+    const claimed = await run('claim')
+    expect(claimed.map(r => r.card)).toEqual([1])
+    expect(await run('claim')).toEqual([])
+  })
+
+  it('routes ETH into a card through WETH and WAVES', async () => {
+    const { run } = setup()
+    const steps = await run('swap eth 1 0.5')
+    expect(steps.map(r => r.step)).toEqual(['eth → weth', 'weth → waves', 'waves → card-1'])
+    expect(steps.map(r => r.action)).toEqual(['deposit', 'swapExact', 'swapExact'])
+    expect(steps[2].spent).toBe(steps[1].received)
+    expect((await run('cards list'))[1].balance).toBe(steps[2].received)
+  })
+
+  it('wraps and stakes WETH', async () => {
+    const { run } = setup()
+    await run('wrap 2')
+    await run('weth stake 1.5')
+    const [balances] = await run('balances')
+    expect(balances).toMatchObject({ weth: '0.5', wethStake: '1.5' })
+    expect((await run('weth pool'))[0].totalStaked).toBe('1.5')
+  })
+
+  it('rejects bad arguments before sending anything', async () => {
+    const { chain, run } = setup()
+    const block = chain.blockNumber
+    await expect(run('stake x 1')).rejects.toThrow('Invalid card id "x"')
+    await expect(run('stake 0 -1')).rejects.toThrow('Invalid amount "-1"')
+    await expect(run('swap dai waves 1')).rejects.toThrow('Invalid card id "dai"')
+    expect(chain.blockNumber).toBe(block)
+  })
+
+  it('surfaces decoded reverts', async () => {
+    const { run } = setup()
+    await expect(run('unstake 0 1')).rejects.toThrow('unstake would revert: insufficient stake')
+  })
+})
+
+describe('formatTable', () => {
+  it('aligns columns across rows', () => {
+    expect(formatTable([{ id: 0, name: 'Alpha' }, { id: 12, name: 'B' }])).toBe('id  name\n0   Alpha\n12  B')
+    expect(formatTable([])).toBe('(none)')
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * Whirlpool CLI commands — the SDK behind `npm run whirlpool`
+ *
+ * Every command takes a WhirlpoolClient (with a wallet for writes) and its
+ * positional arguments and returns rows, so the entry point only parses
+ * options and prints. Reads, approvals and revert decoding are the
+ * WhirlpoolClient's, the same code the app runs.
+ */
+import { createPublicClient, createWalletClient, formatEther, http, parseEther } from 'viem'
+import type { Account, Chain, Hex, TransactionReceipt, Transport } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { TEST_ACCOUNTS } from '../src/contracts/erc1142'
+import { DEFAULT_CHAIN_ID, getNetwork, toChain } from '../src/contracts/networks'
+import type { WhirlpoolNetwork } from '../src/contracts/networks'
+import { WhirlpoolClient } from '../src/sdk/WhirlpoolClient'
+import { hopAction, hopTokens } from '../src/sdk/router'
+import type { ClientLogger, SwapHopResult } from '../src/sdk/types'
+
+/** One output line: a table row, or one object in --json output */
+export type Row = Record<string, string | number>
+
+export interface CliOptions {
+  /** Max accepted shortfall vs quoted swap output, in basis points */
+  slippageBps: number
+}
+
+/** The app's default slippage setting */
+export const DEFAULT_SLIPPAGE_BPS = 50
+
+interface Command {
+  usage: string
+  describe: string
+  run: (client: WhirlpoolClient, args: string[], options: CliOptions) => Promise<Row[]>
+}
+
+/** Read client plus, with an account, a wallet client on the same transport */
+export function createCliClient({ network, transport, account, onLog }: {
+  network: WhirlpoolNetwork
+  transport: Transport
+  account?: Account
+  onLog?: ClientLogger
+}): WhirlpoolClient {
+  const chain: Chain = toChain(network)
+  return new WhirlpoolClient({
+    network,
+    publicClient: createPublicClient({ chain, transport }),
+    walletClient: account ? createWalletClient({ account, chain, transport }) : undefined,
+    onLog,
+    // Scripts approve what each command needs, never unlimited
+    approvalMode: 'exact',
+  })
+}
+
+/**
+ * Client for a live node: RPC from `rpc` or WHIRLPOOL_RPC_URL (default: the
+ * registry URL of the default chain), addresses from the chain it reports,
+ * signing with WHIRLPOOL_PRIVATE_KEY or TEST_ACCOUNTS[`account` ?? WHIRLPOOL_ACCOUNT ?? 0].
+ * Progress messages (approvals) go to stderr so stdout stays parseable.
+ */
+export async function connectFromEnv({ rpc, account }: { rpc?: string; account?: string } = {}): Promise<WhirlpoolClient> {
+  const rpcUrl = rpc ?? process.env.WHIRLPOOL_RPC_URL ?? getNetwork(DEFAULT_CHAIN_ID).rpcUrl
+  const chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId()
+  const registered = getNetwork(chainId)
+  if (registered.id !== chainId) throw new Error(`Chain ${chainId} at ${rpcUrl} is not in the network registry`)
+
+  const key = process.env.WHIRLPOOL_PRIVATE_KEY
+  const index = Number(account ?? process.env.WHIRLPOOL_ACCOUNT ?? 0)
+  if (!key && !TEST_ACCOUNTS[index]) throw new Error(`No test account #${index} (have 0–${TEST_ACCOUNTS.length - 1})`)
+
+  return createCliClient({
+    network: { ...registered, rpcUrl },
+    transport: http(rpcUrl),
+    account: privateKeyToAccount(key ? key as Hex : TEST_ACCOUNTS[index].pk),
+    onLog: message => console.error(message),
+  })
+}
+
+function cardId(arg: string | undefined): number {
+  const id = Number(arg)
+  if (arg === undefined || !Number.isInteger(id) || id < 0) throw new Error(`Invalid card id "${arg ?? ''}"`)
+  return id
+}
+
+function amount(arg: string | undefined): bigint {
+  try {
+    const value = parseEther(arg ?? '')
+    if (value > 0n) return value
+  } catch { /* reported below */ }
+  throw new Error(`Invalid amount "${arg ?? ''}"`)
+}
+
+/** 'eth' | 'waves' | 'weth' | 'card-<id>', also accepting a bare card id */
+function token(arg: string | undefined): string {
+  const key = (arg ?? '').toLowerCase()
+  if (key === 'eth' || key === 'waves' || key === 'weth') return key
+  return `card-${cardId(key.replace('card-', ''))}`
+}
+
+function account(client: WhirlpoolClient) {
+  if (!client.account) throw new Error('This command needs an account: set WHIRLPOOL_PRIVATE_KEY or WHIRLPOOL_ACCOUNT')
+  return client.account
+}
+
+function sent(action: string, receipt: TransactionReceipt): Row {
+  return { action, status: receipt.status, block: Number(receipt.blockNumber), hash: receipt.transactionHash }
+}
+
+/** One row per executed route step: what it spent, received and was guarded to */
+function stepRows(results: SwapHopResult[]): Row[] {
+  return results.map(({ hop, amountIn, amountOut, minAmountOut, receipt }) => ({
+    step: hopTokens(hop).join(' → '),
+    ...sent(hopAction(hop), receipt),
+    spent: formatEther(amountIn),
+    received: formatEther(amountOut),
+    minOut: formatEther(minAmountOut),
+  }))
+}
+
+export const COMMANDS: Record<string, Command> = {
+  'cards list': {
+    usage: 'cards list',
+    describe: 'Every card with its owner, price and your position',
+    run: async client => (await client.loadCards(client.account)).map(c => ({
+      id: c.id, name: c.name, symbol: c.symbol, owner: c.owner, price: c.price,
+      stake: c.myStake, balance: c.myBalance, pending: c.pendingRewards,
+    })),
+  },
+  'card show': {
+    usage: 'card show <id>',
+    describe: 'One card in full',
+    run: async (client, [id]) => {
+      const card = await client.loadCard(cardId(id), client.account)
+      return Object.entries(card).map(([field, value]) => ({ field, value }))
+    },
+  },
+  balances: {
+    usage: 'balances',
+    describe: 'ETH, WAVES, WETH, staked WETH and pending WETH-pool rewards',
+    run: async client => {
+      const owner = account(client)
+      const [balances, pending] = await Promise.all([client.getBalances(owner), client.pendingGlobalRewards(owner)])
+      return [{ account: owner, ...balances, wethPending: pending }]
+    },
+  },
+  stake: {
+    usage: 'stake <id> <amount>',
+    describe: 'Stake card tokens from your wallet',
+    run: async (client, [id, amt]) => [sent('stake', await client.stake(cardId(id), amount(amt)))],
+  },
+  unstake: {
+    usage: 'unstake <id> <amount>',
+    describe: 'Unstake card tokens back to your wallet',
+    run: async (client, [id, amt]) => [sent('unstake', await client.unstake(cardId(id), amount(amt)))],
+  },
+  'swap-stake': {
+    usage: 'swap-stake <from> <to> <shares>',
+    describe: 'Move staked shares into another card by swapStake or unstake → swap → stake, whichever pays more; one row per step',
+    run: async (client, [from, to, shares], { slippageBps }) => {
+      const plan = await client.planSwap(`card-${cardId(from)}`, `card-${cardId(to)}`, amount(shares), 'staked')
+      return stepRows(await client.executeSwapPlan(plan, slippageBps))
+    },
+  },
+  swap: {
+    usage: 'swap <in> <out> <amount>',
+    describe: "Swap along the best SurfSwap route, one row per step; tokens are 'eth', 'waves', 'weth' or a card id",
+    run: async (client, [tokenIn, tokenOut, amt], { slippageBps }) => {
+      const plan = await client.planSwap(token(tokenIn), token(tokenOut), amount(amt))
+      return stepRows(await client.executeSwapPlan(plan, slippageBps))
+    },
+  },
+  claim: {
+    usage: 'claim [id...]',
+    describe: 'Claim card rewards; without ids, every card with rewards pending',
+    run: async (client, ids) => {
+      const targets = ids.length > 0
+        ? ids.map(cardId)
+        : (await client.loadCards(account(client))).filter(c => parseFloat(c.pendingRewards) > 0).map(c => c.id)
+      const rows: Row[] = []
+      for (const id of targets) rows.push({ card: id, ...sent('claimRewards', await client.claimRewards(id)) })
+      return rows
+    },
+  },
+  wrap: {
+    usage: 'wrap <amount>',
+    describe: 'Wrap ETH into WETH',
+    run: async (client, [amt]) => [sent('deposit', await client.wrapETH(amount(amt)))],
+  },
+  unwrap: {
+    usage: 'unwrap <amount>',
+    describe: 'Unwrap WETH into ETH',
+    run: async (client, [amt]) => [sent('withdraw', await client.unwrapETH(amount(amt)))],
+  },
+  'weth pool': {
+    usage: 'weth pool',
+    describe: 'Total WETH staked and the WETH price in WAVES',
+    run: async client => [{ ...(await client.getWethPool()) }],
+  },
+  'weth stake': {
+    usage: 'weth stake <amount>',
+    describe: 'Stake WETH in the ETH pool',
+    run: async (client, [amt]) => [sent('stakeWETH', await client.stakeWETH(amount(amt)))],
+  },
+  'weth unstake': {
+    usage: 'weth unstake <amount>',
+    describe: 'Unstake WETH from the ETH pool',
+    run: async (client, [amt]) => [sent('unstakeWETH', await client.unstakeWETH(amount(amt)))],
+  },
+  'weth claim': {
+    usage: 'weth claim',
+    describe: 'Claim ETH pool rewards',
+    run: async client => [sent('claimWETHRewards', await client.claimWETHRewards())],
+  },
+}
+
+/** The command named by the leading positionals (two-word names first) and its arguments */
+export function findCommand(positionals: string[]): { command: Command; args: string[] } | null {
+  const [first, second] = positionals
+  const command = COMMANDS[`${first} ${second}`] ?? COMMANDS[first]
+  if (!command) return null
+  return { command, args: positionals.slice(command.usage.split(' ').filter(w => !/^[<[]/.test(w)).length) }
+}
+
+export function runCommand(client: WhirlpoolClient, positionals: string[], options: CliOptions): Promise<Row[]> {
+  const found = findCommand(positionals)
+  if (!found) throw new Error(`Unknown command "${positionals.join(' ')}" — run with --help`)
+  return found.command.run(client, found.args, options)
+}
+
+/** Rows as an aligned text table */
+export function formatTable(rows: Row[]): string {
+  if (rows.length === 0) return '(none)'
+  const columns = [...new Set(rows.flatMap(Object.keys))]
+  const cells = [columns, ...rows.map(row => columns.map(c => String(row[c] ?? '')))]
+  const widths = columns.map((_, i) => Math.max(...cells.map(line => line[i].length)))
+  return cells.map(line => line.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n')
+}
+
+export function usage(): string {
+  const width = Math.max(...Object.values(COMMANDS).map(c => c.usage.length))
+  return Object.values(COMMANDS).map(c => `  ${c.usage.padEnd(width)}  ${c.describe}`).join('\n')
+}
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { afterEach, describe, expect, it } from 'vitest'
+import { getAddress } from 'viem'
+import { parseBroadcast } from '../src/contracts/broadcast'
+import type { ForgeBroadcast } from '../src/contracts/broadcast'
+import { syncDeployments } from './deployments'
+
+// A Foundry project whose broadcast/ holds one anvil run (chain 31337)
+const FIXTURES = fileURLToPath(new URL('./fixtures', import.meta.url))
+const RUN_LATEST = path.join(FIXTURES, 'broadcast/WhirlpoolDeploy.s.sol/31337/run-latest.json')
+
+const run = () => JSON.parse(fs.readFileSync(RUN_LATEST, 'utf8')) as ForgeBroadcast
+
+describe('parseBroadcast', () => {
+  it('maps CREATE and CREATE2 deployments onto their registry keys, checksummed', () => {
+    expect(parseBroadcast(run(), 'run-latest.json')).toEqual({
+      contracts: {
+        WHIRLPOOL: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
+        WAVES: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        BIDNFT: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+        WETH: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+        SURFSWAP: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+        ROUTER: '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707',
+      },
+      deployBlock: 5,
+    })
+  })
+
+  it('skips calls and contracts it has no registry key for', () => {
+    const deployment = parseBroadcast(run(), 'run-latest.json')
+    // Multicall3 is only called in this run, never created
+    expect(deployment.multicall3).toBeUndefined()
+    expect(Object.values(deployment.contracts)).not.toContain(getAddress('0x0165878a594ca255338adfa4d48449f69242eb8f'))
+  })
+
+  it('names the missing contract and what the run did create', () => {
+    const broadcast = run()
+    broadcast.transactions = broadcast.transactions.filter(tx => tx.contractName !== 'WETH9')
+    expect(() => parseBroadcast(broadcast, 'run-latest.json')).toThrow(
+      'run-latest.json: missing contract(s) WETH (WETH | WETH9 | MockWETH) — ' +
+      'broadcast created [WAVES, BidNFT, SurfSwap, WhirlpoolStaking, WhirlpoolRouter, MockOracle]',
+    )
+  })
+})
+
+describe('syncDeployments', () => {
+  let outDir: string | undefined
+  afterEach(() => { if (outDir) fs.rmSync(outDir, { recursive: true, force: true }) })
+
+  it('writes the generated module once and leaves it alone while nothing changed', () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'))
+    const outFile = path.join(outDir, 'deployments.generated.ts')
+
+    const first = syncDeployments({ contractsDir: FIXTURES, outFile })
+    expect(first.changed).toBe(true)
+    expect(first.deployments).toEqual({ 31337: parseBroadcast(run(), 'run-latest.json') })
+    const source = fs.readFileSync(outFile, 'utf8')
+    expect(source).toContain("      SURFSWAP: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',")
+    expect(source).toContain('    deployBlock: 5,')
+    expect(source).not.toContain('multicall3')
+
+    expect(syncDeployments({ contractsDir: FIXTURES, outFile }).changed).toBe(false)
+  })
+
+  it('leaves the generated module untouched when there is no broadcast', () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-'))
+    const outFile = path.join(outDir, 'deployments.generated.ts')
+    expect(syncDeployments({ contractsDir: outDir, outFile })).toMatchObject({ deployments: null, changed: false })
+    expect(fs.existsSync(outFile)).toBe(false)
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * deployments — Foundry broadcast → src/contracts/deployments.generated.ts
+ *
+ * Scans <contracts>/broadcast/WhirlpoolDeploy.s.sol/<chainId>/run-latest.json
+ * for every chain that has been deployed to and writes the address map the
+ * network registry consumes. Used by `npm run deployments` and by the
+ * Vite plugin below, which re-syncs whenever forge rewrites a broadcast.
+ */
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { Plugin } from 'vite'
+import { DEPLOY_SCRIPT, parseBroadcast } from '../src/contracts/broadcast'
+import type { ForgeBroadcast } from '../src/contracts/broadcast'
+import type { Deployment } from '../src/contracts/networks'
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url))
+
+export interface SyncOptions {
+  /** Foundry project holding broadcast/ (default: $WHIRLPOOL_CONTRACTS_DIR or ../erc-1142) */
+  contractsDir?: string
+  /** Generated module path (default: src/contracts/deployments.generated.ts) */
+  outFile?: string
+}
+
+export interface SyncResult {
+  broadcastDir: string
+  outFile: string
+  /** null when no broadcast directory exists — the generated file is left untouched */
+  deployments: Record<number, Deployment> | null
+  changed: boolean
+}
+
+function resolveOptions(opts: SyncOptions) {
+  const contractsDir = path.resolve(ROOT, opts.contractsDir ?? process.env.WHIRLPOOL_CONTRACTS_DIR ?? '../erc-1142')
+  return {
+    broadcastDir: path.join(contractsDir, 'broadcast', DEPLOY_SCRIPT),
+    outFile: path.resolve(ROOT, opts.outFile ?? 'src/contracts/deployments.generated.ts'),
+  }
+}
+
+/** Read every chain's run-latest.json; throws on a broadcast missing a contract */
+export function readDeployments(broadcastDir: string): Record<number, Deployment> {
+  const deployments: Record<number, Deployment> = {}
+  const chainIds = fs.readdirSync(broadcastDir).filter(d => /^\d+$/.test(d)).sort((a, b) => Number(a) - Number(b))
+  for (const chainId of chainIds) {
+    const file = path.join(broadcastDir, chainId, 'run-latest.json')
+    if (!fs.existsSync(file)) continue
+    const run = JSON.parse(fs.readFileSync(file, 'utf8')) as ForgeBroadcast
+    deployments[Number(chainId)] = parseBroadcast(run, path.relative(ROOT, file))
+  }
+  return deployments
+}
+
+function renderModule(deployments: Record<number, Deployment>): string {
+  const body = Object.entries(deployments).map(([chainId, d]) => {
+    const contracts = Object.entries(d.contracts).map(([k, v]) => `      ${k}: '${v}',`).join('\n')
+    const multicall = d.multicall3 ? `    multicall3: '${d.multicall3}',\n` : ''
+    return `  ${chainId}: {\n    contracts: {\n${contracts}\n    },\n    deployBlock: ${d.deployBlock},\n${multicall}  },`
+  }).join('\n')
+  return [
+    '// Generated by `npm run deployments` from Foundry broadcast artifacts — do not edit.',
+    "import type { Deployment } from './networks';",
+    '',
+    `export const DEPLOYMENTS: Record<number, Deployment> = {${body ? `\n${body}\n` : ''}};`,
+    '',
+  ].join('\n')
+}
+
+export function syncDeployments(opts: SyncOptions = {}): SyncResult {
+  const { broadcastDir, outFile } = resolveOptions(opts)
+  if (!fs.existsSync(broadcastDir)) {
+    return { broadcastDir, outFile, deployments: null, changed: false }
+  }
+  const deployments = readDeployments(broadcastDir)
+  const source = renderModule(deployments)
+  const changed = !fs.existsSync(outFile) || fs.readFileSync(outFile, 'utf8') !== source
+  if (changed) fs.writeFileSync(outFile, source)
+  return { broadcastDir, outFile, deployments, changed }
+}
+
+/** Vite plugin: sync on startup/build and again whenever a broadcast changes */
+export function foundryDeployments(opts: SyncOptions = {}): Plugin {
+  return {
+    name: 'whirlpool:foundry-deployments',
+
+    buildStart() {
+      const result = syncDeployments(opts)
+      if (!result.deployments) {
+        this.warn(`No Foundry broadcasts at ${result.broadcastDir} — using committed deployments`)
+      }
+    },
+
+    configureServer(server) {
+      const { broadcastDir } = resolveOptions(opts)
+      server.watcher.add(broadcastDir)
+      const onChange = (file: string) => {
+        if (!file.startsWith(broadcastDir) || !file.endsWith('run-latest.json')) return
+        try {
+          if (syncDeployments(opts).changed) {
+            server.config.logger.info(`[deployments] synced from ${path.relative(ROOT, file)}`, { timestamp: true })
+          }
+        } catch (e) {
+          const err = e as Error
+          server.config.logger.error(`[deployments] ${err.message}`, { timestamp: true })
+          server.ws.send({ type: 'error', err: { message: err.message, stack: '', plugin: 'whirlpool:foundry-deployments' } })
+        }
+      }
+      server.watcher.on('add', onChange)
+      server.watcher.on('change', onChange)
+    },
+  }
+}
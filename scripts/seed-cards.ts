@@ -0,0 +1,59 @@
+/** npm run seed — mint the public/data/cardData.json catalog onto a fresh chain (see scripts/catalog.ts) */
+import { parseArgs } from 'node:util'
+import { parseEther } from 'viem'
+import { connectFromEnv } from './cli'
+import { loadCatalog, seedCatalog } from './catalog'
+
+const HELP = `Usage: npm run seed -- [options]
+
+Creates every catalog card the chain does not have yet, resuming after the last one created.
+
+Options:
+  --rpc <url>       RPC endpoint (env WHIRLPOOL_RPC_URL, default: the registry URL of the default chain)
+  --account <n>     Pay fees as TEST_ACCOUNTS[n] (env WHIRLPOOL_ACCOUNT, default 0)
+  --limit <n>       Create at most n cards this run
+  --fee <eth>       Mint fee per card (default 0.05)
+  --catalog <path>  Catalog JSON (default public/data/cardData.json)
+  -h, --help        Show this help
+
+WHIRLPOOL_PRIVATE_KEY, when set, signs instead of a test account.`
+
+const { values } = parseArgs({
+  options: {
+    rpc: { type: 'string' },
+    account: { type: 'string' },
+    limit: { type: 'string' },
+    fee: { type: 'string' },
+    catalog: { type: 'string' },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+})
+
+if (values.help) {
+  console.log(HELP)
+  process.exit(0)
+}
+
+try {
+  const limit = values.limit !== undefined ? Number(values.limit) : Infinity
+  if (!(limit > 0)) throw new Error(`Invalid limit "${values.limit}"`)
+  const cards = loadCatalog(values.catalog)
+  const client = await connectFromEnv({ rpc: values.rpc, account: values.account })
+  console.log(`${client.network.name} · ${cards.length} catalog cards · minting as ${client.account}`)
+
+  const width = String(cards.length).length
+  const { existing, created, total } = await seedCatalog(client, cards, {
+    limit,
+    fee: values.fee !== undefined ? parseEther(values.fee) : undefined,
+    onProgress: ({ cardId, total, name, symbol, receipt }) => {
+      console.log(`  [${String(cardId + 1).padStart(width)}/${total}] #${cardId} ${name} (${symbol}) · block ${receipt.blockNumber}`)
+    },
+  })
+
+  const remaining = total - existing - created
+  const summary = `created ${created}, ${existing} were already on chain`
+  console.log(remaining > 0 ? `✓ ${summary} · ${remaining} left, run again to continue` : `✓ Catalog complete · ${summary}`)
+} catch (e) {
+  console.error(`✗ ${(e as { shortMessage?: string }).shortMessage ?? (e as Error).message}`)
+  process.exit(1)
+}
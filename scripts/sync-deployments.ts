@@ -0,0 +1,21 @@
+/** npm run deployments — regenerate contract addresses from Foundry broadcasts */
+import path from 'node:path'
+import { syncDeployments } from './deployments'
+
+try {
+  const result = syncDeployments({ contractsDir: process.argv[2] })
+  if (!result.deployments) {
+    console.error(`✗ No broadcasts found at ${result.broadcastDir}`)
+    console.error('  Run forge script script/WhirlpoolDeploy.s.sol --broadcast first, or pass the contracts dir.')
+    process.exit(1)
+  }
+  for (const [chainId, d] of Object.entries(result.deployments)) {
+    console.log(`chain ${chainId} · deployed at block ${d.deployBlock}`)
+    for (const [name, addr] of Object.entries(d.contracts)) console.log(`  ${name.padEnd(10)} ${addr}`)
+    console.log(`  ${'MULTICALL3'.padEnd(10)} ${d.multicall3 ?? '— (reads fall back to JSON-RPC batching)'}`)
+  }
+  console.log(result.changed ? `✓ Wrote ${path.relative(process.cwd(), result.outFile)}` : '✓ Already up to date')
+} catch (e) {
+  console.error(`✗ ${(e as Error).message}`)
+  process.exit(1)
+}
@@ -0,0 +1,49 @@
+/** npm run whirlpool -- <command> — script Whirlpool from Node (see scripts/cli.ts) */
+import { parseArgs } from 'node:util'
+import { DEFAULT_SLIPPAGE_BPS, connectFromEnv, findCommand, formatTable, runCommand, usage } from './cli'
+
+const HELP = `Usage: npm run whirlpool -- <command> [options]
+
+Commands:
+${usage()}
+
+Options:
+  --rpc <url>         RPC endpoint (env WHIRLPOOL_RPC_URL, default: the registry URL of the default chain)
+  --account <n>       Sign as TEST_ACCOUNTS[n] (env WHIRLPOOL_ACCOUNT, default 0)
+  --slippage <bps>    Swap slippage tolerance (default ${DEFAULT_SLIPPAGE_BPS} = ${DEFAULT_SLIPPAGE_BPS / 100}%)
+  --json              Print JSON instead of a table
+  -h, --help          Show this help
+
+WHIRLPOOL_PRIVATE_KEY, when set, signs instead of a test account.`
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    rpc: { type: 'string' },
+    account: { type: 'string' },
+    slippage: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+})
+
+if (values.help || positionals.length === 0 || !findCommand(positionals)) {
+  if (positionals.length > 0 && !values.help) console.error(`✗ Unknown command "${positionals.join(' ')}"\n`)
+  console.log(HELP)
+  process.exit(values.help ? 0 : 1)
+}
+
+try {
+  const client = await connectFromEnv({ rpc: values.rpc, account: values.account })
+  const slippageBps = values.slippage !== undefined ? Number(values.slippage) : DEFAULT_SLIPPAGE_BPS
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+    throw new Error(`Invalid slippage "${values.slippage}" (basis points, 0–10000)`)
+  }
+
+  const rows = await runCommand(client, positionals, { slippageBps })
+  console.log(values.json ? JSON.stringify(rows, null, 2) : formatTable(rows))
+} catch (e) {
+  // Reverts arrive as WhirlpoolRevertError: "stake would revert: <reason>"
+  console.error(`✗ ${(e as { shortMessage?: string }).shortMessage ?? (e as Error).message}`)
+  process.exit(1)
+}
@@ -232,6 +232,13 @@ import StakingDashboard from './pages/StakingDashboard'
 import MumuGallery from './pages/MumuGallery'
 import SwapPage from './pages/SwapPage'
 import MintPage from './pages/MintPage'
+import AllowancesPage from './pages/AllowancesPage'
+import WethPoolPage from './pages/WethPoolPage'
+import NetworkSwitcher from './components/NetworkSwitcher'
+import BurnerSwitcher from './components/BurnerSwitcher'
+import TransactionDrawer from './components/TransactionDrawer'
+import AlertToasts from './components/AlertToasts'
+import { useTransactions, useWhirlpoolActions, useWhirlpoolContext, useWhirlpoolSelector } from './hooks/useWhirlpool'
 
 // ─── Content Page ───────────────────────────────────────────────
 function ContentPage({ parent, sub }: { parent: string; sub: string }) {
@@ -278,6 +285,8 @@ const heroItems: GearNavItem[] = [
     { id: 'whirlpool-mint', label: 'mint', icon: '🔗', innardSrc: '/images/nftMint.png' },
     { id: 'whirlpool-stake', label: 'stake', icon: '🔄', innardSrc: '/images/stakeLogo.png' },
     { id: 'whirlpool-swap', label: 'swap', icon: '🔀', innardSrc: '/images/surfSwap.png' },
+    { id: 'whirlpool-weth', label: 'weth pool', icon: 'Ξ' },
+    { id: 'whirlpool-allowances', label: 'allowances', icon: '🔐' },
   ]},
   { label: 'Generic-1', icon: '⚙️', subItems: [
     { id: 'g1-sub1', label: 'Sub 1', icon: '○' },
@@ -315,6 +324,12 @@ export default function App() {
   const [menuOpen, setMenuOpen] = useState(false)
   const [lightningStep, setLightningStep] = useState(-1)
   const [pepesEnabled, setPepesEnabled] = useState(true)
+  const [txDrawerOpen, setTxDrawerOpen] = useState(false)
+  const { transactions: txTracker } = useWhirlpoolContext()
+  const transactions = useTransactions()
+  const pendingTxs = transactions.filter(tx => tx.status === 'pending').length
+  const alerts = useWhirlpoolSelector(s => s.alerts)
+  const { dismissAlert, muteCard } = useWhirlpoolActions()
 
   // DOM refs for direct manipulation (no React re-renders during scroll)
   const scrollRef = useRef<HTMLDivElement>(null)
@@ -527,8 +542,10 @@ export default function App() {
             title="Sistine theme"
           >🎨</button>
         </div>
-        {/* Wallet Connect — bottom-right of hero */}
-        <div className="absolute bottom-6 right-6 z-30 pointer-events-auto">
+        {/* Network + Wallet Connect — bottom-right of hero */}
+        <div className="absolute bottom-6 right-6 z-30 pointer-events-auto flex items-stretch gap-3">
+          {import.meta.env.DEV && <BurnerSwitcher />}
+          <NetworkSwitcher />
           <button
             onClick={() => isConnected ? disconnect() : connect({ connector: injected() })}
             className="group relative flex items-center gap-3 px-5 py-2.5 cursor-pointer overflow-hidden rounded-sm border-2 border-[#2a2d40] bg-[#1a1d2e] text-white font-bold text-sm tracking-wider transition-all duration-200 hover:border-cyan-500/60 hover:shadow-[0_4px_20px_rgba(0,0,0,0.3)]"
@@ -576,6 +593,10 @@ export default function App() {
                 <SwapPage />
               ) : activePage.sub.id === 'whirlpool-mint' ? (
                 <MintPage />
+              ) : activePage.sub.id === 'whirlpool-weth' ? (
+                <WethPoolPage />
+              ) : activePage.sub.id === 'whirlpool-allowances' ? (
+                <AllowancesPage />
               ) : (
                 <ContentPage parent={activePage.parent.label} sub={activePage.sub.label} />
               )}
@@ -584,6 +605,31 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* ─── Transactions — toggle stays reachable from every page ─── */}
+      {transactions.length > 0 && (
+        <button
+          onClick={() => setTxDrawerOpen(true)}
+          className="fixed bottom-6 left-6 z-30 flex items-center gap-2 px-3 py-2 rounded-sm border-2 border-[#2a2d40] bg-[#1a1d2e] text-[11px] font-bold uppercase tracking-wider text-gray-400 hover:text-white cursor-pointer shadow-[0_2px_10px_rgba(0,0,0,0.3)]"
+          style={{ fontFamily: "'DM Mono', monospace" }}
+        >
+          {pendingTxs > 0 ? (
+            <><span className="w-2 h-2 rounded-full bg-cyan-400 animate-pulse" /> {pendingTxs} pending</>
+          ) : (
+            <>⛓ Transactions</>
+          )}
+        </button>
+      )}
+      <TransactionDrawer
+        transactions={transactions}
+        open={txDrawerOpen}
+        onClose={() => setTxDrawerOpen(false)}
+        onDismiss={hash => txTracker.dismiss(hash)}
+        onClear={() => txTracker.clear()}
+      />
+
+      {/* ─── Ownership alerts — toasts from any page ─── */}
+      <AlertToasts alerts={alerts} onDismiss={dismissAlert} onMute={cardId => muteCard(cardId, true)} />
+
       <style>{`
         @keyframes gearPulse {
           0%, 100% { opacity: 0.15; transform: scale(1); }
@@ -0,0 +1,78 @@
+/**
+ * AlertToasts — Ownership alerts stacked in the bottom-right corner
+ *
+ * Renders the provider's alert queue (see hooks/ownershipAlerts.ts): a card
+ * taken from you, a card you took, or a runner-up closing in. Losses stay up
+ * until dismissed; the rest fade after a few seconds. Each toast can mute
+ * its card's alerts from then on.
+ *
+ * Dark terminal styling to match TransactionDrawer: DM Mono, colored edge per kind
+ */
+import { useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { OwnershipAlert, OwnershipAlertKind } from '../hooks/ownershipAlerts'
+
+export interface AlertToastsProps {
+  alerts: OwnershipAlert[]
+  onDismiss: (id: number) => void
+  /** Silence the card's alerts; hides the Mute button when omitted */
+  onMute?: (cardId: number) => void
+}
+
+/** How long gained / risk toasts stay up */
+const TOAST_MS = 8_000
+
+const KIND_STYLE: Record<OwnershipAlertKind, { icon: string; color: string }> = {
+  lost: { icon: '✗', color: '#ff4444' },
+  gained: { icon: '★', color: '#00ffaa' },
+  risk: { icon: '⚠', color: '#f59e0b' },
+}
+
+function Toast({ alert, onDismiss, onMute }: { alert: OwnershipAlert } & Omit<AlertToastsProps, 'alerts'>) {
+  const { icon, color } = KIND_STYLE[alert.kind]
+
+  useEffect(() => {
+    if (alert.kind === 'lost') return
+    const timer = setTimeout(() => onDismiss(alert.id), TOAST_MS)
+    return () => clearTimeout(timer)
+  }, [alert, onDismiss])
+
+  return (
+    <motion.div
+      layout
+      role="alert"
+      initial={{ opacity: 0, x: 40 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 40 }}
+      className="w-80 bg-[#0d0f1a] border-2 border-[#2a2d40] rounded-sm px-3 py-2 shadow-[0_2px_10px_rgba(0,0,0,0.4)]"
+      style={{ fontFamily: "'DM Mono', monospace", borderLeft: `3px solid ${color}` }}
+    >
+      <div className="flex items-start gap-2">
+        <span style={{ color }} className="text-sm font-bold">{icon}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-[12px] font-bold text-white">{alert.title}</p>
+          <p className="text-[11px] text-gray-400 break-words">{alert.body}</p>
+        </div>
+        <button onClick={() => onDismiss(alert.id)} aria-label="Dismiss" className="text-gray-500 hover:text-white text-xs cursor-pointer">✕</button>
+      </div>
+      {onMute && (
+        <button
+          onClick={() => onMute(alert.cardId)}
+          className="mt-1 text-[10px] uppercase tracking-wider text-gray-500 hover:text-amber-400 cursor-pointer"
+        >
+          🔕 Mute card #{alert.cardId}
+        </button>
+      )}
+    </motion.div>
+  )
+}
+
+export default function AlertToasts({ alerts, onDismiss, onMute }: AlertToastsProps) {
+  return (
+    <div className="fixed bottom-6 right-6 z-40 flex flex-col gap-2 items-end">
+      <AnimatePresence initial={false}>
+        {alerts.map(alert => <Toast key={alert.id} alert={alert} onDismiss={onDismiss} onMute={onMute} />)}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+/** BurnerSwitcher — Dev-only picker for the Anvil test account to sign as
+ *
+ * One button per TEST_ACCOUNTS role (owner, challenger, staker). Picking
+ * one connects the burner connector, or re-points it when already
+ * connected, so steal flows can be played from both sides in one tab.
+ * Renders nothing when the burner connector isn't registered (production).
+ */
+import { useAccount, useConnect, useConnectors } from 'wagmi'
+import type { Connector } from 'wagmi'
+import { TEST_ACCOUNTS } from '../contracts/erc1142'
+import { BURNER_ROLES } from '../contracts/burner'
+import type { BurnerProperties } from '../contracts/burner'
+
+export default function BurnerSwitcher() {
+  const connector = useConnectors().find(c => c.id === 'burner') as (Connector & BurnerProperties) | undefined
+  const { connector: active, address } = useAccount()
+  const { connect, isPending } = useConnect()
+
+  if (!connector) return null
+
+  const selected = active?.id === 'burner' ? TEST_ACCOUNTS.findIndex(a => a.address === address) : -1
+
+  const select = async (index: number) => {
+    await connector.switchAccount(index)
+    if (active?.id !== 'burner') connect({ connector })
+  }
+
+  return (
+    <div
+      className="flex border-2 border-dashed border-amber-600/50 bg-[#1a1d2e] rounded-sm overflow-hidden shadow-[0_2px_10px_rgba(0,0,0,0.3)]"
+      style={{ fontFamily: "'DM Mono', monospace" }}
+      title="Dev burner wallet — signs locally with Anvil test keys"
+    >
+      {TEST_ACCOUNTS.map((a, i) => (
+        <div key={a.address} className="flex">
+          {i > 0 && <div className="w-px bg-[#2a2d40]" />}
+          <button
+            onClick={() => i !== selected && select(i)}
+            disabled={isPending}
+            title={a.address}
+            className={`px-3 py-2.5 text-[11px] font-bold uppercase tracking-wider cursor-pointer transition-colors ${
+              i === selected ? 'bg-[#2a2d40] text-amber-400' : 'text-gray-500 hover:text-white'
+            }`}
+          >
+            {BURNER_ROLES[i] ?? `account ${i}`}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
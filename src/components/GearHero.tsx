@@ -1,18 +1,21 @@
 /** GearHero — Industrial gear navigation hero section
  *
  * Large central gear that reveals satellite gears on click.
- * Satellites can open sub-sub-menus of 3 cogs each.
+ * Satellites can open sub-sub-menus of up to 5 cogs each.
  * Uses nav_cog.svg + nav_cog_innard.png assets.
  *
  * Behavior:
  * - No rotation by default; gears spin with ease-in-out on click
  * - Satellites hidden until center cog clicked (spin-in entrance)
- * - Clicking a satellite opens 3 sub-sub-cogs + moves satellite toward center
+ * - Clicking a satellite fans out its sub-sub-cogs + moves satellite toward center
  */
 
 import { useState, useRef, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 
+/** Sub-cogs shown per satellite; extras are dropped */
+const MAX_SUB_ITEMS = 5
+
 export interface GearSubItem {
   id?: string
   label: string
@@ -133,7 +136,7 @@ export default function GearHero({
   const [centerRotation, setCenterRotation] = useState(0)
   const [satRotations, setSatRotations] = useState<number[]>(() => items.map(() => 0))
   const [activeSubmenu, setActiveSubmenu] = useState<number | null>(null)
-  const [subRotations, setSubRotations] = useState<number[]>([0, 0, 0])
+  const [subRotations, setSubRotations] = useState<number[]>(() => Array(MAX_SUB_ITEMS).fill(0))
   const containerRef = useRef<HTMLDivElement>(null)
 
   // Close on outside click
@@ -177,7 +180,7 @@ export default function GearHero({
       setCenterRotation(r => r + 90)
       if (opening) {
         // Sub-cogs: clockwise (+)
-        setSubRotations([360, 360 + 40, 360 + 80])
+        setSubRotations(Array.from({ length: MAX_SUB_ITEMS }, (_, si) => 360 + si * 40))
       }
       setActiveSubmenu(opening ? index : null)
     } else {
@@ -309,10 +312,12 @@ export default function GearHero({
             const satCenterX = Math.cos(angle) * r
             const satCenterY = Math.sin(angle) * r
 
-            return item.subItems.slice(0, 3).map((sub, si) => {
+            const subs = item.subItems.slice(0, MAX_SUB_ITEMS)
+            // Fan centred on the satellite; tighter steps once the fan would pass ~0.8π
+            const subSpread = subs.length > 1 ? Math.min(Math.PI * 0.35, (Math.PI * 0.8) / (subs.length - 1)) : 0
+            return subs.map((sub, si) => {
               const subAngleBase = angle
-              const subSpread = Math.PI * 0.35
-              const subAngle = subAngleBase + (si - 1) * subSpread
+              const subAngle = subAngleBase + (si - (subs.length - 1) / 2) * subSpread
               const sx = satCenterX + Math.cos(subAngle) * subRadius
               const sy = satCenterY + Math.sin(subAngle) * subRadius
               const subSize = 85 * scale
@@ -0,0 +1,36 @@
+/** NetworkSwitcher — Pick the active Whirlpool deployment
+ *
+ * Lists every chain in the network registry. Switching while a wallet is
+ * connected asks the wallet to change chains; otherwise wagmi just swaps
+ * the read chain so the pages reload against the new deployment.
+ */
+import { useChainId, useSwitchChain } from 'wagmi'
+import { NETWORKS } from '../contracts/networks'
+
+export default function NetworkSwitcher() {
+  const chainId = useChainId()
+  const { switchChain, isPending } = useSwitchChain()
+
+  return (
+    <div
+      className="flex border-2 border-[#2a2d40] bg-[#1a1d2e] rounded-sm overflow-hidden shadow-[0_2px_10px_rgba(0,0,0,0.3)]"
+      style={{ fontFamily: "'DM Mono', monospace" }}
+    >
+      {NETWORKS.map((n, i) => (
+        <div key={n.id} className="flex">
+          {i > 0 && <div className="w-px bg-[#2a2d40]" />}
+          <button
+            onClick={() => n.id !== chainId && switchChain({ chainId: n.id })}
+            disabled={isPending}
+            title={`${n.rpcUrl} · chain ${n.id}`}
+            className={`px-3 py-2.5 text-[11px] font-bold uppercase tracking-wider cursor-pointer transition-colors ${
+              n.id === chainId ? 'bg-[#2a2d40] text-cyan-400' : 'text-gray-500 hover:text-white'
+            }`}
+          >
+            {n.name}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
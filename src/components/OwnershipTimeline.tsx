@@ -0,0 +1,128 @@
+/**
+ * OwnershipTimeline — Who owned a card, when, and for how long
+ *
+ * Vertical timeline of a card's OwnerChanged history, newest first.
+ * Each entry shows the new owner, block, time and tx hash, plus how long
+ * that owner held the card (the current owner's tenure keeps ticking).
+ *
+ * Steampunk theme: Cinzel title, DM Mono values, gold accents
+ */
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import type { OwnershipChange } from '../sdk/HolderIndexer'
+
+export interface OwnershipTimelineProps {
+  history: OwnershipChange[]
+  /** Highlight entries for this address */
+  you?: string
+  /** Link builder for tx hashes; plain text when omitted */
+  txUrl?: (hash: string) => string
+  title?: string
+}
+
+const ZERO = '0x0000000000000000000000000000000000000000'
+
+function shortAddr(addr: string): string {
+  if (!addr || addr.length < 10) return addr || '???'
+  return `${addr.slice(0, 6)}…${addr.slice(-4)}`
+}
+
+/** 90s → "1m 30s", 3 days → "3d 0h" — two most significant units */
+export function formatDuration(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds))
+  const units: [string, number][] = [['d', 86400], ['h', 3600], ['m', 60], ['s', 1]]
+  const parts: string[] = []
+  let rest = s
+  for (const [label, size] of units) {
+    const n = Math.floor(rest / size)
+    rest -= n * size
+    if (n > 0 || parts.length > 0) parts.push(`${n}${label}`)
+    if (parts.length === 2) break
+  }
+  return parts.length ? parts.join(' ') : '0s'
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false,
+  })
+}
+
+export default function OwnershipTimeline({ history, you, txUrl, title = 'Ownership History' }: OwnershipTimelineProps) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  // Tick the current owner's tenure
+  useEffect(() => {
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(t)
+  }, [])
+
+  const entries = history.map((change, i) => ({
+    ...change,
+    held: (history[i + 1]?.timestamp ?? now) - change.timestamp,
+    current: i === history.length - 1,
+  })).reverse()
+
+  const mono = "'DM Mono', monospace"
+
+  return (
+    <div style={{ padding: '8px 4px' }} onClick={e => e.stopPropagation()}>
+      <div style={{
+        fontFamily: "'Cinzel', serif", fontSize: 11, fontWeight: 900, letterSpacing: 1,
+        color: '#8a6d2b', marginBottom: 8, textTransform: 'uppercase',
+      }}>
+        {title}
+      </div>
+
+      {entries.length === 0 && (
+        <div style={{ fontFamily: mono, fontSize: 10, color: '#4a4d5a' }}>No ownership changes yet.</div>
+      )}
+
+      {entries.map((e, i) => {
+        const isYou = !!you && e.newOwner.toLowerCase() === you.toLowerCase()
+        const hash = `${e.transactionHash.slice(0, 10)}…`
+        return (
+          <motion.div
+            key={`${e.transactionHash}-${e.newOwner}`}
+            initial={{ opacity: 0, x: -8 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ duration: 0.25, delay: i * 0.03 }}
+            style={{ display: 'flex', gap: 8, position: 'relative', paddingBottom: i < entries.length - 1 ? 10 : 0 }}
+          >
+            {/* Rail + node */}
+            <div style={{ width: 10, display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0 }}>
+              <div style={{
+                width: 8, height: 8, borderRadius: '50%', marginTop: 3,
+                background: e.current ? '#c8a55a' : 'transparent',
+                border: '1.5px solid #8a6d2b',
+              }} />
+              {i < entries.length - 1 && <div style={{ flex: 1, width: 1, background: 'rgba(138,109,43,0.35)', marginTop: 2 }} />}
+            </div>
+
+            <div style={{ flex: 1, minWidth: 0, fontFamily: mono }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 6 }}>
+                <span style={{ fontSize: 10, fontWeight: 800, color: isYou ? '#8a6d2b' : '#1a1d2e' }}>
+                  ★ {shortAddr(e.newOwner)}{isYou ? ' (You)' : ''}
+                </span>
+                <span style={{ fontSize: 9, fontWeight: 700, color: e.current ? '#10b981' : '#4a4d5a' }}>
+                  {e.current ? `holding ${formatDuration(e.held)}` : `held ${formatDuration(e.held)}`}
+                </span>
+              </div>
+              <div style={{ fontSize: 9, color: '#4a4d5a', marginTop: 1 }}>
+                {formatTime(e.timestamp)} · block #{e.blockNumber.toString()}
+              </div>
+              <div style={{ fontSize: 9, color: '#4a4d5a', marginTop: 1 }}>
+                {e.previousOwner === ZERO ? 'first owner' : `from ${shortAddr(e.previousOwner)}`} ·{' '}
+                {txUrl ? (
+                  <a href={txUrl(e.transactionHash)} target="_blank" rel="noreferrer" style={{ color: '#8a6d2b' }}>{hash}</a>
+                ) : (
+                  <span title={e.transactionHash}>{hash}</span>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+/**
+ * TransactionDrawer — Recent Whirlpool transactions, slide-in from the right
+ *
+ * Lists what the TransactionTracker recorded: action and decoded args,
+ * nonce, hash, age and a pending / confirmed / failed badge. Pending rows
+ * pulse until their receipt lands (also after a reload). Rows can be
+ * dismissed one by one (e.g. a transaction the node dropped), settled ones
+ * cleared together.
+ *
+ * Dark terminal styling: DM Mono, cyan/green/red status colors
+ */
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { formatEther } from 'viem'
+import type { Hash } from 'viem'
+import type { TrackedTransaction, TransactionStatus } from '../sdk/TransactionTracker'
+
+export interface TransactionDrawerProps {
+  transactions: TrackedTransaction[]
+  open: boolean
+  onClose: () => void
+  /** Forget one record */
+  onDismiss?: (hash: Hash) => void
+  /** Forget every settled record */
+  onClear?: () => void
+  /** Link builder for tx hashes; plain text when omitted */
+  txUrl?: (hash: string) => string
+}
+
+const STATUS_STYLE: Record<TransactionStatus, { label: string; color: string }> = {
+  pending: { label: 'PENDING', color: '#22d3ee' },
+  confirmed: { label: 'CONFIRMED', color: '#00ffaa' },
+  failed: { label: 'FAILED', color: '#ff4444' },
+}
+
+function shortHex(hex: string): string {
+  return `${hex.slice(0, 8)}…${hex.slice(-6)}`
+}
+
+/** Long decimals (wei amounts) shortened so a call fits on one line */
+function shortArg(arg: string): string {
+  if (/^0x[0-9a-fA-F]{40}$/.test(arg)) return shortHex(arg)
+  if (/^\d{19,}$/.test(arg)) return `${arg.slice(0, 4)}…e${arg.length - 1}`
+  return arg
+}
+
+function age(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000))
+  if (s < 60) return `${s}s ago`
+  if (s < 3600) return `${Math.floor(s / 60)}m ago`
+  if (s < 86400) return `${Math.floor(s / 3600)}h ago`
+  return `${Math.floor(s / 86400)}d ago`
+}
+
+export default function TransactionDrawer({ transactions, open, onClose, onDismiss, onClear, txUrl }: TransactionDrawerProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep ages fresh while open
+  useEffect(() => {
+    if (!open) return
+    setNow(Date.now())
+    const t = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(t)
+  }, [open])
+
+  const settled = transactions.filter(tx => tx.status !== 'pending').length
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            key="backdrop"
+            className="fixed inset-0 z-40 bg-black/30"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            key="drawer"
+            className="fixed top-0 right-0 bottom-0 z-50 w-full max-w-md flex flex-col border-l-2 border-[#2a2d40] bg-[#0a0c14] shadow-[-4px_0_20px_rgba(0,0,0,0.4)]"
+            style={{ fontFamily: "'DM Mono', monospace" }}
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 32 }}
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#1a1d2e] bg-[#0d0f18]">
+              <h3 className="text-sm font-black uppercase tracking-wider" style={{ fontFamily: "'Cinzel', serif", color: '#c8a55a' }}>
+                Transactions
+              </h3>
+              <div className="flex items-center gap-2 text-[9px] font-bold">
+                {onClear && settled > 0 && (
+                  <button onClick={onClear} className="px-2 py-0.5 border border-[#2a2d40] rounded-sm text-gray-500 hover:text-white cursor-pointer">
+                    CLEAR {settled}
+                  </button>
+                )}
+                <button onClick={onClose} className="px-2 py-0.5 border border-[#2a2d40] rounded-sm text-gray-500 hover:text-white cursor-pointer">
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {transactions.length === 0 && (
+                <p className="text-center text-gray-600 text-[11px] py-10">No transactions yet</p>
+              )}
+              {transactions.map(tx => {
+                const status = STATUS_STYLE[tx.status]
+                return (
+                  <div key={tx.hash} className="px-4 py-2.5 border-b border-[#1a1d2e] text-[11px]">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-white font-bold truncate">
+                        {tx.action}
+                        <span className="text-gray-500 font-normal">({tx.args.map(shortArg).join(', ')})</span>
+                      </span>
+                      <span
+                        className={`shrink-0 px-1.5 py-px rounded-sm text-[9px] font-bold ${tx.status === 'pending' ? 'animate-pulse' : ''}`}
+                        style={{ color: status.color, border: `1px solid ${status.color}55` }}
+                      >
+                        {status.label}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-1 text-[10px] text-gray-500">
+                      <span>
+                        {txUrl ? (
+                          <a href={txUrl(tx.hash)} target="_blank" rel="noreferrer" className="text-cyan-400 hover:underline">{shortHex(tx.hash)}</a>
+                        ) : shortHex(tx.hash)}
+                        {tx.nonce !== undefined && <> · nonce {tx.nonce}</>}
+                        {tx.blockNumber && <> · block #{tx.blockNumber}</>}
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        {age(now - tx.submittedAt)}
+                        {onDismiss && (
+                          <button onClick={() => onDismiss(tx.hash)} className="text-gray-600 hover:text-white cursor-pointer" title="Dismiss">✕</button>
+                        )}
+                      </span>
+                    </div>
+                    {tx.value && tx.value !== '0' && <div className="mt-0.5 text-[10px] text-gray-500">value {formatEther(BigInt(tx.value))} ETH</div>}
+                    {tx.replacedBy && <div className="mt-0.5 text-[10px] text-amber-400">replaced by {shortHex(tx.replacedBy)}</div>}
+                    {tx.error && <div className="mt-0.5 text-[10px] text-red-400">{tx.error}</div>}
+                  </div>
+                )
+              })}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import WhirlpoolTerminal from './WhirlpoolTerminal'
+import type { LogEntry } from './WhirlpoolTerminal'
+
+const LOGS: LogEntry[] = [
+  { id: 1, time: '12:00:00', type: 'system', message: 'Connected to Anvil Local', category: 'system' },
+  { id: 2, time: '12:00:01', type: 'success', message: 'Transfer 10 ALPHA', category: 'transfer' },
+  { id: 3, time: '12:00:02', type: 'ownership', message: 'Alpha Eagle owner changed', category: 'ownership' },
+  { id: 4, time: '12:00:03', type: 'error', message: '✗ Stake would revert: amount must be greater than zero', category: 'error' },
+  { id: 5, time: '12:00:04', type: 'success', message: 'Transfer 5 BETA', category: 'transfer' },
+]
+
+const shown = () => LOGS.map(l => l.message).filter(m => screen.queryByText(m))
+
+describe('WhirlpoolTerminal', () => {
+  it('shows every entry by default', () => {
+    render(<WhirlpoolTerminal logs={LOGS} />)
+    expect(shown()).toHaveLength(LOGS.length)
+    expect(screen.getByText('5 / 5 entries')).toBeTruthy()
+  })
+
+  it.each([
+    ['TRANSFERS', ['Transfer 10 ALPHA', 'Transfer 5 BETA']],
+    ['OWNERSHIP', ['Alpha Eagle owner changed']],
+    ['ERRORS', ['✗ Stake would revert: amount must be greater than zero']],
+  ])('filters to %s by category', (label, expected) => {
+    render(<WhirlpoolTerminal logs={LOGS} />)
+    fireEvent.click(screen.getByRole('button', { name: label }))
+    expect(shown()).toEqual(expected)
+    expect(screen.getByText(`${expected.length} / ${LOGS.length} entries`)).toBeTruthy()
+  })
+
+  it('goes back to every entry on ALL', () => {
+    render(<WhirlpoolTerminal logs={LOGS} />)
+    fireEvent.click(screen.getByRole('button', { name: 'ERRORS' }))
+    fireEvent.click(screen.getByRole('button', { name: 'ALL' }))
+    expect(shown()).toHaveLength(LOGS.length)
+  })
+
+  it('says so when the filter matches nothing', () => {
+    render(<WhirlpoolTerminal logs={LOGS.filter(l => l.category !== 'error')} />)
+    fireEvent.click(screen.getByRole('button', { name: 'ERRORS' }))
+    expect(screen.getByText('No logs')).toBeTruthy()
+    expect(screen.getByText('0 / 4 entries')).toBeTruthy()
+  })
+
+  it('calls onClear from CLEAR', () => {
+    const onClear = vi.fn()
+    render(<WhirlpoolTerminal logs={LOGS} onClear={onClear} />)
+    fireEvent.click(screen.getByRole('button', { name: 'CLEAR' }))
+    expect(onClear).toHaveBeenCalledOnce()
+  })
+})
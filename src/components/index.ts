@@ -11,3 +11,12 @@ export type { CogDropdownProps, CogDropdownItem } from './CogDropdown'
 
 export { default as CogDonut } from './CogDonut'
 export type { CogDonutProps, CogDonutSegment } from './CogDonut'
+
+export { default as OwnershipTimeline } from './OwnershipTimeline'
+export type { OwnershipTimelineProps } from './OwnershipTimeline'
+
+export { default as TransactionDrawer } from './TransactionDrawer'
+export type { TransactionDrawerProps } from './TransactionDrawer'
+
+export { default as AlertToasts } from './AlertToasts'
+export type { AlertToastsProps } from './AlertToasts'
@@ -0,0 +1,66 @@
+import { getAddress } from 'viem';
+import type { Address } from 'viem';
+import type { ContractName, ContractAddresses, Deployment } from './networks';
+
+// ═══════════════════════════════════════════════════════════════
+// Foundry broadcast parser
+// Reads broadcast/WhirlpoolDeploy.s.sol/<chainId>/run-latest.json and
+// maps each deployed Solidity contract onto its registry key.
+// ═══════════════════════════════════════════════════════════════
+
+export const DEPLOY_SCRIPT = 'WhirlpoolDeploy.s.sol';
+
+// Solidity contract names accepted for each registry key (first match wins)
+export const CONTRACT_NAMES: Record<ContractName, string[]> = {
+  WHIRLPOOL: ['WhirlpoolStaking', 'Whirlpool'],
+  WAVES:     ['WAVES', 'WavesToken', 'Waves'],
+  BIDNFT:    ['BidNFT'],
+  WETH:      ['WETH', 'WETH9', 'MockWETH'],
+  SURFSWAP:  ['SurfSwap'],
+  ROUTER:    ['WhirlpoolRouter', 'Router'],
+};
+
+// Optional helper contracts — picked up when present, never required
+export const MULTICALL3_NAME = 'Multicall3';
+
+/** The subset of forge's run-latest.json this parser reads */
+export interface ForgeBroadcast {
+  chain: number;
+  transactions: {
+    transactionType: string;
+    contractName: string | null;
+    contractAddress: string | null;
+  }[];
+  receipts: { blockNumber: string }[];
+}
+
+/** Parse one broadcast run into a deployment; throws if any contract is missing */
+export function parseBroadcast(run: ForgeBroadcast, source: string): Deployment {
+  const created = new Map<string, Address>();
+  for (const tx of run.transactions ?? []) {
+    if (!tx.transactionType.startsWith('CREATE') || !tx.contractName || !tx.contractAddress) continue;
+    created.set(tx.contractName, getAddress(tx.contractAddress));
+  }
+
+  const contracts: Partial<ContractAddresses> = {};
+  const missing: string[] = [];
+  for (const [key, names] of Object.entries(CONTRACT_NAMES) as [ContractName, string[]][]) {
+    const name = names.find(n => created.has(n));
+    if (name) contracts[key] = created.get(name);
+    else missing.push(`${key} (${names.join(' | ')})`);
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `${source}: missing contract(s) ${missing.join(', ')} — ` +
+      `broadcast created [${[...created.keys()].join(', ') || 'nothing'}]`
+    );
+  }
+
+  const blocks = (run.receipts ?? []).map(r => Number(BigInt(r.blockNumber)));
+  const multicall3 = created.get(MULTICALL3_NAME);
+  return {
+    contracts: contracts as ContractAddresses,
+    deployBlock: blocks.length > 0 ? Math.min(...blocks) : 0,
+    ...(multicall3 ? { multicall3 } : {}),
+  };
+}
@@ -0,0 +1,158 @@
+// ═══════════════════════════════════════════════════════════════
+// Burner Wallet — dev-only connector that signs with Anvil keys
+// Lets one browser session play owner, challenger and staker without
+// an extension: transactions and signatures are signed in-page with
+// the chosen TEST_ACCOUNTS key, every other request goes to the RPC.
+// Registered only when import.meta.env.DEV (see wagmi-config.ts), so
+// the keys never reach a production bundle.
+// ═══════════════════════════════════════════════════════════════
+import { ChainNotConfiguredError, createConnector } from 'wagmi';
+import {
+  createWalletClient,
+  fromHex,
+  http,
+  numberToHex,
+  SwitchChainError,
+} from 'viem';
+import type { Address, EIP1193RequestFn, Hex, TypedDataDefinition } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { TEST_ACCOUNTS } from './erc1142';
+
+/** What each TEST_ACCOUNTS entry plays in the switcher, by index */
+export const BURNER_ROLES = ['owner', 'challenger', 'staker'] as const;
+
+export type BurnerProperties = {
+  /** Index into TEST_ACCOUNTS of the signing account */
+  accountIndex(): number;
+  /** Sign as another test account; announces the new address to wagmi */
+  switchAccount(index: number): Promise<void>;
+};
+
+type BurnerStorage = {
+  'burner.account': number;
+  'burner.connected': true;
+};
+
+/** Checksummed address of a TEST_ACCOUNTS entry */
+const addressOf = (i: number) => TEST_ACCOUNTS[i].address as Address;
+
+type RpcTransaction = { to?: Address; data?: Hex; value?: Hex; gas?: Hex; nonce?: Hex };
+
+export function burner() {
+  let index = 0;
+  let chainId: number | undefined;
+  let connected = false;
+
+  return createConnector<{ request: EIP1193RequestFn }, BurnerProperties, BurnerStorage>(config => ({
+    id: 'burner',
+    name: 'Burner (dev)',
+    type: 'burner',
+
+    async setup() {
+      index = (await config.storage?.getItem('burner.account')) ?? 0;
+    },
+
+    async connect({ chainId: requested, withCapabilities } = {}) {
+      connected = true;
+      chainId = requested ?? chainId ?? config.chains[0].id;
+      await config.storage?.setItem('burner.connected', true);
+      const address = addressOf(index);
+      return {
+        accounts: (withCapabilities ? [{ address, capabilities: {} }] : [address]) as never,
+        chainId,
+      };
+    },
+
+    async disconnect() {
+      connected = false;
+      await config.storage?.removeItem('burner.connected');
+    },
+
+    async getAccounts() {
+      return connected ? [addressOf(index)] : [];
+    },
+
+    async getChainId() {
+      return chainId ?? config.chains[0].id;
+    },
+
+    async isAuthorized() {
+      return !!(await config.storage?.getItem('burner.connected'));
+    },
+
+    async switchChain({ chainId: next }) {
+      const chain = config.chains.find(c => c.id === next);
+      if (!chain) throw new SwitchChainError(new ChainNotConfiguredError());
+      chainId = next;
+      this.onChainChanged(numberToHex(next));
+      return chain;
+    },
+
+    accountIndex() {
+      return index;
+    },
+
+    async switchAccount(next) {
+      if (!TEST_ACCOUNTS[next]) throw new Error(`No test account #${next}`);
+      index = next;
+      await config.storage?.setItem('burner.account', next);
+      if (connected) this.onAccountsChanged([addressOf(next)]);
+    },
+
+    onAccountsChanged(accounts) {
+      if (accounts.length === 0) this.onDisconnect();
+      else config.emitter.emit('change', { accounts: accounts as Address[] });
+    },
+
+    onChainChanged(chain) {
+      config.emitter.emit('change', { chainId: Number(chain) });
+    },
+
+    onDisconnect() {
+      connected = false;
+      config.emitter.emit('disconnect');
+    },
+
+    async getProvider({ chainId: target } = {}) {
+      const chain = config.chains.find(c => c.id === (target ?? chainId)) ?? config.chains[0];
+      const transport = http(chain.rpcUrls.default.http[0])({ chain });
+      const wallet = () => createWalletClient({
+        account: privateKeyToAccount(TEST_ACCOUNTS[index].pk),
+        chain,
+        transport: http(chain.rpcUrls.default.http[0]),
+      });
+
+      const request = (async ({ method, params }: { method: string; params?: unknown }) => {
+        const args = (params ?? []) as unknown[];
+        switch (method) {
+          case 'eth_chainId':
+            return numberToHex(chain.id);
+          case 'eth_accounts':
+          case 'eth_requestAccounts':
+            return connected ? [addressOf(index)] : [];
+          case 'wallet_switchEthereumChain':
+            await this.switchChain!({ chainId: fromHex((args[0] as { chainId: Hex }).chainId, 'number') });
+            return null;
+          case 'eth_sendTransaction': {
+            const tx = args[0] as RpcTransaction;
+            return wallet().sendTransaction({
+              to: tx.to,
+              data: tx.data,
+              value: tx.value ? fromHex(tx.value, 'bigint') : undefined,
+              gas: tx.gas ? fromHex(tx.gas, 'bigint') : undefined,
+              nonce: tx.nonce ? fromHex(tx.nonce, 'number') : undefined,
+            });
+          }
+          case 'personal_sign':
+            return wallet().signMessage({ message: { raw: args[0] as Hex } });
+          case 'eth_signTypedData_v4':
+            return wallet().signTypedData(JSON.parse(args[1] as string) as TypedDataDefinition);
+          default:
+            return transport.request({ method, params } as never);
+        }
+      }) as EIP1193RequestFn;
+
+      return { request };
+    },
+  }));
+}
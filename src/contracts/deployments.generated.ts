@@ -0,0 +1,4 @@
+// Generated by `npm run deployments` from Foundry broadcast artifacts — do not edit.
+import type { Deployment } from './networks';
+
+export const DEPLOYMENTS: Record<number, Deployment> = {};
@@ -1,14 +1,7 @@
 // ═══════════════════════════════════════════════════════════════
-// Contract Addresses — UPDATE AFTER DEPLOYMENT
-// Run: forge script script/WhirlpoolDeploy.s.sol --rpc-url http://192.168.0.82:8545 --broadcast
-// Then paste the logged addresses here.
+// Contract addresses live in the network registry (./networks.ts),
+// keyed by chain id — this file only holds ABIs and test accounts.
 // ═══════════════════════════════════════════════════════════════
-export const WHIRLPOOL_ADDRESS = '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9' as const;
-export const WAVES_ADDRESS     = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512' as const;
-export const BIDNFT_ADDRESS    = '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9' as const;
-export const WETH_ADDRESS      = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as const;
-export const SURFSWAP_ADDRESS  = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0' as const;
-export const ROUTER_ADDRESS    = '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707' as const;
 
 // ═══════════════════════════════════════════════════════════════
 // ABIs
@@ -67,6 +60,9 @@ export const WAVES_ABI = [
   { inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], name: 'mint', outputs: [], stateMutability: 'nonpayable', type: 'function' },
   { inputs: [], name: 'whirlpool', outputs: [{ name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
   { inputs: [], name: 'MAX_SUPPLY', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  // ─── Errors (OpenZeppelin Contracts v5, IERC6093) ───
+  { inputs: [{ name: 'sender', type: 'address' }, { name: 'balance', type: 'uint256' }, { name: 'needed', type: 'uint256' }], name: 'ERC20InsufficientBalance', type: 'error' },
+  { inputs: [{ name: 'spender', type: 'address' }, { name: 'allowance', type: 'uint256' }, { name: 'needed', type: 'uint256' }], name: 'ERC20InsufficientAllowance', type: 'error' },
 ] as const;
 
 export const CARD_TOKEN_ABI = [
@@ -79,6 +75,9 @@ export const CARD_TOKEN_ABI = [
   { inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }], name: 'approve', outputs: [{ name: '', type: 'bool' }], stateMutability: 'nonpayable', type: 'function' },
   { inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }], name: 'allowance', outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
   { inputs: [{ name: 'from', type: 'address' }, { name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], name: 'transferFrom', outputs: [{ name: '', type: 'bool' }], stateMutability: 'nonpayable', type: 'function' },
+  // ─── Errors (OpenZeppelin Contracts v5, IERC6093) ───
+  { inputs: [{ name: 'sender', type: 'address' }, { name: 'balance', type: 'uint256' }, { name: 'needed', type: 'uint256' }], name: 'ERC20InsufficientBalance', type: 'error' },
+  { inputs: [{ name: 'spender', type: 'address' }, { name: 'allowance', type: 'uint256' }, { name: 'needed', type: 'uint256' }], name: 'ERC20InsufficientAllowance', type: 'error' },
 ] as const;
 
 export const BIDNFT_ABI = [
@@ -0,0 +1,89 @@
+import { defineChain } from 'viem';
+import type { Address, Chain } from 'viem';
+import { DEPLOYMENTS } from './deployments.generated';
+
+// ═══════════════════════════════════════════════════════════════
+// Network Registry — chain id → RPC, explorer and Whirlpool deployment
+// Add an entry per chain the UI should be able to switch to.
+// Addresses come from Foundry broadcast artifacts when available
+// (npm run deployments → deployments.generated.ts), else the defaults below.
+// ═══════════════════════════════════════════════════════════════
+
+export type ContractName = 'WHIRLPOOL' | 'WAVES' | 'BIDNFT' | 'WETH' | 'SURFSWAP' | 'ROUTER';
+
+export type ContractAddresses = Record<ContractName, Address>;
+
+/** Addresses + first block of one WhirlpoolDeploy.s.sol broadcast */
+export interface Deployment {
+  contracts: ContractAddresses;
+  deployBlock: number;
+  /** Multicall3 aggregator, when the deploy script created one */
+  multicall3?: Address;
+}
+
+export interface WhirlpoolNetwork {
+  id: number;
+  name: string;
+  rpcUrl: string;
+  explorer: { name: string; url: string };
+  contracts: ContractAddresses;
+  deployBlock: number;
+  /** Multicall3 aggregator used to batch reads; without one, reads fall back to JSON-RPC batching */
+  multicall3?: Address;
+}
+
+// Deterministic CREATE addresses for WhirlpoolDeploy.s.sol broadcast from
+// Anvil account #0 on a fresh chain — identical on every fresh Anvil node.
+const ANVIL_DEFAULT_CONTRACTS: ContractAddresses = {
+  WHIRLPOOL: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+  WAVES:     '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  BIDNFT:    '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
+  WETH:      '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  SURFSWAP:  '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+  ROUTER:    '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707',
+};
+
+const REGISTRY: WhirlpoolNetwork[] = [
+  {
+    id: 31337,
+    name: 'Anvil Local',
+    rpcUrl: 'http://192.168.0.82:8545',
+    explorer: { name: 'Local', url: 'http://localhost:8545' },
+    contracts: ANVIL_DEFAULT_CONTRACTS,
+    deployBlock: 0,
+  },
+  {
+    // Second Anvil node started with `anvil --chain-id 31338 --port 8546`
+    id: 31338,
+    name: 'Anvil Staging',
+    rpcUrl: 'http://192.168.0.82:8546',
+    explorer: { name: 'Staging', url: 'http://192.168.0.82:8546' },
+    contracts: ANVIL_DEFAULT_CONTRACTS,
+    deployBlock: 0,
+  },
+];
+
+export const NETWORKS: WhirlpoolNetwork[] = REGISTRY.map(n => ({ ...n, ...DEPLOYMENTS[n.id] }));
+
+export const DEFAULT_CHAIN_ID = NETWORKS[0].id;
+
+/** Look up a registered network, falling back to the default chain for unknown ids */
+export function getNetwork(chainId?: number): WhirlpoolNetwork {
+  return NETWORKS.find(n => n.id === chainId) ?? NETWORKS[0];
+}
+
+/** Convert a registry entry into a viem/wagmi chain definition */
+export function toChain(network: WhirlpoolNetwork): Chain {
+  return defineChain({
+    id: network.id,
+    name: network.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: {
+      default: { http: [network.rpcUrl] },
+    },
+    blockExplorers: {
+      default: network.explorer,
+    },
+    contracts: network.multicall3 ? { multicall3: { address: network.multicall3 } } : undefined,
+  });
+}
@@ -1,25 +1,18 @@
 import { http, createConfig } from 'wagmi';
 import { injected } from 'wagmi/connectors';
+import type { Chain } from 'viem';
+import { NETWORKS, toChain } from './networks';
+import { burner } from './burner';
 
-// Anvil local testnet as custom chain
-export const anvilChain = {
-  id: 31337,
-  name: 'Anvil Local',
-  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['http://192.168.0.82:8545'] },
-  },
-  blockExplorers: {
-    default: { name: 'Local', url: 'http://localhost:8545' },
-  },
-} as const;
+// One wagmi chain per registered network (Anvil local first = default)
+export const chains = NETWORKS.map(toChain) as [Chain, ...Chain[]];
 
 export const config = createConfig({
-  chains: [anvilChain],
+  chains,
   connectors: [
     injected(), // Rabby, MetaMask, etc.
+    // Anvil test accounts — constant-folded away in production builds
+    ...(import.meta.env.DEV ? [burner()] : []),
   ],
-  transports: {
-    [anvilChain.id]: http('http://192.168.0.82:8545'),
-  },
+  transports: Object.fromEntries(NETWORKS.map(n => [n.id, http(n.rpcUrl)])),
 });
@@ -0,0 +1,376 @@
+/**
+ * WhirlpoolProvider — One Whirlpool session for the whole app
+ *
+ * Owns the OwnerChanged subscription, terminal log, ownership alerts, write
+ * actions and the transaction tracker, so pages mounted under it share one session instead of
+ * each starting their own.
+ * Reads are TanStack queries (whirlpoolQueries.ts); each write invalidates
+ * only the keys it touched. Mounted once in main.tsx.
+ */
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { QueryKey } from '@tanstack/react-query'
+import { useAccount, useChainId, useConnect, useDisconnect, useWalletClient } from 'wagmi'
+import { injected } from 'wagmi/connectors'
+import { BaseError, createPublicClient, formatEther, http, parseEther } from 'viem'
+import type { PublicClient, Transport } from 'viem'
+import type { LogEntry, LogType } from '../components/WhirlpoolTerminal'
+import { getNetwork, toChain } from '../contracts/networks'
+import type { WhirlpoolNetwork } from '../contracts/networks'
+import { WhirlpoolClient } from '../sdk/WhirlpoolClient'
+import { HolderIndexer } from '../sdk/HolderIndexer'
+import { TransactionTracker } from '../sdk/TransactionTracker'
+import { minimumReceived, routeTokens } from '../sdk/router'
+import { WhirlpoolRevertError } from '../sdk/errors'
+import { getSettings, updateSettings } from './useSettings'
+import {
+  MAX_ALERTS, cardMuteKey, ownedCardRisks, ownerChangeKind, playAlertSound, riskCrossings, showNotification,
+} from './ownershipAlerts'
+import type { OwnershipAlertKind } from './ownershipAlerts'
+import type { WhirlpoolWalletClient } from '../sdk/WhirlpoolClient'
+import type { Address } from 'viem'
+import type { ApprovalSpender, CardMarket, DefensePlan, StealPlan, SwapPlan, SwapSource } from '../sdk/types'
+import { cardsQuery, swapLegKeys, whirlpoolKeys } from './whirlpoolQueries'
+import { WhirlpoolContext, actionKeys, createWhirlpoolStore } from './whirlpoolStore'
+import type { WhirlpoolActions, WhirlpoolContextValue } from './whirlpoolStore'
+
+// One read client per chain. JSON-RPC batching coalesces parallel reads on
+// chains without a Multicall3 deployment.
+const publicClients = new Map<number, PublicClient>()
+
+function getPublicClient(network: WhirlpoolNetwork, transport?: Transport): PublicClient {
+  if (transport) return createPublicClient({ chain: toChain(network), transport })
+  let client = publicClients.get(network.id)
+  if (!client) {
+    client = createPublicClient({ chain: toChain(network), transport: http(network.rpcUrl, { batch: true }) })
+    publicClients.set(network.id, client)
+  }
+  return client
+}
+
+let logCounter = 0
+let alertCounter = 0
+
+export interface WhirlpoolProviderProps {
+  children: ReactNode
+  /** Read transport per chain id instead of the registry RPC URL, e.g. a MockChain in tests */
+  transports?: Record<number, Transport>
+}
+
+export function WhirlpoolProvider({ children, transports }: WhirlpoolProviderProps) {
+  const { address, isConnected } = useAccount()
+  const { connect: connectFn } = useConnect()
+  const { disconnect: disconnectFn } = useDisconnect()
+  const { data: walletClient } = useWalletClient()
+  const chainId = useChainId()
+  const network = useMemo(() => getNetwork(chainId), [chainId])
+  const publicClient = useMemo(() => getPublicClient(network, transports?.[network.id]), [network, transports])
+  const queryClient = useQueryClient()
+  const [store] = useState(() => createWhirlpoolStore())
+
+  const addLog = useCallback((message: string, type: LogType = 'default', extra: Partial<LogEntry> = {}) => {
+    const entry: LogEntry = {
+      id: ++logCounter,
+      time: new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+      type, message, category: extra.category || 'other', ...extra,
+    }
+    store.setState(prev => ({ logs: [...prev.logs, entry].slice(-500) }))
+  }, [store])
+
+  /** Queue an ownership toast unless the card is muted, and repeat it as the settings ask */
+  const raiseAlert = useCallback((kind: OwnershipAlertKind, cardId: number, title: string, body: string) => {
+    const settings = getSettings()
+    if (settings.mutedCards.includes(cardMuteKey(network.id, cardId))) return
+    const alert = { id: ++alertCounter, kind, cardId, title, body, time: Date.now() }
+    store.setState(prev => ({ alerts: [...prev.alerts, alert].slice(-MAX_ALERTS) }))
+    if (settings.alertNotifications) showNotification(alert)
+    if (settings.alertSound) playAlertSound(kind)
+  }, [store, network])
+
+  // Sent transactions persist per chain, so a reload resumes waiting on them
+  const transactions = useMemo(() => new TransactionTracker({
+    publicClient, chainId: network.id, storage: globalThis.localStorage,
+  }), [publicClient, network])
+
+  const client = useMemo(() => new WhirlpoolClient({
+    network,
+    publicClient,
+    walletClient: walletClient as WhirlpoolWalletClient | undefined,
+    onLog: addLog,
+    approvalMode: () => getSettings().approvalMode,
+    tracker: transactions,
+  }), [network, publicClient, walletClient, addLog, transactions])
+
+  // Holder index only reads, so it survives wallet changes and restarts per network
+  const holderIndex = useMemo(
+    () => new HolderIndexer(new WhirlpoolClient({ network, publicClient })),
+    [network, publicClient],
+  )
+
+  // Observed here so the list keeps polling and reports errors whichever page is open
+  const cardList = useQuery(cardsQuery(client, queryClient, address))
+  useEffect(() => {
+    const e = cardList.error
+    if (e) addLog(`⚠ Error loading cards: ${e instanceof BaseError ? e.shortMessage : e.message}`, 'error')
+  }, [cardList.error, addLog])
+
+  const loadCards = useCallback(async () => {
+    const chainId = network.id
+    await Promise.all([
+      queryClient.refetchQueries({ queryKey: whirlpoolKeys.cardLists(chainId) }),
+      queryClient.refetchQueries({ queryKey: whirlpoolKeys.balances(chainId, address) }),
+      queryClient.refetchQueries({ queryKey: whirlpoolKeys.pendingGlobal(chainId, address) }),
+    ])
+  }, [queryClient, network, address])
+
+  const actions = useMemo<WhirlpoolActions>(() => {
+    const chainId = network.id
+    const keys = {
+      cardList: whirlpoolKeys.cardLists(chainId),
+      card: (cardId: number) => whirlpoolKeys.card(chainId, cardId),
+      position: (cardId: number) => whirlpoolKeys.position(chainId, cardId, address),
+      balances: whirlpoolKeys.balances(chainId, address),
+      pendingGlobal: whirlpoolKeys.pendingGlobal(chainId, address),
+      wethPool: whirlpoolKeys.wethPool(chainId),
+      allowances: whirlpoolKeys.allowances(chainId, address),
+      gas: whirlpoolKeys.gasEstimates(chainId),
+    }
+
+    /** Shared wrapper: connected guard, busy key, invalidate `affected` on success, terminal error line */
+    const run = async (label: string, affected: QueryKey[], action: () => Promise<void>, busy = label) => {
+      if (!isConnected) return
+      store.setState(prev => ({ running: [...prev.running, busy] }))
+      try {
+        await action()
+        await Promise.all(affected.map(queryKey => queryClient.invalidateQueries({ queryKey })))
+      } catch (e: any) {
+        // Simulation caught it — nothing was signed or sent
+        if (e instanceof WhirlpoolRevertError) addLog(`✗ ${label} would revert: ${e.reason}`, 'error', { category: 'error' })
+        else addLog(`✗ ${label}: ${e.shortMessage || e.message}`, 'error', { category: 'error' })
+      }
+      // Drop one entry: the same action may be in flight more than once
+      store.setState(prev => {
+        const i = prev.running.indexOf(busy)
+        return { running: [...prev.running.slice(0, i), ...prev.running.slice(i + 1)] }
+      })
+    }
+
+    return {
+      loadCards,
+      addLog,
+      setSelectedCard: (id: number) => store.setState({ selectedCard: id }),
+      clearLogs: () => store.setState({ logs: [] }),
+      dismissAlert: (id: number) => store.setState(prev => ({ alerts: prev.alerts.filter(a => a.id !== id) })),
+
+      muteCard: (cardId: number, muted: boolean) => {
+        const key = cardMuteKey(chainId, cardId)
+        const others = getSettings().mutedCards.filter(k => k !== key)
+        updateSettings({ mutedCards: muted ? [...others, key] : others })
+        if (muted) store.setState(prev => ({ alerts: prev.alerts.filter(a => a.cardId !== cardId) }))
+      },
+
+      createCard: (name: string, symbol: string, uri?: string) => run('Create', [keys.cardList, keys.balances], async () => {
+        addLog(`Creating card "${name}" (${symbol})...`, 'info')
+        const receipt = await client.createCard(name, symbol, uri)
+        addLog(`✓ Card created! Block #${receipt.blockNumber}`, 'success', { hash: receipt.transactionHash })
+      }),
+
+      swap: (tokenIn: string, tokenOut: string, amount: string, source: SwapSource = 'wallet', plan?: SwapPlan) => run('Swap', [
+        ...swapLegKeys(chainId, tokenIn, address), ...swapLegKeys(chainId, tokenOut, address), whirlpoolKeys.quotes(chainId),
+        keys.balances, keys.allowances, keys.gas,
+      ], async () => {
+        const { slippageBps } = getSettings()
+        const route = plan ?? await client.planSwap(tokenIn, tokenOut, parseEther(amount), source)
+        const [first] = route.hops
+        if (route.hops.length === 1 && first.kind === 'swapStake') {
+          addLog(`⚡ SwapStake ${amount} shares card #${first.fromCard} → #${first.toCard}...`, 'info')
+          const [{ receipt }] = await client.executeSwapPlan(route, slippageBps)
+          addLog(`✓ SwapStake confirmed · block #${receipt.blockNumber}`, 'success', { hash: receipt.transactionHash })
+        } else {
+          const minOut = minimumReceived(route, slippageBps)
+          addLog(`Swapping ${amount} ${routeTokens(route).join(' → ')} · min ${formatEther(minOut)} out (${slippageBps / 100}% slippage)...`, 'info')
+          const results = await client.executeSwapPlan(route, slippageBps)
+          const { amountOut, receipt } = results[results.length - 1]
+          addLog(`✓ Swap confirmed · ${formatEther(amountOut)} ${tokenOut} received · block #${receipt.blockNumber}`, 'success')
+        }
+      }, actionKeys.swap(tokenIn, tokenOut)),
+
+      stake: (cardId: number, amount: string) => run('Stake', [keys.card(cardId), keys.position(cardId), keys.allowances, keys.gas], async () => {
+        addLog(`Staking ${amount} ${queryClient.getQueryData<CardMarket>(keys.card(cardId))?.symbol || '?'}...`, 'info')
+        const receipt = await client.stake(cardId, parseEther(amount))
+        addLog(`✓ Staked · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      unstake: (cardId: number, amount: string) => run('Unstake', [keys.card(cardId), keys.position(cardId), keys.gas], async () => {
+        addLog(`Unstaking ${amount} from card #${cardId}...`, 'info')
+        const receipt = await client.unstake(cardId, parseEther(amount))
+        addLog(`✓ Unstaked · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      swapStake: (fromCard: number, toCard: number, shares: string) => run('SwapStake', [keys.card(fromCard), keys.position(fromCard), keys.card(toCard), keys.position(toCard), keys.gas], async () => {
+        addLog(`SwapStake ${shares} shares #${fromCard} → #${toCard}...`, 'info')
+        const receipt = await client.swapStake(fromCard, toCard, parseEther(shares))
+        addLog(`✓ SwapStake confirmed · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      steal: (plan: StealPlan) => run('Steal', [
+        keys.card(plan.cardId), keys.position(plan.cardId),
+        ...plan.steps.flatMap(step => step.kind === 'swapStake' ? [keys.card(step.fromCard), keys.position(step.fromCard)] : []),
+        keys.balances, keys.allowances, whirlpoolKeys.quotes(chainId), keys.gas,
+      ], async () => {
+        addLog(`⚡ Taking card #${plan.cardId}: outstaking ${formatEther(plan.ownerStake)} in ${plan.steps.length} step${plan.steps.length === 1 ? '' : 's'}...`, 'info')
+        const { receipts, owner } = await client.executeStealPlan(plan)
+        const last = receipts[receipts.length - 1]
+        if (address && owner.toLowerCase() === address.toLowerCase()) {
+          addLog(`✓ Card #${plan.cardId} is yours · block #${last?.blockNumber}`, 'success', { hash: last?.transactionHash })
+        } else {
+          addLog(`⚠ Steps confirmed but card #${plan.cardId} is still owned by ${owner.slice(0, 10)}... — its stake moved`, 'warn')
+        }
+      }, actionKeys.steal(plan.cardId)),
+
+      defend: (plan: DefensePlan) => run('Defend', [
+        keys.card(plan.cardId), keys.position(plan.cardId), keys.balances, keys.allowances, whirlpoolKeys.quotes(chainId), keys.gas,
+      ], async () => {
+        addLog(`🛡 Defending card #${plan.cardId}: margin ${formatEther(plan.margin)} → ${formatEther(plan.targetMargin)} in ${plan.steps.length} step${plan.steps.length === 1 ? '' : 's'}...`, 'info')
+        const { receipts, margin } = await client.executeDefensePlan(plan)
+        const last = receipts[receipts.length - 1]
+        if (margin >= plan.targetMargin) {
+          addLog(`✓ Card #${plan.cardId} leads by ${formatEther(margin)} · block #${last?.blockNumber}`, 'success', { hash: last?.transactionHash })
+        } else {
+          addLog(`⚠ Steps confirmed but card #${plan.cardId} only leads by ${formatEther(margin)} — the challenger's stake moved`, 'warn')
+        }
+      }, actionKeys.defend(plan.cardId)),
+
+      stakeWETH: (amount: string) => run('WETH stake', [keys.balances, keys.pendingGlobal, keys.wethPool, keys.allowances], async () => {
+        addLog(`Staking ${amount} WETH...`, 'info')
+        const receipt = await client.stakeWETH(parseEther(amount))
+        addLog(`✓ WETH staked · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      unstakeWETH: (amount: string) => run('WETH unstake', [keys.balances, keys.pendingGlobal, keys.wethPool], async () => {
+        addLog(`Unstaking ${amount} WETH...`, 'info')
+        const receipt = await client.unstakeWETH(parseEther(amount))
+        addLog(`✓ WETH unstaked · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      claimRewards: (cardId: number) => run('Claim', [keys.balances, keys.position(cardId), keys.gas], async () => {
+        addLog(`Claiming rewards for card #${cardId}...`, 'info')
+        await client.claimRewards(cardId)
+        addLog(`✓ Rewards claimed`, 'success')
+      }),
+
+      claimWETHRewards: () => run('Claim', [keys.balances, keys.pendingGlobal], async () => {
+        addLog(`Claiming WETH rewards...`, 'info')
+        await client.claimWETHRewards()
+        addLog(`✓ WETH rewards claimed`, 'success')
+      }),
+
+      wrapETH: (amount: string) => run('Wrap', [keys.balances], async () => {
+        addLog(`Wrapping ${amount} ETH → WETH...`, 'info')
+        const receipt = await client.wrapETH(parseEther(amount))
+        addLog(`✓ Wrapped · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      unwrapETH: (amount: string) => run('Unwrap', [keys.balances], async () => {
+        addLog(`Unwrapping ${amount} WETH → ETH...`, 'info')
+        const receipt = await client.unwrapETH(parseEther(amount))
+        addLog(`✓ Unwrapped · block #${receipt.blockNumber}`, 'success')
+      }),
+
+      setAllowance: (token: Address, spender: ApprovalSpender, amount: bigint) => run('Approve', [keys.allowances, keys.gas], async () => {
+        const what = amount === 0n ? 'Revoking' : `Setting ${formatEther(amount)}`
+        addLog(`${what} ${spender} allowance on ${token.slice(0, 10)}...`, 'info')
+        const receipt = await client.approve(token, client.contracts[spender], amount)
+        addLog(`✓ Allowance updated · block #${receipt.blockNumber}`, 'success')
+      }, actionKeys.allowance(token, spender)),
+
+      connect: () => {
+        try {
+          connectFn({ connector: injected() })
+        } catch { addLog('No wallet provider available', 'error') }
+      },
+
+      disconnect: () => {
+        try { disconnectFn() } catch { /* */ }
+      },
+    }
+  }, [client, network, address, isConnected, loadCards, addLog, store, queryClient, connectFn, disconnectFn])
+
+  useEffect(() => {
+    addLog('═══ ERC-1142 · Whirlpool Terminal ═══', 'system', { category: 'system' })
+    addLog(`RPC: ${network.rpcUrl} · ${network.name} (chain ${network.id})`, 'system', { category: 'system' })
+  }, [address, network])
+
+  const cardName = useCallback((cardId: number) => (
+    queryClient.getQueryData<CardMarket>(whirlpoolKeys.card(network.id, cardId))?.name ?? `Card #${cardId}`
+  ), [queryClient, network])
+
+  // Watch OwnerChanged events
+  useEffect(() => {
+    const unwatch = client.watchOwnerChanged(changes => {
+      for (const change of changes) {
+        const cardId = Number(change.cardId)
+        addLog(`★ OWNERSHIP CHANGED card #${change.cardId} → ${change.newOwner.slice(0, 12)}…`, 'ownership', { category: 'ownership' })
+        const kind = address ? ownerChangeKind(change, address) : null
+        if (kind === 'lost') {
+          raiseAlert('lost', cardId, `${cardName(cardId)} was taken`, `${change.newOwner.slice(0, 10)}… outstaked you and now owns card #${cardId}`)
+        } else if (kind === 'gained') {
+          raiseAlert('gained', cardId, `${cardName(cardId)} is yours`, `You took card #${cardId} from ${change.previousOwner.slice(0, 10)}…`)
+        }
+        queryClient.invalidateQueries({ queryKey: whirlpoolKeys.card(network.id, cardId) })
+      }
+    })
+    return () => unwatch()
+  }, [addLog, raiseAlert, cardName, client, network, queryClient, address])
+
+  // Alert when a runner-up closes in on a card the account owns
+  useEffect(() => {
+    if (!address) return
+    let before: Map<number, number> | null = null
+    const check = () => {
+      const { holders, ready } = holderIndex.getState()
+      if (!ready) return
+      const after = ownedCardRisks(holders, address)
+      // The first snapshot after the replay is the baseline, not news
+      for (const cardId of before ? riskCrossings(before, after, getSettings().alertRiskThreshold) : []) {
+        const challenger = holders.get(cardId)?.find(h => !h.isOwner)
+        raiseAlert('risk', cardId, `${cardName(cardId)} is at risk`,
+          `${challenger?.address.slice(0, 10)}… has staked ${Math.round(after.get(cardId)! * 100)}% of your stake on card #${cardId}`)
+      }
+      before = after
+    }
+    check()
+    return holderIndex.subscribe(check)
+  }, [holderIndex, address, raiseAlert, cardName])
+
+  // Pick up transactions that were still pending when the page was last closed
+  useEffect(() => {
+    const pending = transactions.pending.length
+    if (!pending) return
+    addLog(`Resuming ${pending} pending transaction${pending > 1 ? 's' : ''}...`, 'info')
+    transactions.resume().then(settled => {
+      for (const tx of settled) {
+        if (tx.status === 'confirmed') addLog(`✓ ${tx.action} confirmed · block #${tx.blockNumber}`, 'success', { hash: tx.hash })
+        else if (tx.status === 'failed') addLog(`✗ ${tx.action}: ${tx.error}`, 'error', { category: 'error', hash: tx.hash })
+      }
+      queryClient.invalidateQueries({ queryKey: whirlpoolKeys.all(network.id) })
+    })
+  }, [transactions, network, addLog, queryClient])
+
+  // Replay stake history once, then apply each new block's events
+  useEffect(() => {
+    const sync = () => holderIndex.sync().catch((e: any) => {
+      addLog(`⚠ Holder index sync failed: ${e.shortMessage || e.message}`, 'error')
+    })
+    sync()
+    return publicClient.watchBlockNumber({ onBlockNumber: sync, emitMissed: false })
+  }, [holderIndex, publicClient, addLog])
+
+  const value = useMemo<WhirlpoolContextValue>(
+    () => ({ store, actions, client, holderIndex, transactions, network, address, isConnected }),
+    [store, actions, client, holderIndex, transactions, network, address, isConnected],
+  )
+
+  return <WhirlpoolContext.Provider value={value}>{children}</WhirlpoolContext.Provider>
+}
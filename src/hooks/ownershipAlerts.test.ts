@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { parseEther, zeroAddress } from 'viem'
+import type { Address } from 'viem'
+import { cardMuteKey, ownedCardRisks, ownerChangeKind, riskCrossings } from './ownershipAlerts'
+import type { CardHolder } from '../sdk/HolderIndexer'
+
+const me = '0x1111111111111111111111111111111111111111' as Address
+const rival = '0x2222222222222222222222222222222222222222' as Address
+const other = '0x3333333333333333333333333333333333333333' as Address
+
+const holder = (address: Address, stake: number, isOwner = false): CardHolder => ({ address, stake: parseEther(String(stake)), share: 0, isOwner })
+
+describe('ownerChangeKind', () => {
+  it('tells a loss from a gain, whatever the address case', () => {
+    expect(ownerChangeKind({ previousOwner: me, newOwner: rival }, me)).toBe('lost')
+    expect(ownerChangeKind({ previousOwner: rival, newOwner: me.toUpperCase().replace('0X', '0x') as Address }, me)).toBe('gained')
+  })
+
+  it('ignores changes between others and freshly created cards', () => {
+    expect(ownerChangeKind({ previousOwner: rival, newOwner: other }, me)).toBeNull()
+    expect(ownerChangeKind({ previousOwner: zeroAddress, newOwner: me }, me)).toBeNull()
+  })
+
+  it('does not call unstaking a whole position a loss', () => {
+    expect(ownerChangeKind({ previousOwner: me, newOwner: zeroAddress }, me)).toBeNull()
+  })
+})
+
+describe('ownedCardRisks', () => {
+  it("measures the runner-up against the account's stake on the cards it owns", () => {
+    const holders = new Map([
+      [0, [holder(me, 100, true), holder(rival, 70)]],
+      [1, [holder(me, 100, true)]],
+      [2, [holder(rival, 100, true), holder(me, 90)]],
+    ])
+    expect(ownedCardRisks(holders, me)).toEqual(new Map([[0, 0.7], [1, 0]]))
+  })
+})
+
+describe('riskCrossings', () => {
+  it('reports only cards that rose to the threshold', () => {
+    const before = new Map([[0, 0.5], [1, 0.7], [2, 0.59]])
+    const after = new Map([[0, 0.65], [1, 0.8], [2, 0.4], [3, 0.9]])
+    expect(riskCrossings(before, after, 0.6)).toEqual([0, 3])
+  })
+})
+
+describe('cardMuteKey', () => {
+  it('scopes card ids to their network', () => {
+    expect(cardMuteKey(31337, 4)).toBe('31337:4')
+    expect(cardMuteKey(1, 4)).not.toBe(cardMuteKey(31337, 4))
+  })
+})
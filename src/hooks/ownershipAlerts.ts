@@ -0,0 +1,98 @@
+/**
+ * ownershipAlerts — What ownership events mean for the connected account
+ *
+ * Turns OwnerChanged events and holder-index snapshots into user-scoped
+ * alerts: a card the account owned was taken, a card became theirs, or a
+ * runner-up on one of their cards crossed the risk threshold. The provider
+ * queues them as toasts and, per the settings, repeats them as a browser
+ * notification and a short tone. Risk is the runner-up's stake over the
+ * owner's (see sdk/defense.ts), the same number behind the Staking page's
+ * risk bar.
+ */
+import { isAddressEqual, zeroAddress } from 'viem'
+import type { Address } from 'viem'
+import { ownershipRisk } from '../sdk/defense'
+import type { CardHolder } from '../sdk/HolderIndexer'
+
+export type OwnershipAlertKind = 'lost' | 'gained' | 'risk'
+
+export interface OwnershipAlert {
+  id: number
+  kind: OwnershipAlertKind
+  cardId: number
+  title: string
+  body: string
+  /** Date.now() when raised */
+  time: number
+}
+
+/** Toasts kept at once; older ones drop off first */
+export const MAX_ALERTS = 5
+
+/** What an OwnerChanged means for `account`, or null when it was not involved the card was just created, or it unstaked its whole position */
+export function ownerChangeKind(change: { previousOwner: Address; newOwner: Address }, account: Address): 'lost' | 'gained' | null {
+  if (isAddressEqual(change.previousOwner, zeroAddress) || isAddressEqual(change.newOwner, zeroAddress)) return null
+  if (isAddressEqual(change.newOwner, account)) return 'gained'
+  if (isAddressEqual(change.previousOwner, account)) return 'lost'
+  return null
+}
+
+/** Risk of every card `account` owns in a holder-index snapshot */
+export function ownedCardRisks(holders: ReadonlyMap<number, CardHolder[]>, account: Address): Map<number, number> {
+  const risks = new Map<number, number>()
+  for (const [cardId, ranked] of holders) {
+    const owner = ranked.find(h => h.isOwner)
+    if (!owner || !isAddressEqual(owner.address, account)) continue
+    risks.set(cardId, ownershipRisk(owner.stake, ranked.find(h => !h.isOwner)?.stake ?? 0n))
+  }
+  return risks
+}
+
+/** Cards whose risk rose to `threshold` or past it since `before`; cards new to `after` count from 0 */
+export function riskCrossings(before: ReadonlyMap<number, number>, after: ReadonlyMap<number, number>, threshold: number): number[] {
+  return [...after].filter(([cardId, risk]) => risk >= threshold && (before.get(cardId) ?? 0) < threshold).map(([cardId]) => cardId)
+}
+
+/** Settings key for muting one card's alerts; card ids repeat across networks */
+export function cardMuteKey(chainId: number, cardId: number): string {
+  return `${chainId}:${cardId}`
+}
+
+// ─── Delivery ───────────────────────────────────────────────
+
+/** Ask for browser notification permission; 'unsupported' where the API is missing */
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (typeof Notification === 'undefined') return 'unsupported'
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission
+}
+
+/** Repeat an alert as a system notification, if the page holds permission */
+export function showNotification(alert: OwnershipAlert): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+  // One notification per card: a newer alert replaces the one still showing
+  new Notification(alert.title, { body: alert.body, tag: `whirlpool-card-${alert.cardId}` })
+}
+
+const TONES: Record<OwnershipAlertKind, number[]> = {
+  lost: [660, 440],
+  gained: [440, 660],
+  risk: [550, 550],
+}
+
+/** A short two-note tone, falling for a loss and rising for a gain */
+export function playAlertSound(kind: OwnershipAlertKind): void {
+  if (typeof AudioContext === 'undefined') return
+  const ctx = new AudioContext()
+  const gain = ctx.createGain()
+  gain.connect(ctx.destination)
+  gain.gain.setValueAtTime(0.12, ctx.currentTime)
+  gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.4)
+  TONES[kind].forEach((frequency, i) => {
+    const osc = ctx.createOscillator()
+    osc.frequency.value = frequency
+    osc.connect(gain)
+    osc.start(ctx.currentTime + i * 0.15)
+    osc.stop(ctx.currentTime + i * 0.15 + 0.15)
+    if (i === TONES[kind].length - 1) osc.onended = () => { ctx.close() }
+  })
+}
@@ -0,0 +1,72 @@
+/**
+ * useSettings — User preferences persisted to localStorage
+ *
+ * One module-level store shared by every component and by non-React code
+ * (the provider's actions read it through getSettings()). Unknown or missing
+ * keys fall back to DEFAULT_SETTINGS, so new settings need no migration.
+ */
+import { useSyncExternalStore } from 'react'
+import type { ApprovalMode } from '../sdk/types'
+
+export interface WhirlpoolSettings {
+  /** Max accepted shortfall vs quoted swap output, in basis points (50 = 0.5%) */
+  slippageBps: number
+  /** Approve just what each action needs, or maxUint256 once per token */
+  approvalMode: ApprovalMode
+  /** Claim All skips cards with less pending than this (reward token units) */
+  claimDustThreshold: number
+  /** Defend tops a card you own up to this lead over the runner-up, as a decimal card-token amount (see parseMargin) */
+  defenseMargin: string
+  /** Repeat ownership alerts as browser notifications (needs permission) */
+  alertNotifications: boolean
+  /** Play a short tone with each ownership alert */
+  alertSound: boolean
+  /** Alert when a runner-up's stake reaches this fraction of yours on a card you own, 0–1 */
+  alertRiskThreshold: number
+  /** Cards whose alerts are silenced, as cardMuteKey(chainId, cardId) */
+  mutedCards: string[]
+}
+
+export const DEFAULT_SETTINGS: WhirlpoolSettings = {
+  slippageBps: 50,
+  approvalMode: 'unlimited',
+  claimDustThreshold: 0.001,
+  defenseMargin: '1000',
+  alertNotifications: false,
+  alertSound: false,
+  alertRiskThreshold: 0.6,
+  mutedCards: [],
+}
+
+const STORAGE_KEY = 'whirlpool:settings'
+
+function load(): WhirlpoolSettings {
+  try {
+    const raw = globalThis.localStorage?.getItem(STORAGE_KEY)
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+let settings = load()
+const listeners = new Set<() => void>()
+
+export function getSettings(): WhirlpoolSettings {
+  return settings
+}
+
+export function updateSettings(patch: Partial<WhirlpoolSettings>): void {
+  settings = { ...settings, ...patch }
+  try { globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(settings)) } catch { /* private mode */ }
+  listeners.forEach(l => l())
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+export function useSettings(): [WhirlpoolSettings, (patch: Partial<WhirlpoolSettings>) => void] {
+  return [useSyncExternalStore(subscribe, getSettings), updateSettings]
+}
@@ -0,0 +1,282 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { act, waitFor } from '@testing-library/react'
+import { parseEther } from 'viem'
+import { actionKeys, useWethPool, useWhirlpool } from './useWhirlpool'
+import { DEFAULT_SETTINGS, updateSettings } from './useSettings'
+import { chainClient, mockSession, renderHookWithChain } from '../test/renderWithChain'
+import type { ChainSession } from '../test/renderWithChain'
+
+const CARDS = [
+  { name: 'Alpha Eagle', symbol: 'ALPHA' },
+  { name: 'Beta Beast', symbol: 'BETA' },
+]
+
+/** Challenger (account #1) with WAVES to spend, on a chain with two cards owned by account #0 */
+async function challenger() {
+  const session = await mockSession({ cards: CARDS, accountIndex: 1 })
+  session.chain.fund(session.account, { waves: parseEther('50000') })
+  return session
+}
+
+async function mount(session: ChainSession) {
+  const hook = renderHookWithChain(() => useWhirlpool(), session)
+  await waitFor(() => {
+    expect(hook.result.current.cards).toHaveLength(CARDS.length)
+    expect(hook.result.current.client.account).toBe(session.account)
+    expect(hook.result.current.wavesBalance).not.toBe('0')
+  })
+  return hook
+}
+
+const num = (value: string) => parseFloat(value)
+const errors = (logs: { type: string; message: string }[]) => logs.filter(l => l.type === 'error').map(l => l.message)
+
+describe('useWhirlpool', () => {
+  it('loads cards, owners and balances from the chain', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+
+    expect(result.current.cards.map(c => c.name)).toEqual(['Alpha Eagle', 'Beta Beast'])
+    expect(result.current.cards[0].owner.toLowerCase()).toBe(session.chain.accounts[0].toLowerCase())
+    expect(num(result.current.wavesBalance)).toBe(50000)
+    expect(result.current.cards[0].myStake).toBe('0')
+    await waitFor(() => expect(result.current.holdersReady).toBe(true))
+    expect(result.current.holders.get(0)).toHaveLength(1)
+  })
+
+  it('swaps WAVES for card tokens, then stakes and unstakes them', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+
+    await act(() => result.current.swap('waves', 'card-0', '1000'))
+    await waitFor(() => expect(num(result.current.cards[0].myBalance)).toBeGreaterThan(0))
+    expect(num(result.current.wavesBalance)).toBe(49000)
+
+    await act(() => result.current.stake(0, '500'))
+    await waitFor(() => expect(result.current.cards[0].myStake).toBe('500'))
+
+    await act(() => result.current.unstake(0, '200'))
+    await waitFor(() => expect(result.current.cards[0].myStake).toBe('300'))
+
+    const messages = result.current.logs.map(l => l.message)
+    expect(messages.some(m => m.startsWith('✓ Swap confirmed'))).toBe(true)
+    expect(messages.some(m => m.startsWith('✓ Staked'))).toBe(true)
+    expect(messages.some(m => m.startsWith('✓ Unstaked'))).toBe(true)
+    expect(errors(result.current.logs)).toEqual([])
+    expect(result.current.loading).toBe(false)
+  })
+
+  it('refreshes the WETH price after buying with ETH and the ETH balance after creating a card', async () => {
+    const session = await challenger()
+    session.chain.fund(session.account, { eth: parseEther('10') })
+    const { result } = renderHookWithChain(() => ({ whirlpool: useWhirlpool(), wethPool: useWethPool() }), session)
+    await waitFor(() => {
+      expect(result.current.wethPool.data).toBeDefined()
+      expect(num(result.current.whirlpool.ethBalance)).toBeGreaterThan(0)
+    })
+    const { wethPrice } = result.current.wethPool.data!
+    const ethBalance = result.current.whirlpool.ethBalance
+
+    await act(() => result.current.whirlpool.swap('eth', 'card-0', '1'))
+    await waitFor(() => expect(num(result.current.wethPool.data!.wethPrice)).toBeLessThan(num(wethPrice)))
+    expect(num(result.current.whirlpool.ethBalance)).toBeLessThan(num(ethBalance))
+
+    const afterSwap = result.current.whirlpool.ethBalance
+    await act(() => result.current.whirlpool.createCard('Gamma Ghost', 'GAMMA'))
+    await waitFor(() => expect(num(result.current.whirlpool.ethBalance)).toBeLessThan(num(afterSwap)))
+    expect(errors(result.current.whirlpool.logs)).toEqual([])
+  })
+
+  it('keeps each action busy on its own while several are in flight', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+
+    let sent!: Promise<unknown>
+    act(() => { sent = Promise.all([result.current.swap('waves', 'card-0', '100'), result.current.swap('waves', 'card-1', '100')]) })
+    expect(result.current.isBusy(actionKeys.swap('waves', 'card-0'))).toBe(true)
+    expect(result.current.isBusy(actionKeys.swap('waves', 'card-1'))).toBe(true)
+    expect(result.current.isBusy(actionKeys.swap('card-0', 'waves'))).toBe(false)
+    expect(result.current.isBusy(actionKeys.defend(0))).toBe(false)
+
+    await act(() => sent)
+    expect(result.current.running).toEqual([])
+    expect(result.current.loading).toBe(false)
+    await waitFor(() => expect(num(result.current.wavesBalance)).toBe(49800))
+    expect(errors(result.current.logs)).toEqual([])
+  })
+
+  it('moves a stake to another card with swapStake', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+
+    await act(() => result.current.swap('waves', 'card-0', '1000'))
+    await waitFor(() => expect(num(result.current.cards[0].myBalance)).toBeGreaterThan(0))
+    await act(() => result.current.stake(0, '1000'))
+    await waitFor(() => expect(result.current.cards[0].myStake).toBe('1000'))
+
+    await act(() => result.current.swapStake(0, 1, '1000'))
+    await waitFor(() => {
+      expect(result.current.cards[0].myStake).toBe('0')
+      expect(num(result.current.cards[1].myStake)).toBeGreaterThan(0)
+    })
+    expect(result.current.logs.some(l => l.message.startsWith('✓ SwapStake confirmed'))).toBe(true)
+  })
+
+  it('routes a staked position along the better path and refuses it once the price moved', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+    await act(() => result.current.swap('waves', 'card-0', '1000'))
+    await waitFor(() => expect(num(result.current.cards[0].myBalance)).toBeGreaterThan(0))
+    await act(() => result.current.stake(0, '1000'))
+    await waitFor(() => expect(result.current.cards[0].myStake).toBe('1000'))
+
+    // swapStake and unstake → swap → stake pay the same here; the single transaction wins
+    const plan = await result.current.client.planSwap('card-0', 'card-1', parseEther('1000'), 'staked')
+    expect(plan.hops.map(h => h.kind)).toEqual(['swapStake'])
+    expect(plan.alternatives.map(r => r.hops.map(h => h.kind))).toEqual([['unstake', 'swapExact', 'swapExact', 'stake']])
+
+    const whale = chainClient(session.chain, session.chain.accounts[2])
+    session.chain.fund(session.chain.accounts[2], { waves: parseEther('50000') })
+    await whale.swap('waves', 'card-1', parseEther('50000'), 0n)
+    const block = session.chain.blockNumber
+    await act(() => result.current.swap('card-0', 'card-1', '1000', 'staked', plan))
+    expect(errors(result.current.logs)).toEqual([expect.stringMatching(/^✗ Swap would revert: price moved beyond your slippage/)])
+    expect(session.chain.blockNumber).toBe(block)
+
+    // Replanned against the new price, it goes through
+    await act(() => result.current.swap('card-0', 'card-1', '1000', 'staked'))
+    await waitFor(() => expect(result.current.cards[0].myStake).toBe('0'))
+    expect(num(result.current.cards[1].myStake)).toBeGreaterThan(0)
+  })
+
+  it('claims accrued card rewards into the WAVES balance', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+
+    await act(() => result.current.swap('waves', 'card-0', '1000'))
+    await waitFor(() => expect(num(result.current.cards[0].myBalance)).toBeGreaterThan(0))
+    await act(() => result.current.stake(0, '1000'))
+    await waitFor(() => expect(result.current.cards[0].myStake).toBe('1000'))
+    const before = num(result.current.wavesBalance)
+
+    session.chain.mine(5)
+    await act(() => result.current.claimRewards(0))
+    await waitFor(() => expect(num(result.current.wavesBalance)).toBeGreaterThan(before))
+    expect(result.current.logs.some(l => l.message === '✓ Rewards claimed')).toBe(true)
+  })
+
+  it('claims WETH pool rewards', async () => {
+    const session = await challenger()
+    const { result } = await mount(session)
+
+    await act(() => result.current.wrapETH('2'))
+    await waitFor(() => expect(result.current.wethBalance).toBe('2'))
+    await act(() => result.current.stakeWETH('2'))
+    await waitFor(() => expect(result.current.myWethStake).toBe('2'))
+    const before = num(result.current.wavesBalance)
+
+    session.chain.mine(5)
+    await act(() => result.current.claimWETHRewards())
+    await waitFor(() => expect(num(result.current.wavesBalance)).toBeGreaterThan(before))
+    expect(result.current.logs.some(l => l.message === '✓ WETH rewards claimed')).toBe(true)
+  })
+
+  describe('error paths', () => {
+    it('logs a decoded revert when unstaking more than is staked', async () => {
+      const session = await challenger()
+      const { result } = await mount(session)
+
+      await act(() => result.current.unstake(0, '10'))
+
+      const entry = result.current.logs.find(l => l.type === 'error')
+      expect(entry?.category).toBe('error')
+      expect(entry?.message).toBe('✗ Unstake would revert: insufficient stake')
+      expect(result.current.loading).toBe(false)
+    })
+
+    it('logs a decoded revert when there is nothing to claim', async () => {
+      const session = await challenger()
+      const { result } = await mount(session)
+
+      await act(() => result.current.claimRewards(1))
+
+      expect(errors(result.current.logs)).toEqual(['✗ Claim would revert: nothing to claim'])
+    })
+
+    it('logs a revert and sends nothing when swapStake targets the same card', async () => {
+      const session = await challenger()
+      const { result } = await mount(session)
+      const block = session.chain.blockNumber
+
+      await act(() => result.current.swapStake(0, 0, '1'))
+
+      expect(errors(result.current.logs)).toEqual(['✗ SwapStake would revert: same card'])
+      expect(session.chain.blockNumber).toBe(block)
+    })
+
+    it('logs the viem error when a call fails without a revert reason', async () => {
+      const session = await challenger()
+      const { result } = await mount(session)
+
+      await act(() => result.current.stake(7, '1'))
+
+      // Card #7 has no token contract, so the allowance read comes back empty
+      expect(errors(result.current.logs)).toEqual(['✗ Stake: The contract function "allowance" returned no data ("0x").'])
+    })
+  })
+
+  describe('ownership alerts', () => {
+    // Mutes and thresholds live in the module-level settings store
+    afterEach(() => updateSettings(DEFAULT_SETTINGS))
+
+    /** Owner (account #0) of both cards, with a rival holding enough WAVES to take either */
+    async function owner() {
+      const session = await mockSession({ cards: CARDS })
+      const rival = chainClient(session.chain, session.chain.accounts[1])
+      session.chain.fund(session.chain.accounts[1], { waves: parseEther('50000') })
+      const hook = renderHookWithChain(() => useWhirlpool(), session)
+      await waitFor(() => {
+        expect(hook.result.current.cards).toHaveLength(CARDS.length)
+        expect(hook.result.current.holdersReady).toBe(true)
+      })
+      return { ...hook, rival }
+    }
+
+    /** Rival buys `amount` of a card and stakes all of it */
+    async function outstake(rival: ReturnType<typeof chainClient>, cardId: number, amount: string) {
+      const plan = await rival.planSwap('waves', `card-${cardId}`, parseEther('20000'))
+      await rival.executeSwapPlan(plan, 50)
+      await rival.stake(cardId, parseEther(amount))
+    }
+
+    it('warns once when a runner-up crosses the risk threshold', async () => {
+      const { result, rival } = await owner()
+      await outstake(rival, 0, '70000')
+
+      // The holder index picks the stake up on its next block poll
+      await waitFor(() => expect(result.current.alerts).toHaveLength(1), { timeout: 10_000 })
+      expect(result.current.alerts[0]).toMatchObject({ kind: 'risk', cardId: 0, title: 'Alpha Eagle is at risk' })
+      expect(result.current.alerts[0].body).toContain('70% of your stake')
+
+      // Still above the threshold: no repeat
+      await rival.stake(0, parseEther('5000'))
+      await waitFor(() => expect(result.current.holders.get(0)?.[1].stake).toBe(parseEther('75000')), { timeout: 10_000 })
+      expect(result.current.alerts).toHaveLength(1)
+
+      act(() => result.current.dismissAlert(result.current.alerts[0].id))
+      expect(result.current.alerts).toEqual([])
+    }, 25_000)
+
+    it('tells the owner a card was taken, except for muted cards', async () => {
+      const { result, rival } = await owner()
+      act(() => result.current.muteCard(1, true))
+      updateSettings({ alertRiskThreshold: 1 })
+      await outstake(rival, 1, '100001')
+      await outstake(rival, 0, '100001')
+
+      await waitFor(() => expect(result.current.alerts.some(a => a.kind === 'lost')).toBe(true), { timeout: 10_000 })
+      expect(result.current.alerts.map(a => [a.kind, a.cardId])).toEqual([['lost', 0]])
+      expect(result.current.alerts[0].title).toBe('Alpha Eagle was taken')
+    }, 15_000)
+  })
+})
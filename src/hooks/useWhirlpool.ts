@@ -1,385 +1,184 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { useAccount, useConnect, useDisconnect, useWriteContract } from 'wagmi'
-import { injected } from 'wagmi/connectors'
-import { createPublicClient, http, formatEther, parseEther, maxUint256 } from 'viem'
-import type { LogEntry, LogType } from '../components/WhirlpoolTerminal'
+import { useCallback, useContext, useMemo, useSyncExternalStore } from 'react'
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { UseQueryResult } from '@tanstack/react-query'
+import type { Address } from 'viem'
+import { WhirlpoolContext } from './whirlpoolStore'
+import type { WhirlpoolContextValue, WhirlpoolState } from './whirlpoolStore'
 import {
-  WHIRLPOOL_ADDRESS, WAVES_ADDRESS, WETH_ADDRESS, SURFSWAP_ADDRESS, ROUTER_ADDRESS, BIDNFT_ADDRESS,
-  WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, WETH_ABI, SURFSWAP_ABI, ROUTER_ABI, BIDNFT_ABI,
-} from '../contracts/erc1142'
-import { anvilChain } from '../contracts/wagmi-config'
-
-export interface CardState {
-  id: number
-  name: string
-  symbol: string
-  uri: string
-  address: `0x${string}`
-  owner: string
-  price: string
-  wavesReserve: string
-  cardReserve: string
-  myStake: string
-  myBalance: string
+  allowancesQuery, balancesQuery, cardQuery, cardsQuery, claimGasQuery, pendingGlobalQuery, positionQuery, quoteQuery, swapGasQuery,
+  defensePlanQuery, planGasQuery, stagePlansQuery, stealPlanQuery, wethPoolQuery,
+} from './whirlpoolQueries'
+import type { SwapStakeMove } from './whirlpoolQueries'
+import { wethPoolBoost } from '../sdk/rewards'
+import type { CardState, CardPosition, SwapPlan, TokenKey } from '../sdk/types'
+import type { CardHolder, HolderIndexState, OwnershipChange } from '../sdk/HolderIndexer'
+import type { TrackedTransaction } from '../sdk/TransactionTracker'
+
+export type { CardState } from '../sdk/types'
+export type { WhirlpoolState } from './whirlpoolStore'
+export { actionKeys } from './whirlpoolStore'
+export type { CardHolder, OwnershipChange } from '../sdk/HolderIndexer'
+export type { TrackedTransaction } from '../sdk/TransactionTracker'
+
+const NO_POSITION: CardPosition = { myStake: '0', myBalance: '0', pendingRewards: '0' }
+const NO_HOLDERS: CardHolder[] = []
+const NO_HISTORY: OwnershipChange[] = []
+
+/** Raw provider value: store, actions, client and session */
+export function useWhirlpoolContext(): WhirlpoolContextValue {
+  const ctx = useContext(WhirlpoolContext)
+  if (!ctx) throw new Error('useWhirlpool must be used inside <WhirlpoolProvider>')
+  return ctx
 }
 
-const publicClient = createPublicClient({
-  chain: anvilChain as any,
-  transport: http('http://192.168.0.82:8545'),
-})
-
-let logCounter = 0
-
-export function useWhirlpool() {
-  const { address, isConnected } = useAccount()
-  const { connect: connectFn } = useConnect()
-  const { disconnect: disconnectFn } = useDisconnect()
-  const { writeContractAsync } = useWriteContract()
-
-  const [cards, setCards] = useState<CardState[]>([])
-  const [selectedCard, setSelectedCard] = useState(0)
-  const [wavesBalance, setWavesBalance] = useState('0')
-  const [wethBalance, setWethBalance] = useState('0')
-  const [myWethStake, setMyWethStake] = useState('0')
-  const [pendingGlobal, setPendingGlobal] = useState('0')
-  const [loading, setLoading] = useState(false)
-  const [logs, setLogs] = useState<LogEntry[]>([])
-
-  const addLog = useCallback((message: string, type: LogType = 'default', extra: Partial<LogEntry> = {}) => {
-    const entry: LogEntry = {
-      id: ++logCounter,
-      time: new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-      type, message, category: extra.category || 'other', ...extra,
-    }
-    setLogs(prev => [...prev, entry].slice(-500))
-  }, [])
-
-  const clearLogs = useCallback(() => setLogs([]), [])
-
-  const cardsRef = useRef<CardState[]>([])
-  const loadCards = useCallback(async () => {
-    try {
-      const totalBig = await publicClient.readContract({
-        address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'totalCards',
-      }) as bigint
-      const total = Number(totalBig)
-      if (total === 0) { setCards([]); return }
-
-      // Batch: first get all token addresses in parallel (chunks of 20)
-      const CHUNK = 20
-      const tokenAddrs: (`0x${string}` | null)[] = new Array(total).fill(null)
-      for (let start = 0; start < total; start += CHUNK) {
-        const end = Math.min(start + CHUNK, total)
-        const batch = Array.from({ length: end - start }, (_, j) =>
-          publicClient.readContract({
-            address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'cardToken', args: [BigInt(start + j)],
-          }).catch(() => null)
-        )
-        const results = await Promise.all(batch)
-        results.forEach((addr, j) => { tokenAddrs[start + j] = addr as `0x${string}` | null })
-      }
-
-      // Now load card data in parallel chunks
-      const cardData: CardState[] = []
-      for (let start = 0; start < total; start += CHUNK) {
-        const end = Math.min(start + CHUNK, total)
-        const batch = Array.from({ length: end - start }, async (_, j) => {
-          const i = start + j
-          const tokenAddr = tokenAddrs[i]
-          if (!tokenAddr) return null
-          try {
-            const [name, symbol, owner, price, reserves, uri] = await Promise.all([
-              publicClient.readContract({ address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'name' }),
-              publicClient.readContract({ address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'symbol' }),
-              publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'ownerOfCard', args: [BigInt(i)] }),
-              publicClient.readContract({ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getPrice', args: [BigInt(i)] }),
-              publicClient.readContract({ address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [BigInt(i)] }),
-              publicClient.readContract({ address: BIDNFT_ADDRESS, abi: BIDNFT_ABI, functionName: 'tokenURI', args: [BigInt(i)] }).catch(() => ''),
-            ])
-            let myStake = '0', myBalance = '0'
-            if (address) {
-              const [s, b] = await Promise.all([
-                publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [BigInt(i), address] }),
-                publicClient.readContract({ address: tokenAddr, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [address] }),
-              ])
-              myStake = formatEther(s as bigint)
-              myBalance = formatEther(b as bigint)
-            }
-            const [wavesR, cardsR] = reserves as [bigint, bigint]
-            return {
-              id: i, name: name as string, symbol: symbol as string, uri: uri as string, address: tokenAddr,
-              owner: owner as string, price: formatEther(price as bigint),
-              wavesReserve: formatEther(wavesR), cardReserve: formatEther(cardsR), myStake, myBalance,
-            } as CardState
-          } catch { return null }
-        })
-        const results = await Promise.all(batch)
-        results.forEach(r => { if (r) cardData.push(r) })
-        // Progressive update only on first load
-        if (cardsRef.current.length === 0) setCards([...cardData])
-      }
-      cardsRef.current = cardData
-      setCards(cardData)
+/**
+ * Subscribe to one slice of the shared store — the component re-renders only
+ * when that slice changes. Selectors must return existing references
+ * (e.g. `s => s.logs`), not freshly built objects.
+ */
+export function useWhirlpoolSelector<T>(selector: (state: WhirlpoolState) => T): T {
+  const { store } = useWhirlpoolContext()
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()))
+}
 
-      if (address) {
-        try {
-          const [wb, wethb, ws, pg] = await Promise.all([
-            publicClient.readContract({ address: WAVES_ADDRESS, abi: WAVES_ABI, functionName: 'balanceOf', args: [address] }),
-            publicClient.readContract({ address: WETH_ADDRESS, abi: WETH_ABI, functionName: 'balanceOf', args: [address] }),
-            publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'userWethStake', args: [address] }),
-            publicClient.readContract({ address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'pendingGlobalRewards', args: [address] }),
-          ])
-          setWavesBalance(formatEther(wb as bigint))
-          setWethBalance(formatEther(wethb as bigint))
-          setMyWethStake(formatEther(ws as bigint))
-          setPendingGlobal(formatEther(pg as bigint))
-        } catch { /* ignore */ }
-      }
-    } catch (e: any) {
-      addLog(`⚠ Error loading cards: ${e.shortMessage || e.message}`, 'error')
-    }
-  }, [address, addLog])
+/** Stable action set (stake, swap, claim, …) without subscribing to state */
+export function useWhirlpoolActions() {
+  return useWhirlpoolContext().actions
+}
 
-  const ensureApproval = async (token: `0x${string}`, spender: `0x${string}`, amount: bigint) => {
-    const allowance = await publicClient.readContract({
-      address: token, abi: CARD_TOKEN_ABI, functionName: 'allowance', args: [address!, spender],
-    }) as bigint
-    if (allowance < amount) {
-      addLog(`Approving ${spender.slice(0, 10)}...`, 'info')
-      const hash = await writeContractAsync({ address: token, abi: CARD_TOKEN_ABI, functionName: 'approve', args: [spender, maxUint256] })
-      await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ Approval confirmed`, 'success')
-    }
-  }
+/** Every loaded card, merged with the connected account's position in it */
+export function useWhirlpoolCards(): CardState[] {
+  const { client, address } = useWhirlpoolContext()
+  const queryClient = useQueryClient()
+  const { data: ids = [] } = useQuery(cardsQuery(client, queryClient, address))
+  const pickData = useCallback(<T,>(results: UseQueryResult<T>[]) => results.map(r => r.data), [])
+  const markets = useQueries({ queries: ids.map(id => cardQuery(client, id)), combine: pickData })
+  const positions = useQueries({ queries: ids.map(id => positionQuery(client, id, address)), combine: pickData })
+  return useMemo(
+    () => markets.flatMap((market, i) => market ? [{ ...market, ...(positions[i] ?? NO_POSITION) }] : []),
+    [markets, positions],
+  )
+}
 
-  const createCard = async (name: string, symbol: string, uri?: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      addLog(`Creating card "${name}" (${symbol})...`, 'info')
-      const hash = await writeContractAsync({
-        address: ROUTER_ADDRESS, abi: ROUTER_ABI, functionName: 'createCard',
-        args: [name, symbol, uri || ''], value: parseEther('0.05'),
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ Card created! Block #${receipt.blockNumber}`, 'success', { hash })
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Create: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
+/** Connected account's ETH / WAVES / WETH balances, WETH stake and pending WETH-pool rewards */
+export function useWhirlpoolBalances() {
+  const { client, address } = useWhirlpoolContext()
+  const { data: balances } = useQuery(balancesQuery(client, address))
+  const { data: pendingGlobal = '0' } = useQuery(pendingGlobalQuery(client, address))
+  return {
+    ethBalance: balances?.eth ?? '0',
+    wavesBalance: balances?.waves ?? '0',
+    wethBalance: balances?.weth ?? '0',
+    myWethStake: balances?.wethStake ?? '0',
+    pendingGlobal,
   }
+}
 
-  const swap = async (tokenIn: string, tokenOut: string, amount: string, source: 'wallet' | 'staked' = 'wallet') => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(amount)
-      const resolveToken = (key: string): `0x${string}` => {
-        if (key === 'waves') return WAVES_ADDRESS
-        if (key === 'weth') return WETH_ADDRESS
-        const idx = parseInt(key.replace('card-', ''))
-        return cards[idx]?.address || ('0x0' as `0x${string}`)
-      }
-
-      const isCardIn = tokenIn.startsWith('card-')
-      const isCardOut = tokenOut.startsWith('card-')
+/** Total WETH staked in Whirlpool and the WETH price in WAVES */
+export function useWethPool() {
+  const { client } = useWhirlpoolContext()
+  return useQuery(wethPoolQuery(client))
+}
 
-      if (isCardIn && isCardOut && source === 'staked') {
-        const fromId = parseInt(tokenIn.replace('card-', ''))
-        const toId = parseInt(tokenOut.replace('card-', ''))
-        addLog(`⚡ SwapStake ${amount} shares card #${fromId} → #${toId}...`, 'info')
-        const hash = await writeContractAsync({
-          address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'swapStake',
-          args: [BigInt(fromId), BigInt(toId), amt],
-        })
-        const receipt = await publicClient.waitForTransactionReceipt({ hash })
-        addLog(`✓ SwapStake confirmed · block #${receipt.blockNumber}`, 'success', { hash })
-      } else {
-        const addrIn = resolveToken(tokenIn)
-        const addrOut = resolveToken(tokenOut)
-        addLog(`Swapping ${amount} ${tokenIn} → ${tokenOut}...`, 'info')
-        await ensureApproval(addrIn, SURFSWAP_ADDRESS, amt)
-        const hash = await writeContractAsync({
-          address: SURFSWAP_ADDRESS, abi: SURFSWAP_ABI, functionName: 'swapExact',
-          args: [addrIn, addrOut, amt, BigInt(0)],
-        })
-        const receipt = await publicClient.waitForTransactionReceipt({ hash })
-        addLog(`✓ Swap confirmed · block #${receipt.blockNumber}`, 'success')
-      }
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Swap: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/**
+ * Measured ETH pool boost: WETH-pool rewards per WAVES staked vs the
+ * account's card stakes (see sdk/rewards.ts). Null until both have accrued.
+ */
+export function useWethBoost(): number | null {
+  const cards = useWhirlpoolCards()
+  const { myWethStake, pendingGlobal } = useWhirlpoolBalances()
+  const { data: pool } = useWethPool()
+  const wethPrice = parseFloat(pool?.wethPrice ?? '0')
+  return wethPoolBoost(
+    { stakeValue: parseFloat(myWethStake) * wethPrice, pending: parseFloat(pendingGlobal) },
+    {
+      stakeValue: cards.reduce((s, c) => s + parseFloat(c.myStake) * parseFloat(c.price), 0),
+      pending: cards.reduce((s, c) => s + parseFloat(c.pendingRewards), 0),
+    },
+  )
+}
 
-  const stake = async (cardId: number, amount: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(amount)
-      const card = cards[cardId]
-      addLog(`Staking ${amount} ${card?.symbol || '?'}...`, 'info')
-      if (card) await ensureApproval(card.address, WHIRLPOOL_ADDRESS, amt)
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'stake', args: [BigInt(cardId), amt],
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ Staked · block #${receipt.blockNumber}`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Stake: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live route quote (path, expected out, price impact) for an exact input; see WhirlpoolClient.planSwap */
+export function useSwapQuote(tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint) {
+  const { client } = useWhirlpoolContext()
+  return useQuery(quoteQuery(client, tokenIn, tokenOut, amountIn))
+}
 
-  const unstake = async (cardId: number, amount: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(amount)
-      addLog(`Unstaking ${amount} from card #${cardId}...`, 'info')
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'unstake', args: [BigInt(cardId), amt],
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ Unstaked · block #${receipt.blockNumber}`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Unstake: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live plan for taking `cardId` from its owner, using `sources` for swapStake */
+export function useStealPlan(cardId: number | null, sources: SwapStakeMove[]) {
+  const { client, address } = useWhirlpoolContext()
+  return useQuery(stealPlanQuery(client, address, cardId, sources))
+}
 
-  const swapStake = async (fromCard: number, toCard: number, shares: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(shares)
-      addLog(`SwapStake ${shares} shares #${fromCard} → #${toCard}...`, 'info')
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'swapStake',
-        args: [BigInt(fromCard), BigInt(toCard), amt],
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ SwapStake confirmed · block #${receipt.blockNumber}`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ SwapStake: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live plan for the owner of `cardId` to lead `challenger` by `targetMargin` card tokens */
+export function useDefensePlan(cardId: number | null, challenger: Address | null, targetMargin: bigint) {
+  const { client, address } = useWhirlpoolContext()
+  return useQuery(defensePlanQuery(client, address, cardId, challenger, targetMargin))
+}
 
-  const stakeWETH = async (amount: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(amount)
-      addLog(`Staking ${amount} WETH...`, 'info')
-      await ensureApproval(WETH_ADDRESS, WHIRLPOOL_ADDRESS, amt)
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'stakeWETH', args: [amt],
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ WETH staked · block #${receipt.blockNumber}`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ WETH stake: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live staked swap plans moving each of `moves` into `toCard`, in order */
+export function useStagePlans(toCard: number | null, moves: SwapStakeMove[]) {
+  const { client } = useWhirlpoolContext()
+  return useQuery(stagePlansQuery(client, toCard, moves))
+}
 
-  const unstakeWETH = async (amount: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(amount)
-      addLog(`Unstaking ${amount} WETH...`, 'info')
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'unstakeWETH', args: [amt],
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ WETH unstaked · block #${receipt.blockNumber}`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ WETH unstake: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live gas estimate for sending `plans` in order: every hop of each, approvals included */
+export function usePlanGas(plans?: SwapPlan[]) {
+  const { client, address } = useWhirlpoolContext()
+  return useQuery(planGasQuery(client, address, plans))
+}
 
-  const claimRewards = async (cardId: number) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      addLog(`Claiming rewards for card #${cardId}...`, 'info')
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'claimRewards', args: [BigInt(cardId)],
-      })
-      await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ Rewards claimed`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Claim: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live gas estimate for a token swap: every transaction of its route, approvals included */
+export function useSwapGas(tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint) {
+  const { client, address } = useWhirlpoolContext()
+  return useQuery(swapGasQuery(client, address, tokenIn, tokenOut, amountIn))
+}
 
-  const claimWETHRewards = async () => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      addLog(`Claiming WETH rewards...`, 'info')
-      const hash = await writeContractAsync({
-        address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, functionName: 'claimWETHRewards',
-      })
-      await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ WETH rewards claimed`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Claim: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Live gas estimate for claiming rewards on each of `cardIds` */
+export function useClaimGas(cardIds: number[]) {
+  const { client, address } = useWhirlpoolContext()
+  return useQuery(claimGasQuery(client, address, cardIds))
+}
 
-  const wrapETH = async (amount: string) => {
-    if (!isConnected) return
-    setLoading(true)
-    try {
-      const amt = parseEther(amount)
-      addLog(`Wrapping ${amount} ETH → WETH...`, 'info')
-      const hash = await writeContractAsync({
-        address: WETH_ADDRESS, abi: WETH_ABI, functionName: 'deposit', value: amt,
-      })
-      const receipt = await publicClient.waitForTransactionReceipt({ hash })
-      addLog(`✓ Wrapped · block #${receipt.blockNumber}`, 'success')
-      await loadCards()
-    } catch (e: any) { addLog(`✗ Wrap: ${e.shortMessage || e.message}`, 'error', { category: 'error' }) }
-    setLoading(false)
-  }
+/** Connected account's allowances for every protocol token */
+export function useAllowances() {
+  const { client, address } = useWhirlpoolContext()
+  return useQuery(allowancesQuery(client, address))
+}
 
-  const connect = () => {
-    try {
-      connectFn({ connector: injected() })
-    } catch { addLog('No wallet provider available', 'error') }
-  }
+/** Event-sourced holder index: ranked holders for every card */
+export function useHolderIndex(): HolderIndexState {
+  const { holderIndex } = useWhirlpoolContext()
+  return useSyncExternalStore(holderIndex.subscribe, holderIndex.getState)
+}
 
-  const disconnect = () => {
-    try { disconnectFn() } catch { /* */ }
-  }
+/** Ranked holders of one card, largest stake first */
+export function useCardHolders(cardId: number): CardHolder[] {
+  const { holderIndex } = useWhirlpoolContext()
+  return useSyncExternalStore(holderIndex.subscribe, () => holderIndex.getState().holders.get(cardId) ?? NO_HOLDERS)
+}
 
-  // Init + polling
-  useEffect(() => {
-    addLog('═══ ERC-1142 · Whirlpool Terminal ═══', 'system', { category: 'system' })
-    addLog(`RPC: http://192.168.0.82:8545 · Chain 31337`, 'system', { category: 'system' })
-    loadCards()
-    const interval = setInterval(loadCards, 30000)
-    return () => clearInterval(interval)
-  }, [address])
+/** Every OwnerChanged event of one card, oldest first */
+export function useOwnershipHistory(cardId: number): OwnershipChange[] {
+  const { holderIndex } = useWhirlpoolContext()
+  return useSyncExternalStore(holderIndex.subscribe, () => holderIndex.getState().history.get(cardId) ?? NO_HISTORY)
+}
 
-  // Watch OwnerChanged events
-  useEffect(() => {
-    const unwatch = publicClient.watchContractEvent({
-      address: WHIRLPOOL_ADDRESS, abi: WHIRLPOOL_ABI, eventName: 'OwnerChanged',
-      onLogs: (eventLogs) => {
-        for (const log of eventLogs) {
-          const args = log.args as any
-          addLog(`★ OWNERSHIP CHANGED card #${args.cardId} → ${args.newOwner?.slice(0, 12)}…`, 'ownership', { category: 'ownership' })
-        }
-        loadCards()
-      },
-    })
-    return () => unwatch()
-  }, [addLog, loadCards])
+/** Recent transactions on the active chain, newest first — pending ones survive reloads */
+export function useTransactions(): TrackedTransaction[] {
+  const { transactions } = useWhirlpoolContext()
+  return useSyncExternalStore(transactions.subscribe, transactions.getTransactions)
+}
 
-  return {
-    cards, selectedCard, setSelectedCard,
-    wavesBalance, wethBalance, myWethStake, pendingGlobal,
-    isConnected, address, loading, logs,
-    createCard, swap, stake, unstake, swapStake,
-    stakeWETH, unstakeWETH, claimRewards, claimWETHRewards, wrapETH,
-    connect, disconnect, clearLogs,
-  }
+/** Everything at once: cards, balances, shared state, actions and session. Re-renders on any change. */
+export function useWhirlpool() {
+  const { store, actions, client, network, address, isConnected } = useWhirlpoolContext()
+  const state = useSyncExternalStore(store.subscribe, store.getState)
+  const cards = useWhirlpoolCards()
+  const balances = useWhirlpoolBalances()
+  const { holders, ready: holdersReady } = useHolderIndex()
+  // Any action in flight; a button waits only on its own action through isBusy(actionKeys.…)
+  const loading = state.running.length > 0
+  const isBusy = (key: string) => state.running.includes(key)
+  return { ...state, loading, isBusy, cards, ...balances, holders, holdersReady, ...actions, client, network, address, isConnected }
 }
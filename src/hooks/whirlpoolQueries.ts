@@ -0,0 +1,240 @@
+/**
+ * whirlpoolQueries — TanStack Query keys and read options for Whirlpool
+ *
+ * Every on-chain read lives under ['whirlpool', chainId, …] so each write can
+ * invalidate exactly what it touched. The card list query loads every card in
+ * one batched pass and seeds the per-card entries from it; after that a single
+ * stake or swap refetches only its own card and position.
+ */
+import { queryOptions } from '@tanstack/react-query'
+import type { QueryClient, QueryKey } from '@tanstack/react-query'
+import type { Address } from 'viem'
+import type { WhirlpoolClient } from '../sdk/WhirlpoolClient'
+import { hopAction } from '../sdk/router'
+import type { CardMarket, CardPosition, CardState, GasEstimate, SwapPlan, TokenKey } from '../sdk/types'
+
+/** Background refetch interval for the card list and account balances */
+export const POLL_INTERVAL = 30_000
+/** Swap quotes and gas estimates go stale faster — reserves move with every trade */
+export const QUOTE_REFRESH = 10_000
+
+export const whirlpoolKeys = {
+  all: (chainId: number) => ['whirlpool', chainId] as const,
+  /** Prefix of every card list, whichever account it was loaded for */
+  cardLists: (chainId: number) => ['whirlpool', chainId, 'cards'] as const,
+  cards: (chainId: number, account?: Address) => ['whirlpool', chainId, 'cards', account ?? null] as const,
+  card: (chainId: number, cardId: number) => ['whirlpool', chainId, 'card', cardId] as const,
+  position: (chainId: number, cardId: number, account?: Address) =>
+    ['whirlpool', chainId, 'position', cardId, account ?? null] as const,
+  balances: (chainId: number, account?: Address) => ['whirlpool', chainId, 'balances', account ?? null] as const,
+  pendingGlobal: (chainId: number, account?: Address) => ['whirlpool', chainId, 'pendingGlobal', account ?? null] as const,
+  wethPool: (chainId: number) => ['whirlpool', chainId, 'wethPool'] as const,
+  allowances: (chainId: number, account?: Address) => ['whirlpool', chainId, 'allowances', account ?? null] as const,
+  quotes: (chainId: number) => ['whirlpool', chainId, 'quote'] as const,
+  /** Prefix of every gas estimate */
+  gasEstimates: (chainId: number) => ['whirlpool', chainId, 'gas'] as const,
+  planGas: (chainId: number, account: Address | undefined, plans: SwapPlan[]) =>
+    ['whirlpool', chainId, 'gas', account ?? null, 'plans', ...plans.map(p => p.hops.map(h => `${hopAction(h)}:${h.amountIn}`).join(','))] as const,
+  claimGas: (chainId: number, account: Address | undefined, cardIds: number[]) =>
+    ['whirlpool', chainId, 'gas', account ?? null, 'claim', ...cardIds] as const,
+  swapGas: (chainId: number, account: Address | undefined, tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint) =>
+    ['whirlpool', chainId, 'gas', account ?? null, 'swap', tokenIn, tokenOut, amountIn.toString()] as const,
+  quote: (chainId: number, tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint) =>
+    ['whirlpool', chainId, 'quote', tokenIn, tokenOut, amountIn.toString()] as const,
+  stagePlans: (chainId: number, toCard: number | null, moves: SwapStakeMove[]) =>
+    ['whirlpool', chainId, 'quote', 'stage', toCard, ...moves.map(m => `${m.cardId}:${m.shares}`)] as const,
+  stealPlan: (chainId: number, account: Address | undefined, cardId: number | null, sources: SwapStakeMove[]) =>
+    ['whirlpool', chainId, 'quote', 'steal', account ?? null, cardId, ...sources.map(m => `${m.cardId}:${m.shares}`)] as const,
+  defensePlan: (chainId: number, account: Address | undefined, cardId: number | null, challenger: Address | null, targetMargin: bigint) =>
+    ['whirlpool', chainId, 'quote', 'defense', account ?? null, cardId, challenger, targetMargin.toString()] as const,
+}
+
+/** One source position of a Swap Stage move — each gets its own staked swap plan */
+export interface SwapStakeMove {
+  cardId: number
+  shares: bigint
+}
+
+function splitCard({ myStake, myBalance, pendingRewards, ...market }: CardState): [CardMarket, CardPosition] {
+  return [market, { myStake, myBalance, pendingRewards }]
+}
+
+/**
+ * Card ids, loaded through the batched client.loadCards. Seeds each card and
+ * position entry as batches arrive, and renders progressively on first load.
+ */
+export function cardsQuery(client: WhirlpoolClient, queryClient: QueryClient, account?: Address) {
+  const chainId = client.network.id
+  const queryKey = whirlpoolKeys.cards(chainId, account)
+  const seed = (cards: CardState[]) => {
+    for (const card of cards) {
+      const [market, position] = splitCard(card)
+      queryClient.setQueryData(whirlpoolKeys.card(chainId, card.id), market)
+      if (account) queryClient.setQueryData(whirlpoolKeys.position(chainId, card.id, account), position)
+    }
+    return cards.map(c => c.id)
+  }
+  return queryOptions({
+    queryKey,
+    queryFn: async () => {
+      const progressive = queryClient.getQueryData(queryKey) === undefined
+      const cards = await client.loadCards(account, partial => {
+        if (progressive) queryClient.setQueryData(queryKey, seed(partial))
+      })
+      return seed(cards)
+    },
+    refetchInterval: POLL_INTERVAL,
+  })
+}
+
+/** Name, owner, price and reserves of one card — refreshed by the list poll or invalidation */
+export function cardQuery(client: WhirlpoolClient, cardId: number) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.card(client.network.id, cardId),
+    queryFn: async () => splitCard(await client.loadCard(cardId))[0],
+    staleTime: Infinity,
+  })
+}
+
+export function positionQuery(client: WhirlpoolClient, cardId: number, account?: Address) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.position(client.network.id, cardId, account),
+    queryFn: () => client.loadPosition(cardId, account!),
+    enabled: !!account,
+    staleTime: Infinity,
+  })
+}
+
+export function balancesQuery(client: WhirlpoolClient, account?: Address) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.balances(client.network.id, account),
+    queryFn: () => client.getBalances(account!),
+    enabled: !!account,
+    refetchInterval: POLL_INTERVAL,
+  })
+}
+
+export function pendingGlobalQuery(client: WhirlpoolClient, account?: Address) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.pendingGlobal(client.network.id, account),
+    queryFn: () => client.pendingGlobalRewards(account!),
+    enabled: !!account,
+    refetchInterval: POLL_INTERVAL,
+  })
+}
+
+/** Pool-wide WETH stake and the WETH price in WAVES */
+export function wethPoolQuery(client: WhirlpoolClient) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.wethPool(client.network.id),
+    queryFn: () => client.getWethPool(),
+    refetchInterval: POLL_INTERVAL,
+  })
+}
+
+/** Every protocol token's allowance to SurfSwap and Whirlpool — fetched while the allowance manager is open */
+export function allowancesQuery(client: WhirlpoolClient, account?: Address) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.allowances(client.network.id, account),
+    queryFn: () => client.getAllowances(account!),
+    enabled: !!account,
+  })
+}
+
+export function quoteQuery(client: WhirlpoolClient, tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.quote(client.network.id, tokenIn, tokenOut, amountIn),
+    queryFn: () => client.planSwap(tokenIn, tokenOut, amountIn),
+    enabled: amountIn > 0n && tokenIn !== tokenOut,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/**
+ * What the account needs to take `cardId` from its owner: wallet tokens,
+ * swapStake out of `sources`, then a WAVES buy (see WhirlpoolClient.planSteal)
+ */
+export function stealPlanQuery(client: WhirlpoolClient, account: Address | undefined, cardId: number | null, sources: SwapStakeMove[]) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.stealPlan(client.network.id, account, cardId, sources),
+    queryFn: () => client.planSteal(cardId!, sources),
+    enabled: !!account && cardId !== null,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/**
+ * What the account, as owner of `cardId`, needs to lead `challenger` by
+ * `targetMargin`: wallet tokens, then a WAVES buy (see WhirlpoolClient.planDefense)
+ */
+export function defensePlanQuery(
+  client: WhirlpoolClient, account: Address | undefined, cardId: number | null, challenger: Address | null, targetMargin: bigint,
+) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.defensePlan(client.network.id, account, cardId, challenger, targetMargin),
+    queryFn: () => client.planDefense(cardId!, challenger, targetMargin),
+    enabled: !!account && cardId !== null,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/**
+ * The Swap Stage's moves into `toCard`: one staked swap plan per source
+ * position, each quoted after the ones before it (see WhirlpoolClient.planSwaps)
+ */
+export function stagePlansQuery(client: WhirlpoolClient, toCard: number | null, moves: SwapStakeMove[]) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.stagePlans(client.network.id, toCard, moves),
+    queryFn: () => client.planSwaps(moves.map(m => ({ tokenIn: `card-${m.cardId}`, amountIn: m.shares })), `card-${toCard}`, 'staked'),
+    enabled: toCard !== null && moves.length > 0,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/** Gas for sending `plans` in order, every hop and approval of each, priced at the current gas price */
+export function planGasQuery(client: WhirlpoolClient, account: Address | undefined, plans: SwapPlan[] = []) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.planGas(client.network.id, account, plans),
+    queryFn: async (): Promise<GasEstimate> => client.priceGas((await Promise.all(plans.map(p => client.estimateSwapPlan(p)))).flat()),
+    enabled: !!account && plans.length > 0,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/**
+ * Gas for a token swap along its planned route: one step per hop, plus any
+ * approvals. Estimated with no min-out guard, which doesn't change the gas used.
+ */
+export function swapGasQuery(client: WhirlpoolClient, account: Address | undefined, tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.swapGas(client.network.id, account, tokenIn, tokenOut, amountIn),
+    queryFn: async (): Promise<GasEstimate> => client.priceGas(await client.estimateSwapPlan(await client.planSwap(tokenIn, tokenOut, amountIn))),
+    enabled: !!account && amountIn > 0n && tokenIn !== tokenOut,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/** Gas for one claimRewards per card, priced at the current gas price */
+export function claimGasQuery(client: WhirlpoolClient, account: Address | undefined, cardIds: number[]) {
+  return queryOptions({
+    queryKey: whirlpoolKeys.claimGas(client.network.id, account, cardIds),
+    queryFn: async (): Promise<GasEstimate> => client.priceGas(await client.estimateClaims(cardIds)),
+    enabled: !!account && cardIds.length > 0,
+    refetchInterval: QUOTE_REFRESH,
+    retry: false,
+  })
+}
+
+/** Keys a swap leg touches: the card's reserves and position, or the account's token balances (and WETH price, which ETH trades through once wrapped) */
+export function swapLegKeys(chainId: number, key: TokenKey, account?: Address): QueryKey[] {
+  if (key === 'weth' || key === 'eth') return [whirlpoolKeys.balances(chainId, account), whirlpoolKeys.wethPool(chainId)]
+  if (!key.startsWith('card-')) return [whirlpoolKeys.balances(chainId, account)]
+  const cardId = parseInt(key.replace('card-', ''))
+  return [whirlpoolKeys.card(chainId, cardId), whirlpoolKeys.position(chainId, cardId, account)]
+}
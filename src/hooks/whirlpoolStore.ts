@@ -0,0 +1,114 @@
+/**
+ * whirlpoolStore — Shared Whirlpool state behind <WhirlpoolProvider>
+ *
+ * A tiny external store (getState / setState / subscribe) for client-side
+ * session state — selection, in-flight actions, terminal log and ownership
+ * alerts — so every page shares it and components can subscribe to just the
+ * slice they render via useWhirlpoolSelector. On-chain reads live in TanStack Query
+ * (see whirlpoolQueries.ts); sent transactions in TransactionTracker.
+ */
+import { createContext } from 'react'
+import type { Address } from 'viem'
+import type { LogEntry, LogType } from '../components/WhirlpoolTerminal'
+import type { OwnershipAlert } from './ownershipAlerts'
+import type { WhirlpoolNetwork } from '../contracts/networks'
+import type { WhirlpoolClient } from '../sdk/WhirlpoolClient'
+import type { HolderIndexer } from '../sdk/HolderIndexer'
+import type { TransactionTracker } from '../sdk/TransactionTracker'
+import type { ApprovalSpender, DefensePlan, StealPlan, SwapPlan, SwapSource } from '../sdk/types'
+
+export interface WhirlpoolState {
+  selectedCard: number
+  /** Busy key of each action currently running (see actionKeys) — several can be in flight at once */
+  running: string[]
+  logs: LogEntry[]
+  /** Ownership alerts waiting to be seen, oldest first (see ownershipAlerts.ts) */
+  alerts: OwnershipAlert[]
+}
+
+export const initialWhirlpoolState: WhirlpoolState = {
+  selectedCard: 0,
+  running: [],
+  logs: [],
+  alerts: [],
+}
+
+/** Busy keys for actions a button waits on, so it only disables while its own action runs; others use their log label */
+export const actionKeys = {
+  swap: (tokenIn: string, tokenOut: string) => `swap:${tokenIn}:${tokenOut}`,
+  steal: (cardId: number) => `steal:${cardId}`,
+  defend: (cardId: number) => `defend:${cardId}`,
+  allowance: (token: Address, spender: ApprovalSpender) => `allowance:${token.toLowerCase()}:${spender}`,
+}
+
+type StateUpdate = Partial<WhirlpoolState> | ((prev: WhirlpoolState) => Partial<WhirlpoolState>)
+
+export interface WhirlpoolStore {
+  getState: () => WhirlpoolState
+  setState: (update: StateUpdate) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+export function createWhirlpoolStore(initial: WhirlpoolState = initialWhirlpoolState): WhirlpoolStore {
+  let state = initial
+  const listeners = new Set<() => void>()
+  return {
+    getState: () => state,
+    setState: update => {
+      const patch = typeof update === 'function' ? update(state) : update
+      state = { ...state, ...patch }
+      listeners.forEach(l => l())
+    },
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+  }
+}
+
+export interface WhirlpoolActions {
+  /** Refetch the card list and account balances now */
+  loadCards: () => Promise<void>
+  setSelectedCard: (id: number) => void
+  addLog: (message: string, type?: LogType, extra?: Partial<LogEntry>) => void
+  clearLogs: () => void
+  createCard: (name: string, symbol: string, uri?: string) => Promise<void>
+  /**
+   * Best route between any two tokens (see WhirlpoolClient.planSwap) — the
+   * shown plan, or a fresh one — each step guarded at the slippage setting
+   */
+  swap: (tokenIn: string, tokenOut: string, amount: string, source?: SwapSource, plan?: SwapPlan) => Promise<void>
+  stake: (cardId: number, amount: string) => Promise<void>
+  unstake: (cardId: number, amount: string) => Promise<void>
+  swapStake: (fromCard: number, toCard: number, shares: string) => Promise<void>
+  /** Run a StealPlan (see WhirlpoolClient.executeStealPlan) and report whether the card changed hands */
+  steal: (plan: StealPlan) => Promise<void>
+  /** Run a DefensePlan (see WhirlpoolClient.executeDefensePlan) and report the margin it left */
+  defend: (plan: DefensePlan) => Promise<void>
+  stakeWETH: (amount: string) => Promise<void>
+  unstakeWETH: (amount: string) => Promise<void>
+  claimRewards: (cardId: number) => Promise<void>
+  claimWETHRewards: () => Promise<void>
+  wrapETH: (amount: string) => Promise<void>
+  unwrapETH: (amount: string) => Promise<void>
+  /** Set an allowance to exactly `amount` (0n revokes) */
+  setAllowance: (token: Address, spender: ApprovalSpender, amount: bigint) => Promise<void>
+  dismissAlert: (id: number) => void
+  /** Silence (or unsilence) one card's ownership alerts on this network */
+  muteCard: (cardId: number, muted: boolean) => void
+  connect: () => void
+  disconnect: () => void
+}
+
+export interface WhirlpoolContextValue {
+  store: WhirlpoolStore
+  actions: WhirlpoolActions
+  client: WhirlpoolClient
+  holderIndex: HolderIndexer
+  transactions: TransactionTracker
+  network: WhirlpoolNetwork
+  address?: Address
+  isConnected: boolean
+}
+
+export const WhirlpoolContext = createContext<WhirlpoolContextValue | null>(null)
@@ -0,0 +1,205 @@
+/** AllowancesPage — Review, adjust and revoke token approvals
+ *
+ * Enumerates WAVES, WETH and every card token (ROUTER.cardToken) with the
+ * connected account's allowance to SurfSwap and Whirlpool.
+ * Features:
+ *   - Approval mode setting: exact-amount vs unlimited for future actions
+ *   - Active-only filter (hundreds of cards are mostly zero)
+ *   - Per-row revoke / set exact amount, plus "Revoke all unlimited"
+ *
+ * Same dark panel styling as the Swap page.
+ */
+import { useMemo, useState } from 'react'
+import { formatEther, maxUint256, parseEther } from 'viem'
+import { actionKeys, useAllowances, useWhirlpool } from '../hooks/useWhirlpool'
+import { useSettings } from '../hooks/useSettings'
+import type { TokenAllowance } from '../sdk/types'
+
+/** Anything above this reads as "unlimited" — spends chip away at maxUint256 */
+const UNLIMITED_THRESHOLD = maxUint256 / 2n
+
+function formatAllowance(a: bigint): string {
+  if (a >= UNLIMITED_THRESHOLD) return '∞ unlimited'
+  if (a === 0n) return '—'
+  return parseFloat(formatEther(a)).toFixed(4)
+}
+
+function AllowanceCell({ row, onSet }: {
+  row: TokenAllowance
+  onSet: (amount: bigint) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [amount, setAmount] = useState('')
+  const unlimited = row.allowance >= UNLIMITED_THRESHOLD
+
+  const submit = () => {
+    try {
+      onSet(parseEther(amount || '0'))
+      setEditing(false)
+      setAmount('')
+    } catch { /* invalid number — keep editing */ }
+  }
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      {editing ? (
+        <>
+          <input
+            type="number"
+            min={0}
+            autoFocus
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') submit(); if (e.key === 'Escape') setEditing(false) }}
+            className="w-24 rounded-sm px-2 py-0.5 text-[11px] focus:outline-none"
+            style={{ background: '#1a1d2e', border: '1px solid #22d3ee', color: '#d0d0d0' }}
+          />
+          <button onClick={submit} className="text-cyan-400 hover:text-white cursor-pointer">set</button>
+          <button onClick={() => setEditing(false)} className="text-gray-500 hover:text-white cursor-pointer">✕</button>
+        </>
+      ) : (
+        <>
+          <span className={unlimited ? 'text-amber-400 font-bold' : row.allowance > 0n ? 'text-cyan-400' : 'text-gray-600'}>
+            {formatAllowance(row.allowance)}
+          </span>
+          <button onClick={() => setEditing(true)} className="text-gray-500 hover:text-cyan-400 cursor-pointer">edit</button>
+          {row.allowance > 0n && (
+            <button onClick={() => onSet(0n)} className="text-red-400 hover:text-red-300 cursor-pointer">revoke</button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function AllowancesPage() {
+  const whirlpool = useWhirlpool()
+  const [settings, updateSettings] = useSettings()
+  const { data: allowances = [], isLoading, error } = useAllowances()
+  const [activeOnly, setActiveOnly] = useState(true)
+  const [search, setSearch] = useState('')
+
+  const labelOf = (key: string) => {
+    if (key === 'waves') return { symbol: 'WAVES', name: 'Waves' }
+    if (key === 'weth') return { symbol: 'WETH', name: 'Wrapped Ether' }
+    const card = whirlpool.cards.find(c => `card-${c.id}` === key)
+    return { symbol: card?.symbol ?? key, name: card?.name ?? `Card #${key.replace('card-', '')}` }
+  }
+
+  // One row per token, SurfSwap + Whirlpool side by side
+  const rows = useMemo(() => {
+    const byToken = new Map<string, { key: string; surf?: TokenAllowance; pool?: TokenAllowance }>()
+    for (const a of allowances) {
+      const row = byToken.get(a.key) ?? { key: a.key }
+      if (a.spender === 'SURFSWAP') row.surf = a
+      else row.pool = a
+      byToken.set(a.key, row)
+    }
+    return [...byToken.values()]
+  }, [allowances])
+
+  const active = allowances.filter(a => a.allowance > 0n)
+  const unlimited = active.filter(a => a.allowance >= UNLIMITED_THRESHOLD)
+
+  const visible = rows.filter(r => {
+    if (activeOnly && !((r.surf?.allowance ?? 0n) > 0n || (r.pool?.allowance ?? 0n) > 0n)) return false
+    if (!search) return true
+    const { symbol, name } = labelOf(r.key)
+    const q = search.toLowerCase()
+    return symbol.toLowerCase().includes(q) || name.toLowerCase().includes(q)
+  })
+
+  const revokeAllUnlimited = async () => {
+    for (const a of unlimited) await whirlpool.setAllowance(a.token, a.spender, 0n)
+  }
+
+  const panel = { background: 'linear-gradient(180deg, #2a2d3a 0%, #1a1d2e 40%, #22252f 100%)', boxShadow: '0 4px 20px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.05)' }
+
+  return (
+    <div className="max-w-4xl mx-auto px-6" style={{ marginTop: 60, paddingTop: 24, minHeight: '100dvh' }}>
+      <div className="border-2 border-[#3a3d4a] rounded p-5 font-mono text-[11px]" style={panel}>
+        <h2 className="text-lg font-black tracking-wider mb-4 pb-2 border-b-2 border-[#3a3d4a] uppercase" style={{ fontFamily: "'Cinzel', serif", color: '#c8a55a', textShadow: '0 1px 3px rgba(0,0,0,0.6)', letterSpacing: '0.12em' }}>
+          Allowances
+        </h2>
+
+        {/* Approval mode + summary */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">New approvals</span>
+            {(['exact', 'unlimited'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => updateSettings({ approvalMode: mode })}
+                className={`px-2.5 py-1 rounded-sm uppercase tracking-wider cursor-pointer ${
+                  settings.approvalMode === mode ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="text-gray-500">Active <span className="text-cyan-400">{active.length}</span></span>
+            <span className="text-gray-500">Unlimited <span className="text-amber-400">{unlimited.length}</span></span>
+            <button
+              onClick={revokeAllUnlimited}
+              disabled={unlimited.length === 0 || unlimited.some(a => whirlpool.isBusy(actionKeys.allowance(a.token, a.spender)))}
+              className={`px-3 py-1 rounded-sm uppercase tracking-wider ${
+                unlimited.length > 0 ? 'bg-red-600/80 hover:bg-red-600 text-white cursor-pointer' : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+              }`}
+            >
+              Revoke all unlimited
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mb-3">
+          <input
+            type="text"
+            placeholder="Search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="flex-1 rounded-sm px-3 py-2 text-sm placeholder-gray-500 focus:outline-none"
+            style={{ background: '#1a1d2e', border: '1px solid #4a4d5a', color: '#d0d0d0' }}
+          />
+          <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+            <input type="checkbox" checked={activeOnly} onChange={e => setActiveOnly(e.target.checked)} />
+            active only
+          </label>
+        </div>
+
+        {/* Table */}
+        <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-1.5 items-center">
+          <span className="text-gray-500 uppercase tracking-wider text-[10px]">Token</span>
+          <span className="text-gray-500 uppercase tracking-wider text-[10px] text-right">SurfSwap</span>
+          <span className="text-gray-500 uppercase tracking-wider text-[10px] text-right">Whirlpool</span>
+          {visible.map(r => {
+            const { symbol, name } = labelOf(r.key)
+            return (
+              <div key={r.key} className="contents">
+                <span className="text-white truncate">{symbol} <span className="text-gray-500">· {name}</span></span>
+                {[r.surf, r.pool].map((a, i) => a ? (
+                  <AllowanceCell
+                    key={i}
+                    row={a}
+                    onSet={amount => whirlpool.setAllowance(a.token, a.spender, amount)}
+                  />
+                ) : <span key={i} />)}
+              </div>
+            )
+          })}
+        </div>
+
+        {!whirlpool.isConnected ? (
+          <p className="text-gray-500 text-center py-10">Connect wallet to see your allowances</p>
+        ) : isLoading ? (
+          <p className="text-gray-500 text-center py-10">Reading allowances…</p>
+        ) : error ? (
+          <p className="text-red-400 text-center py-10">{(error as Error).message}</p>
+        ) : visible.length === 0 && (
+          <p className="text-gray-500 text-center py-10">{activeOnly ? 'No active allowances 🎉' : 'No tokens match your search'}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { act, fireEvent, screen, waitFor } from '@testing-library/react'
+import { parseEther } from 'viem'
+import StakingDashboard, { getRiskPct, parseMargin, rewardSources } from './StakingDashboard'
+import { MockChain } from '../sdk/MockChain'
+import { chainClient, mockSession, renderWithChain } from '../test/renderWithChain'
+import { DEFAULT_SETTINGS, updateSettings } from '../hooks/useSettings'
+
+describe('getRiskPct', () => {
+  it('is zero without a runner-up', () => {
+    expect(getRiskPct(100, 0)).toBe(0)
+    expect(getRiskPct(0, 0)).toBe(0)
+  })
+
+  it("is the runner-up's stake against the owner's", () => {
+    expect(getRiskPct(100, 50)).toBe(0.5)
+    expect(getRiskPct(100, 90)).toBe(0.9)
+  })
+
+  it('stays within 0..1, full once the runner-up ties', () => {
+    expect(getRiskPct(100, 100)).toBe(1)
+    expect(getRiskPct(0, 50)).toBe(1)
+  })
+})
+
+describe('rewardSources', () => {
+  it('sums the card pools and splits the total by what each source actually holds', () => {
+    expect(rewardSources([1, 2, 0], 1)).toEqual([
+      expect.objectContaining({ label: 'Card Pools', value: 3, pct: 75 }),
+      expect.objectContaining({ label: 'ETH Staking Pool', value: 1, pct: 25 }),
+    ])
+  })
+
+  it('shows no share while nothing is pending', () => {
+    expect(rewardSources([], 0).map(s => s.pct)).toEqual([0, 0])
+  })
+})
+
+describe('parseMargin', () => {
+  it('reads decimal strings exactly', () => {
+    expect(parseMargin('1000')).toBe(parseEther('1000'))
+    expect(parseMargin('0.0000001')).toBe(parseEther('0.0000001'))
+    expect(parseMargin('')).toBe(0n)
+  })
+
+  it('falls back to the default for values parseEther would throw on', () => {
+    expect(parseMargin(1e-7)).toBe(parseEther('0.0000001'))
+    expect(parseMargin(1e21)).toBe(parseEther('1000'))
+    expect(parseMargin('1e+21')).toBe(parseEther('1000'))
+    expect(parseMargin(-5)).toBe(parseEther('1000'))
+    expect(parseMargin(null)).toBe(parseEther('1000'))
+  })
+})
+
+/**
+ * Alpha: owner 100, two challengers hold 90 each (at risk)
+ * Beta:  owner 100 of 100
+ * Gamma: owner 100 of 150, challenger holds 50
+ */
+async function arena(accountIndex = 1) {
+  const chain = new MockChain({ protocol: { creatorStake: parseEther('100') } })
+  const [owner, challenger, staker] = chain.accounts
+  chain.fund(challenger, { waves: parseEther('1000') })
+  chain.fund(staker, { waves: parseEther('1000') })
+
+  await chainClient(chain, owner).createCard('Alpha Eagle', 'ALPHA')
+  await chainClient(chain, owner).createCard('Beta Beast', 'BETA')
+  await chainClient(chain, staker).createCard('Gamma Forest', 'GAMMA')
+  for (const [account, card, amount] of [[challenger, 0, '90'], [staker, 0, '90'], [challenger, 2, '50']] as const) {
+    const client = chainClient(chain, account)
+    await client.swap('waves', `card-${card}`, parseEther('100'), 0n, 'wallet')
+    await client.stake(card, parseEther(amount))
+  }
+  return mockSession({ chain, accountIndex })
+}
+
+const cardOrder = () => screen.getAllByRole('img').map(img => img.getAttribute('alt'))
+
+describe('StakingDashboard', () => {
+  it('sorts by name, then by total staked', async () => {
+    renderWithChain(<StakingDashboard />, await arena())
+    await waitFor(() => expect(cardOrder()).toEqual(['Alpha Eagle', 'Beta Beast', 'Gamma Forest']))
+
+    fireEvent.click(screen.getByRole('button', { name: '↓ Staked' }))
+    await waitFor(() => expect(cardOrder()).toEqual(['Alpha Eagle', 'Gamma Forest', 'Beta Beast']))
+
+    fireEvent.click(screen.getByRole('button', { name: 'A→Z' }))
+    expect(cardOrder()).toEqual(['Alpha Eagle', 'Beta Beast', 'Gamma Forest'])
+  })
+
+  it('filters to the cards the account stakes in', async () => {
+    renderWithChain(<StakingDashboard />, await arena())
+    await screen.findByAltText('Gamma Forest')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mine' }))
+    await waitFor(() => expect(cardOrder()).toEqual(['Alpha Eagle', 'Gamma Forest']))
+
+    fireEvent.click(screen.getByRole('button', { name: 'All' }))
+    expect(cardOrder()).toHaveLength(3)
+  })
+
+  it('filters to cards whose runner-up holds the alert threshold of the owner stake', async () => {
+    renderWithChain(<StakingDashboard />, await arena())
+    await screen.findByAltText('Gamma Forest')
+
+    fireEvent.click(screen.getByRole('button', { name: 'At Risk' }))
+    await waitFor(() => expect(cardOrder()).toEqual(['Alpha Eagle']))
+
+    try {
+      act(() => updateSettings({ alertRiskThreshold: 0.5 }))
+      expect(cardOrder()).toEqual(['Alpha Eagle', 'Gamma Forest'])
+    } finally {
+      updateSettings(DEFAULT_SETTINGS)
+    }
+  })
+
+  it("shows an owner's lead and prices defending it", async () => {
+    renderWithChain(<StakingDashboard />, await arena(0))
+    expect(await screen.findByText('🛡 +10.00')).toBeTruthy()
+    expect(screen.getByText('🛡 +100.00')).toBeTruthy()
+
+    fireEvent.click(screen.getByAltText('Alpha Eagle'))
+    const defend = await screen.findByRole('button', { name: /Defend · 2 steps/ })
+    expect(screen.getByText(/WAVES cost/)).toBeTruthy()
+    // The owner holds no WAVES to buy the top-up with
+    expect((defend as HTMLButtonElement).disabled).toBe(true)
+  })
+
+  it('narrows by search text', async () => {
+    renderWithChain(<StakingDashboard />, await arena())
+    await screen.findByAltText('Gamma Forest')
+
+    fireEvent.change(screen.getByPlaceholderText('Search...'), { target: { value: 'bEtA' } })
+    expect(cardOrder()).toEqual(['Beta Beast'])
+  })
+})
@@ -3,23 +3,39 @@
  *
  * Displays a grid of card NFTs with ownership/staking data.
  * Each card shows its image, owner badge, risk meter, and top-4 holders on click.
+ * Risk is the runner-up's stake against the owner's; on cards you own, a
+ * shield shows your lead and the details panel prices a flip and offers Defend.
  * Features:
  *   - Stats row: total cards, total staked, your stakes, pending rewards
- *   - Rewards breakdown panel (card pool fees, ETH pool, ownership bonuses)
+ *   - Rewards breakdown panel (card pools vs ETH pool, from pending rewards)
+ *   - Per-card pending rewards; Claim All previews the cards above the dust
+ *     threshold setting with total reward vs estimated gas before sending
  *   - Filter/sort: All | Mine | Top | At Risk + A→Z | ↓Staked
- *   - Per-card: click to reveal ranked holder list + stake/unstake actions
+ *   - Per-card: click to reveal ranked holder list, stake/unstake actions
+ *     and the card's ownership history timeline
  *   - SurfSwap icon navigates to swap page via onNavigateSwap callback
+ *   - Alerts panel: browser notifications, sound, risk threshold and muted
+ *     cards for the ownership alerts; owned cards mute one by one
  *
  * Theme: "open air" layout on 4chan blue board bg (#D6DAF0)
  *   - Dark text for legibility on light background
  *   - Gold accents (#8a6d2b), DM Mono + Cinzel fonts
  *   - No containing boxes — floating stats, pill filters, clean cards
  *
- * Wired to useWhirlpool hook for live Anvil data.
+ * Wired to useWhirlpool hook for live Anvil data; holder lists and totals come
+ * from the event-sourced holder index (Staked / Unstaked / OwnerChanged).
  */
 import { useState, useMemo } from 'react'
+import { formatEther, parseEther } from 'viem'
+import type { Address } from 'viem'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useWhirlpool } from '../hooks/useWhirlpool'
+import { actionKeys, useWhirlpool, useOwnershipHistory, useClaimGas, useDefensePlan, useWethBoost } from '../hooks/useWhirlpool'
+import { DEFAULT_SETTINGS, useSettings } from '../hooks/useSettings'
+import { cardMuteKey, requestNotificationPermission } from '../hooks/ownershipAlerts'
+import { WhirlpoolRevertError } from '../sdk/errors'
+import { cardPool } from '../sdk/amm'
+import { flipCost, ownershipMargin } from '../sdk/defense'
+import OwnershipTimeline from '../components/OwnershipTimeline'
 
 /** Segment colors for donut charts and holder indicators */
 const COLORS = ['#0ea5e9', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#f59e0b', '#06b6d4']
@@ -44,13 +60,283 @@ function shortAddr(addr: string): string {
   return `${addr.slice(0, 6)}…${addr.slice(-4)}`
 }
 
+/** Subscribes to one card's history only while its details panel is open */
+function CardOwnershipHistory({ cardId, you }: { cardId: number; you?: string }) {
+  const history = useOwnershipHistory(cardId)
+  return <OwnershipTimeline history={history} you={you} />
+}
+
+/** Plain decimal with at most 18 fractional digits — what parseEther accepts */
+const MARGIN_PATTERN = /^\d*\.?\d{0,18}$/
+
+/**
+ * Target lead setting in wei. Anything parseEther can't take (a stale numeric
+ * setting like 1e-7, a hand-edited value) falls back to the default.
+ */
+export function parseMargin(value: unknown): bigint {
+  const text = typeof value === 'string' ? value : typeof value === 'number' ? value.toFixed(18) : null
+  return text !== null && MARGIN_PATTERN.test(text) && text.length <= 40 ? parseEther(text) : parseEther(DEFAULT_SETTINGS.defenseMargin)
+}
+
+/** Owner's defense for one card: lead over the runner-up, the flip cost, and a top-up to the margin setting */
+function DefensePanel({ cardId, challenger }: { cardId: number; challenger: Address | null }) {
+  const whirlpool = useWhirlpool()
+  const [settings, updateSettings] = useSettings()
+  const plan = useDefensePlan(cardId, challenger, parseMargin(settings.defenseMargin))
+  const mono = { fontFamily: "'DM Mono', monospace" }
+  const amount = (wei: bigint) => parseFloat(formatEther(wei)).toFixed(2)
+  const row = { display: 'flex', justifyContent: 'space-between', padding: '2px 0' }
+
+  if (plan.error) return <p style={{ ...mono, fontSize: 11, color: '#ef4444' }}>{(plan.error as Error).message}</p>
+  if (!plan.data) return null
+  const { margin, needed, steps, wavesCost, affordable, flipCost: cost, flipCostAfter } = plan.data
+  const canDefend = needed > 0n && affordable && !whirlpool.isBusy(actionKeys.defend(cardId))
+
+  return (
+    <div onClick={e => e.stopPropagation()} style={{ ...mono, fontSize: 11, color: '#4a4d5a', margin: '12px 0 0' }}>
+      <div style={row}>
+        <span>Lead{challenger ? ` over ${shortAddr(challenger)}` : ''}</span>
+        <b style={{ color: '#2a2d3a' }}>{challenger ? amount(margin) : 'unchallenged'}</b>
+      </div>
+      <div style={row}>
+        <span>Flip cost</span>
+        <b style={{ color: '#8a6d2b' }}>{cost === null ? 'more than the pool holds' : `${amount(cost)} WAVES`}</b>
+      </div>
+      <label style={{ ...row, alignItems: 'center' }}>
+        Target lead
+        <input
+          type="text"
+          inputMode="decimal"
+          value={settings.defenseMargin}
+          onChange={e => { if (MARGIN_PATTERN.test(e.target.value)) updateSettings({ defenseMargin: e.target.value }) }}
+          style={{ ...mono, width: 80, fontSize: 11, textAlign: 'right', background: 'transparent', border: 'none', borderBottom: '1px solid #3a3d4a', color: '#1a1d2e', outline: 'none' }}
+        />
+      </label>
+      {needed === 0n ? (
+        <p style={{ margin: '6px 0 0', color: '#10b981' }}>Lead is at or above target</p>
+      ) : (
+        <>
+          {steps.map((step, i) => (
+            <div key={i} style={row}>
+              <span>
+                {i + 1}. {step.kind === 'buy' ? `buy ${amount(step.amountOut)} for ${amount(step.wavesIn)} WAVES` : `stake ${amount(step.amount)}`}
+              </span>
+              {step.kind === 'buy' && <span>{(step.priceImpact * 100).toFixed(2)}%</span>}
+            </div>
+          ))}
+          {wavesCost > 0n && (
+            <div style={row}>
+              <span>WAVES cost</span>
+              <b style={{ color: affordable ? '#2a2d3a' : '#ef4444' }}>
+                {amount(wavesCost)}{!affordable && ` (you have ${parseFloat(whirlpool.wavesBalance).toFixed(2)})`}
+              </b>
+            </div>
+          )}
+          <div style={row}>
+            <span>Flip cost after</span>
+            <b style={{ color: '#8a6d2b' }}>{flipCostAfter === null ? 'more than the pool holds' : `${amount(flipCostAfter)} WAVES`}</b>
+          </div>
+          <button
+            disabled={!canDefend}
+            onClick={() => whirlpool.defend(plan.data)}
+            style={{
+              fontFamily: "'Cinzel', serif", fontSize: 11, fontWeight: 700, width: '100%', marginTop: 8, padding: '6px 0',
+              border: 'none', borderRadius: 2,
+              color: canDefend ? '#1a1d2e' : '#6b7280',
+              background: canDefend ? 'linear-gradient(135deg, #c8a55a, #e8c56a)' : 'rgba(58,61,74,0.15)',
+              cursor: canDefend ? 'pointer' : 'not-allowed',
+            }}
+          >
+            🛡 Defend · {steps.length} step{steps.length === 1 ? '' : 's'}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+/** Ownership alert settings: browser notifications, sound, risk threshold and muted cards */
+function AlertSettings({ chainId, cardName, onUnmute }: {
+  chainId: number
+  cardName: (cardId: number) => string
+  onUnmute: (cardId: number) => void
+}) {
+  const [settings, updateSettings] = useSettings()
+  const [permission, setPermission] = useState(() => typeof Notification === 'undefined' ? 'unsupported' : Notification.permission)
+  const muted = settings.mutedCards.filter(key => key.startsWith(`${chainId}:`)).map(key => Number(key.split(':')[1]))
+  const mono = { fontFamily: "'DM Mono', monospace" }
+  const row = { ...mono, fontSize: 12, color: '#2a2d3a', display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0' }
+
+  const toggleNotifications = async (on: boolean) => {
+    if (on) {
+      const result = await requestNotificationPermission()
+      setPermission(result)
+      if (result !== 'granted') return
+    }
+    updateSettings({ alertNotifications: on })
+  }
+
+  return (
+    <div style={{ padding: '20px 0', borderTop: '1px solid rgba(200,165,90,0.15)', borderBottom: '1px solid rgba(200,165,90,0.15)' }}>
+      <h3 style={{ fontFamily: "'Cinzel', serif", fontSize: 14, color: '#8a6d2b', margin: '0 0 12px' }}>
+        Ownership Alerts
+      </h3>
+      <p style={{ ...mono, fontSize: 11, color: '#4a4d5a', margin: '0 0 8px' }}>
+        A toast whenever a card of yours is taken, you take one, or a runner-up closes in.
+      </p>
+      <label style={row}>
+        <input
+          type="checkbox"
+          checked={settings.alertNotifications && permission === 'granted'}
+          disabled={permission === 'denied' || permission === 'unsupported'}
+          onChange={e => toggleNotifications(e.target.checked)}
+        />
+        Browser notifications
+        {(permission === 'denied' || permission === 'unsupported') && (
+          <span style={{ fontSize: 11, color: '#ef4444' }}>{permission === 'denied' ? 'blocked in browser settings' : 'not supported here'}</span>
+        )}
+      </label>
+      <label style={row}>
+        <input type="checkbox" checked={settings.alertSound} onChange={e => updateSettings({ alertSound: e.target.checked })} />
+        Sound
+      </label>
+      <label style={row}>
+        Warn when a runner-up holds
+        <input
+          type="number"
+          min={1}
+          max={100}
+          step={5}
+          value={Math.round(settings.alertRiskThreshold * 100)}
+          onChange={e => updateSettings({ alertRiskThreshold: Math.min(1, Math.max(0.01, (parseFloat(e.target.value) || 0) / 100)) })}
+          style={{ ...mono, width: 48, fontSize: 12, background: 'transparent', border: 'none', borderBottom: '1px solid #3a3d4a', color: '#1a1d2e', outline: 'none' }}
+        />
+        % of your stake
+      </label>
+      {muted.length > 0 && (
+        <div style={{ ...mono, fontSize: 11, color: '#4a4d5a', display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center', marginTop: 6 }}>
+          Muted:
+          {muted.map(cardId => (
+            <button
+              key={cardId}
+              onClick={() => onUnmute(cardId)}
+              title="Unmute"
+              style={{ ...mono, fontSize: 11, padding: '2px 8px', border: '1px solid #3a3d4a', background: 'transparent', color: '#4a4d5a', cursor: 'pointer', borderRadius: 12 }}
+            >
+              🔕 {cardName(cardId)} ✕
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Claim All preview: cards above the dust threshold, total reward vs gas */
+function ClaimAllPreview({ cards, onConfirm }: {
+  cards: { id: number; name: string; pending: number }[]
+  onConfirm: (cardIds: number[]) => void
+}) {
+  const [settings, updateSettings] = useSettings()
+  const threshold = settings.claimDustThreshold
+  const eligible = cards.filter(c => c.pending > 0 && c.pending >= threshold)
+  const dust = cards.filter(c => c.pending > 0 && c.pending < threshold)
+  const totalReward = eligible.reduce((s, c) => s + c.pending, 0)
+  const gas = useClaimGas(eligible.map(c => c.id))
+  const mono = { fontFamily: "'DM Mono', monospace" }
+
+  return (
+    <div style={{ padding: '20px 0', borderTop: '1px solid rgba(200,165,90,0.15)', borderBottom: '1px solid rgba(200,165,90,0.15)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+        <h3 style={{ fontFamily: "'Cinzel', serif", fontSize: 14, color: '#8a6d2b', margin: 0 }}>
+          Claim All
+        </h3>
+        <label style={{ ...mono, fontSize: 11, color: '#4a4d5a', display: 'flex', alignItems: 'center', gap: 8 }}>
+          Skip below
+          <input
+            type="number"
+            min={0}
+            step={0.001}
+            value={threshold}
+            onChange={e => updateSettings({ claimDustThreshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+            style={{ ...mono, width: 80, fontSize: 12, background: 'transparent', border: 'none', borderBottom: '1px solid #3a3d4a', color: '#1a1d2e', outline: 'none' }}
+          />
+        </label>
+      </div>
+
+      {eligible.length === 0 ? (
+        <p style={{ ...mono, fontSize: 12, color: '#4a4d5a' }}>
+          Nothing worth claiming{dust.length > 0 ? ` — ${dust.length} card${dust.length > 1 ? 's' : ''} below the dust threshold` : ''}
+        </p>
+      ) : (
+        <>
+          {eligible.map(c => (
+            <div key={c.id} style={{ display: 'flex', justifyContent: 'space-between', padding: '6px 0', borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+              <span style={{ ...mono, fontSize: 12, fontWeight: 700, color: '#2a2d3a' }}>{c.name}</span>
+              <span style={{ ...mono, fontSize: 13, fontWeight: 800, color: '#8a6d2b' }}>+{c.pending.toFixed(4)}</span>
+            </div>
+          ))}
+          {dust.length > 0 && (
+            <p style={{ ...mono, fontSize: 11, color: '#6b7280', margin: '8px 0 0' }}>
+              Skipping {dust.length} dust card{dust.length > 1 ? 's' : ''} ({dust.reduce((s, c) => s + c.pending, 0).toFixed(6)} total)
+            </p>
+          )}
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 14, gap: 16 }}>
+            <div style={{ ...mono, fontSize: 12, color: '#4a4d5a', display: 'flex', gap: 24 }}>
+              <span>Reward <b style={{ color: '#8a6d2b' }}>+{totalReward.toFixed(4)}</b></span>
+              <span>
+                Gas{' '}
+                {gas.error ? (
+                  <b style={{ color: '#ef4444' }}>
+                    {gas.error instanceof WhirlpoolRevertError ? `would revert: ${gas.error.reason}` : gas.error.message}
+                  </b>
+                ) : gas.data ? (
+                  <b style={{ color: '#2a2d3a' }}>
+                    {(Number(gas.data.totalGas) / 1000).toFixed(1)}k · {parseFloat(formatEther(gas.data.totalFee)).toFixed(6)} ETH
+                  </b>
+                ) : 'estimating…'}
+                {' '}· {eligible.length} tx{eligible.length > 1 ? 's' : ''}
+              </span>
+            </div>
+            <button
+              onClick={() => onConfirm(eligible.map(c => c.id))}
+              style={{
+                fontFamily: "'Cinzel', serif", fontSize: 12, fontWeight: 700, color: '#1a1d2e',
+                background: 'linear-gradient(135deg, #c8a55a, #e8c56a)', border: 'none', padding: '8px 20px',
+                borderRadius: 2, cursor: 'pointer', boxShadow: '0 2px 10px rgba(200,165,90,0.25)',
+              }}
+            >
+              Claim {eligible.length} card{eligible.length > 1 ? 's' : ''}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
 type SortKey = 'name' | 'total'
 type FilterKey = 'all' | 'myStakes' | 'topHolders' | 'risk'
 
-function getRiskPct(ownerStake: number, total: number) {
-  if (total <= 0 || ownerStake <= 0) return 0
-  const margin = ownerStake / total
-  return Math.max(0, Math.min(1, 1 - margin))
+/** How exposed an owner is: the runner-up's stake over theirs — 0 unchallenged, 1 once it ties */
+export function getRiskPct(ownerStake: number, runnerUpStake: number) {
+  if (runnerUpStake <= 0) return 0
+  if (ownerStake <= runnerUpStake) return 1
+  return runnerUpStake / ownerStake
+}
+
+/**
+ * Where pending rewards come from: the card pools (each card's pendingRewards)
+ * and the ETH staking pool (pendingGlobalRewards), each as a share of the sum
+ */
+export function rewardSources(cardPending: number[], ethPending: number) {
+  const cardPools = cardPending.reduce((s, p) => s + p, 0)
+  const total = cardPools + ethPending
+  const pct = (value: number) => (total > 0 ? (value / total) * 100 : 0)
+  return [
+    { label: 'Card Pools', value: cardPools, pct: pct(cardPools), color: '#0ea5e9' },
+    { label: 'ETH Staking Pool', value: ethPending, pct: pct(ethPending), color: '#8b5cf6' },
+  ]
 }
 
 export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?: () => void }) {
@@ -60,29 +346,45 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
   const [sort, setSort] = useState<SortKey>('name')
   const [selectedCard, setSelectedCard] = useState<string | null>(null)
   const [rewardsOpen, setRewardsOpen] = useState(false)
+  const [claimOpen, setClaimOpen] = useState(false)
+  const [alertsOpen, setAlertsOpen] = useState(false)
+  const [settings] = useSettings()
+  const wethBoost = useWethBoost()
 
   // Derived data
   const cardData = useMemo(() => whirlpool.cards.map(c => {
-    const total = parseFloat(c.cardReserve) || 0
+    const me = whirlpool.address?.toLowerCase()
+    const owner = c.owner.toLowerCase()
+    const stakers = (whirlpool.holders.get(c.id) ?? []).map((h, i) => ({
+      label: shortAddr(h.address),
+      value: parseFloat(formatEther(h.stake)),
+      color: COLORS[i % COLORS.length],
+      isYou: h.address === me,
+      isOwner: h.address === owner,
+    }))
+    const total = stakers.reduce((s, h) => s + h.value, 0)
     const myStake = parseFloat(c.myStake) || 0
-    const isYou = myStake > 0
-    const stakers = [
-      { label: shortAddr(c.owner), value: total, color: COLORS[0], isYou: c.owner.toLowerCase() === whirlpool.address?.toLowerCase() },
-    ]
-    if (isYou && c.owner.toLowerCase() !== whirlpool.address?.toLowerCase()) {
-      stakers.push({ label: shortAddr(whirlpool.address || ''), value: myStake, color: COLORS[1], isYou: true })
-    }
+    // Ranked, so the first holder who isn't the owner is the one who could flip it
+    const challenger = (whirlpool.holders.get(c.id) ?? []).find(h => h.address !== owner) ?? null
+    const ownerStake = parseEther(c.ownerStake)
     return {
       name: c.name,
       id: c.id,
       uri: c.uri,
       stakers,
       total,
+      ownerStake: parseFloat(c.ownerStake) || 0,
+      runnerUpStake: challenger ? parseFloat(formatEther(challenger.stake)) : 0,
+      challenger: challenger?.address ?? null,
+      margin: ownershipMargin(ownerStake, challenger?.stake ?? 0n),
+      flipCost: flipCost(ownerStake, challenger?.stake ?? 0n, cardPool(c)),
+      isMine: owner === me,
       myStake,
-      hasYou: isYou,
+      pending: parseFloat(c.pendingRewards) || 0,
+      hasYou: myStake > 0,
       owner: c.owner,
     }
-  }), [whirlpool.cards, whirlpool.address])
+  }), [whirlpool.cards, whirlpool.holders, whirlpool.address])
 
   const totalStaked = useMemo(() => cardData.reduce((s, c) => s + c.total, 0), [cardData])
   const yourStakes = useMemo(() => cardData.reduce((s, c) => s + c.myStake, 0), [cardData])
@@ -91,31 +393,26 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
   const cards = useMemo(() => {
     let result = cardData.filter(c => c.name.toLowerCase().includes(search.toLowerCase()))
     if (filter === 'myStakes') result = result.filter(c => c.hasYou)
-    if (filter === 'risk') result = result.filter(c => getRiskPct(c.stakers[0]?.value || 0, c.total) > 0.6)
+    // Same threshold as the ownership alerts
+    if (filter === 'risk') result = result.filter(c => getRiskPct(c.ownerStake, c.runnerUpStake) >= settings.alertRiskThreshold)
     if (sort === 'name') result.sort((a, b) => a.name.localeCompare(b.name))
     else result.sort((a, b) => b.total - a.total)
     return result
-  }, [search, sort, filter, cardData])
+  }, [search, sort, filter, cardData, settings.alertRiskThreshold])
 
-  // Reward breakdown (estimated from pending)
+  // Reward breakdown: card pools from each card's pending rewards, the ETH pool from pendingGlobal
   const pendingNum = parseFloat(pendingRewards) || 0
   const rewardBreakdown = {
-    total: pendingNum,
-    cardPools: pendingNum * 0.7,
-    ethPool: pendingNum * 0.2,
-    bonuses: pendingNum * 0.1,
-    cards: cardData.filter(c => c.hasYou).map(c => ({
+    sources: rewardSources(cardData.map(c => c.pending), pendingNum),
+    cards: cardData.filter(c => c.hasYou || c.pending > 0).map(c => ({
       name: c.name,
-      reward: c.total > 0 ? (c.myStake / c.total) * pendingNum * 0.7 : 0,
+      reward: c.pending,
     })),
   }
 
-  const handleClaimAll = async () => {
-    for (const c of whirlpool.cards) {
-      if (parseFloat(c.myStake) > 0) {
-        await whirlpool.claimRewards(c.id)
-      }
-    }
+  const handleClaimAll = async (cardIds: number[]) => {
+    setClaimOpen(false)
+    for (const id of cardIds) await whirlpool.claimRewards(id)
   }
 
   const handleStake = async (cardId: number, e: React.MouseEvent) => {
@@ -196,6 +493,21 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
 
         {/* Claim + breakdown toggle */}
         <div style={{ marginLeft: 'auto', display: 'flex', gap: 8, alignItems: 'center' }}>
+          <button
+            onClick={() => setAlertsOpen(!alertsOpen)}
+            style={{
+              fontFamily: "'DM Mono', monospace",
+              fontSize: 11,
+              padding: '6px 14px',
+              border: '1px solid rgba(200,165,90,0.3)',
+              background: 'transparent',
+              color: '#8a6d2b',
+              cursor: 'pointer',
+              borderRadius: 2,
+            }}
+          >
+            {alertsOpen ? '✕ Close' : '🔔 Alerts'}
+          </button>
           <button
             onClick={() => setRewardsOpen(!rewardsOpen)}
             style={{
@@ -212,7 +524,7 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
             {rewardsOpen ? '✕ Close' : '📊 Breakdown'}
           </button>
           <button
-            onClick={handleClaimAll}
+            onClick={() => setClaimOpen(!claimOpen)}
             style={{
               fontFamily: "'Cinzel', serif",
               fontSize: 12,
@@ -226,11 +538,45 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
               boxShadow: '0 2px 10px rgba(200,165,90,0.25)',
             }}
           >
-            ⚡ Claim All
+            {claimOpen ? '✕ Claim All' : '⚡ Claim All'}
           </button>
         </div>
       </div>
 
+      {/* ── Claim All preview (slides open) ── */}
+      <AnimatePresence>
+        {claimOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            style={{ overflow: 'hidden', marginBottom: 24 }}
+          >
+            <ClaimAllPreview cards={cardData} onConfirm={handleClaimAll} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* ── Ownership alert settings (slides open) ── */}
+      <AnimatePresence>
+        {alertsOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            style={{ overflow: 'hidden', marginBottom: 24 }}
+          >
+            <AlertSettings
+              chainId={whirlpool.network.id}
+              cardName={id => whirlpool.cards.find(c => c.id === id)?.name ?? `Card #${id}`}
+              onUnmute={id => whirlpool.muteCard(id, false)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* ── Rewards Breakdown Panel (slides open) ── */}
       <AnimatePresence>
         {rewardsOpen && (
@@ -259,11 +605,7 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                 }}>
                   Reward Sources
                 </h3>
-                {[
-                  { label: 'Card Pool Fees', value: rewardBreakdown.cardPools, pct: 70, color: '#0ea5e9' },
-                  { label: 'ETH Staking Pool', value: rewardBreakdown.ethPool, pct: 20, color: '#8b5cf6' },
-                  { label: 'Ownership Bonuses', value: rewardBreakdown.bonuses, pct: 10, color: '#f97316' },
-                ].map(src => (
+                {rewardBreakdown.sources.map(src => (
                   <div key={src.label} style={{ marginBottom: 14 }}>
                     <div style={{
                       display: 'flex',
@@ -282,7 +624,7 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                           {src.value.toFixed(4)}
                         </span>
                         <span style={{ fontFamily: "'DM Mono', monospace", fontSize: 10, fontWeight: 700, color: '#4a4d5a' }}>
-                          {src.pct}%
+                          {src.pct.toFixed(0)}%
                         </span>
                       </div>
                     </div>
@@ -336,10 +678,10 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                   marginTop: 4,
                 }}>
                   <span style={{ fontFamily: "'DM Mono', monospace", fontSize: 11, fontWeight: 700, color: '#4a4d5a', textTransform: 'uppercase' }}>
-                    ETH Pool (1.5x boost)
+                    ETH Pool{wethBoost !== null ? ` (${wethBoost.toFixed(2)}x boost)` : ''}
                   </span>
                   <span style={{ fontFamily: "'DM Mono', monospace", fontSize: 13, color: '#8b5cf6', fontWeight: 600 }}>
-                    +{rewardBreakdown.ethPool.toFixed(4)}
+                    +{pendingNum.toFixed(4)}
                   </span>
                 </div>
               </div>
@@ -427,8 +769,8 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
         justifyItems: 'center',
       }}>
         {cards.map((card, i) => {
-          const risk = getRiskPct(card.stakers[0]?.value || 0, card.total)
-          const sorted = [...card.stakers].sort((a, b) => b.value - a.value)
+          const risk = getRiskPct(card.ownerStake, card.runnerUpStake)
+          const muted = settings.mutedCards.includes(cardMuteKey(whirlpool.network.id, card.id))
           const ownerLabel = shortAddr(card.owner)
           const hasYou = card.hasYou
           const isSelected = selectedCard === card.name
@@ -488,7 +830,7 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                         zIndex: 10,
                       }}
                     >
-                      {sorted.slice(0, 4).map((staker, si) => {
+                      {card.stakers.slice(0, 4).map((staker, si) => {
                         const pct = card.total > 0 ? ((staker.value / card.total) * 100).toFixed(1) : '0'
                         return (
                           <div key={si} style={{
@@ -521,7 +863,7 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                               flex: 1,
                               textShadow: '0 1px 2px rgba(0,0,0,0.8)',
                             }}>
-                              {staker.label}{staker.isYou ? ' (You)' : ''}{si === 0 ? ' ★' : ''}
+                              {staker.label}{staker.isYou ? ' (You)' : ''}{staker.isOwner ? ' ★' : ''}
                             </span>
                             <span style={{
                               fontFamily: "'DM Mono', monospace",
@@ -587,6 +929,35 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                         YOU
                       </span>
                     )}
+                    {card.isMine && (
+                      <span
+                        title={card.flipCost === null ? 'No challenger can buy enough to flip it' : `A challenger spends ${parseFloat(formatEther(card.flipCost)).toFixed(2)} WAVES to flip it`}
+                        style={{
+                          fontFamily: "'DM Mono', monospace",
+                          fontSize: 8,
+                          fontWeight: 800,
+                          color: '#e8d5a0',
+                          background: 'rgba(0,0,0,0.4)',
+                          padding: '1px 6px',
+                          borderRadius: 2,
+                        }}
+                      >
+                        🛡 +{parseFloat(formatEther(card.margin)).toFixed(2)}
+                      </span>
+                    )}
+                    {card.pending > 0 && (
+                      <span title="Pending rewards" style={{
+                        fontFamily: "'DM Mono', monospace",
+                        fontSize: 8,
+                        fontWeight: 800,
+                        color: '#e8c56a',
+                        background: 'rgba(0,0,0,0.4)',
+                        padding: '1px 6px',
+                        borderRadius: 2,
+                      }}>
+                        +{card.pending.toFixed(4)}
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -603,7 +974,7 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                   <div style={{
                     width: `${risk * 100}%`,
                     height: '100%',
-                    background: risk > 0.6 ? '#ef4444' : risk > 0.3 ? '#f59e0b' : '#10b981',
+                    background: risk >= settings.alertRiskThreshold ? '#ef4444' : risk >= settings.alertRiskThreshold / 2 ? '#f59e0b' : '#10b981',
                   }} />
                 </div>
               </div>
@@ -660,6 +1031,21 @@ export default function StakingDashboard({ onNavigateSwap }: { onNavigateSwap?:
                         Unstake
                       </button>
                     </div>
+
+                    {card.isMine && <DefensePanel cardId={card.id} challenger={card.challenger} />}
+                    {card.isMine && (
+                      <button
+                        onClick={e => { e.stopPropagation(); whirlpool.muteCard(card.id, !muted) }}
+                        style={{
+                          fontFamily: "'DM Mono', monospace", fontSize: 10, marginTop: 8, padding: 0,
+                          border: 'none', background: 'transparent', color: '#4a4d5a', cursor: 'pointer',
+                        }}
+                      >
+                        {muted ? '🔕 Alerts muted · unmute' : '🔔 Alerts on · mute'}
+                      </button>
+                    )}
+
+                    <CardOwnershipHistory cardId={card.id} you={whirlpool.address} />
                   </motion.div>
                 )}
               </AnimatePresence>
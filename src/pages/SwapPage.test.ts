@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { formatEther, parseEther } from 'viem'
+import { estimateSwap } from './SwapPage'
+import type { PoolBook } from '../sdk/amm'
+import { quoteSwapRoute, swapRoutes } from '../sdk/router'
+
+const e = (n: number) => parseEther(String(n))
+const num = (wei: bigint) => parseFloat(formatEther(wei))
+
+// card-0 and card-1 trade at 0.1 WAVES; card-2 is a thin pool at 1 WAVES
+const pools: PoolBook = {
+  'card-0': { waves: e(90_000), tokens: e(900_000) },
+  'card-1': { waves: e(90_000), tokens: e(900_000) },
+  'card-2': { waves: e(1_000), tokens: e(1_000) },
+}
+const target = { ownerShares: 100_000, myStake: 0 }
+
+/** The staked-position routes into card-1, each quoted alone */
+const [swapStake, unstaked] = swapRoutes('card-0', 'card-1', 'staked')
+const move = (shares: number, cardId = 0) => quoteSwapRoute(e(shares), cardId === 0 ? swapStake : swapRoutes(`card-${cardId}`, 'card-1', 'staked')[0], pools)
+
+describe('estimateSwap', () => {
+  it('needs at least one plan and a target', () => {
+    expect(estimateSwap([], target)).toBeNull()
+    expect(estimateSwap([move(10)], null)).toBeNull()
+  })
+
+  it("adds up what each plan's route delivers", () => {
+    const a = move(10_000)
+    const b = quoteSwapRoute(e(500), unstaked, pools)
+    const estimate = estimateSwap([a, b], target)!
+    expect(estimate.tokensOut).toBeCloseTo(num(a.amountOut) + num(b.amountOut), 9)
+    expect(estimate.sourceCount).toBe(2)
+    expect(estimate.transactions).toBe(5)
+  })
+
+  it('prices a thin source pool well below its spot value', () => {
+    // Spot says 500 shares × 1 WAVES = 5,000 card-1; the pool pays about a third
+    const estimate = estimateSwap([move(500, 2)], target)!
+    expect(estimate.tokensOut).toBeLessThan(3_400)
+    expect(estimate.priceImpact).toBeGreaterThan(0.3)
+  })
+
+  it('flags a steal only when the target stake would exceed the owner stake', () => {
+    const plans = [move(100_000)]
+    const { tokensOut } = estimateSwap(plans, target)!
+    expect(estimateSwap(plans, { ownerShares: tokensOut + 1, myStake: 0 })?.wouldSteal).toBe(false)
+    expect(estimateSwap(plans, { ownerShares: tokensOut - 1, myStake: 0 })?.wouldSteal).toBe(true)
+    // Stake already held on the target counts toward the steal
+    expect(estimateSwap(plans, { ownerShares: tokensOut + 1, myStake: 2 })?.wouldSteal).toBe(true)
+    expect(estimateSwap(plans, { ownerShares: 0, myStake: 0, isOwner: true })?.wouldSteal).toBe(false)
+  })
+})
@@ -2,10 +2,23 @@
  *
  * Visual style from NFT Swapper mockup + ERC-1142 Whirlpool mechanics.
  * 3-column: My Inventory | Swap Stage | Market Search
+ * Token Swap panel (under the stage) routes any pair through WAVES
+ * (sdk/router.ts) with a slippage-guarded minimum per step.
+ * Gas lines are live estimates of the exact transactions each button sends,
+ * priced at the current gas price.
+ * Steal numbers come from the owner's real stake (stakeOf(card, owner)); the
+ * stage's steal plan covers the gap from the selected positions and WAVES.
  */
 
 import { useState, useMemo } from 'react'
-import { useWhirlpool } from '../hooks/useWhirlpool'
+import { formatEther, parseEther } from 'viem'
+import { actionKeys, useWhirlpool, usePlanGas, useStagePlans, useStealPlan, useSwapGas, useSwapQuote } from '../hooks/useWhirlpool'
+import { useSettings } from '../hooks/useSettings'
+import { WhirlpoolRevertError } from '../sdk/errors'
+import { hopAction, minimumReceived, routeTokens } from '../sdk/router'
+import type { CardState } from '../hooks/useWhirlpool'
+import type { SwapStakeMove } from '../hooks/whirlpoolQueries'
+import type { GasEstimate, GasStep, SwapRoute } from '../sdk/types'
 
 // ─── Types ──────────────────────────────────────────────────────
 interface CardPool {
@@ -16,11 +29,14 @@ interface CardPool {
   rarity: 'Common' | 'Rare' | 'Epic' | 'Legendary'
   type: string
   owner: string
+  /** The owner's stake — what a challenger has to outstake */
   ownerShares: number
   totalStaked: number
   priceWaves: number
   topStakers: { address: string; shares: number; percentage: number }[]
+  /** Stake the connected account would still need to add to exceed the owner */
   stealAmount: number
+  myStake: number
   userShares?: number
   userPercentage?: number
   isOwner?: boolean
@@ -60,6 +76,10 @@ function priceToRarity(price: number): 'Common' | 'Rare' | 'Epic' | 'Legendary'
   return 'Common'
 }
 
+function impactClass(impact: number): string {
+  return impact > 0.05 ? 'text-red-400 font-bold' : impact > 0.01 ? 'text-amber-400' : 'text-gray-300'
+}
+
 // ─── Inventory Card (visual, grid-style like mockup) ────────────
 function InventoryCard({
   card,
@@ -250,7 +270,9 @@ function MarketRow({
           </div>
           <div className="flex items-center justify-between mt-2">
             <span className="text-xs text-gray-500">
-              Steal: <span className="text-emerald-400 font-mono font-bold">{card.stealAmount.toFixed(2)}</span> tokens
+              {card.isOwner
+                ? <span className="text-amber-400 font-bold">Yours</span>
+                : <>Steal: <span className="text-emerald-400 font-mono font-bold">{card.stealAmount.toFixed(2)}</span> tokens</>}
             </span>
             {isTarget ? (
               <span className="px-3 py-1 rounded text-xs font-bold bg-emerald-600/30 text-emerald-400 border border-emerald-500/50">Selected</span>
@@ -271,6 +293,328 @@ function MarketRow({
   )
 }
 
+// ─── Slippage tolerance (persisted setting) ─────────────────────
+const SLIPPAGE_PRESETS = [10, 50, 100]
+
+function SlippageControl() {
+  const [settings, update] = useSettings()
+  const [custom, setCustom] = useState('')
+  const isPreset = SLIPPAGE_PRESETS.includes(settings.slippageBps)
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-gray-500">Slippage</span>
+      <div className="flex items-center gap-1">
+        {SLIPPAGE_PRESETS.map(bps => (
+          <button
+            key={bps}
+            onClick={() => { update({ slippageBps: bps }); setCustom('') }}
+            className={`px-1.5 py-0.5 rounded-sm text-[10px] cursor-pointer ${
+              settings.slippageBps === bps ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+            }`}
+          >
+            {bps / 100}%
+          </button>
+        ))}
+        <input
+          type="number"
+          min={0}
+          max={50}
+          step={0.1}
+          placeholder={isPreset ? 'custom' : String(settings.slippageBps / 100)}
+          value={custom}
+          onChange={e => {
+            setCustom(e.target.value)
+            const pct = parseFloat(e.target.value)
+            if (pct >= 0 && pct <= 50) update({ slippageBps: Math.round(pct * 100) })
+          }}
+          className="w-14 rounded-sm px-1.5 py-0.5 text-[10px] focus:outline-none"
+          style={{ background: '#1a1d2e', border: `1px solid ${isPreset ? '#4a4d5a' : '#22d3ee'}`, color: '#d0d0d0' }}
+        />
+        <span className="text-gray-500 text-[10px]">%</span>
+      </div>
+    </div>
+  )
+}
+
+// ─── Gas estimate (per step + total) ────────────────────────────
+function formatGas(gas: bigint): string {
+  return gas >= 1000n ? `${(Number(gas) / 1000).toFixed(1)}k` : gas.toString()
+}
+
+function formatFee(wei: bigint): string {
+  return parseFloat(formatEther(wei)).toFixed(6)
+}
+
+/** Live gas for the planned transactions; `labels[i]` names step i (defaults to its function) */
+function GasBreakdown({ estimate, isLoading, error, labels = [] }: {
+  estimate?: GasEstimate
+  isLoading: boolean
+  error: Error | null
+  labels?: string[]
+}) {
+  if (error) {
+    const reason = error instanceof WhirlpoolRevertError ? `would revert: ${error.reason}` : error.message
+    return <p className="text-red-400 text-[10px] text-center font-mono">Est. Gas: {reason}</p>
+  }
+  if (!estimate) {
+    return (
+      <p className="text-gray-400 text-xs text-center">
+        Est. Gas: <span className="text-gray-500 font-mono">{isLoading ? 'estimating…' : '—'}</span>
+      </p>
+    )
+  }
+  const approximate = estimate.steps.some(s => !s.exact)
+  return (
+    <div className="text-[11px] font-mono space-y-0.5">
+      {estimate.steps.length > 1 && estimate.steps.map((step, i) => (
+        <div key={i} className="flex justify-between text-gray-500">
+          <span>{i + 1}. {labels[i] ?? step.action}</span>
+          <span>
+            {step.exact ? '' : '~'}{formatGas(step.gas)} · {formatFee(step.gas * estimate.gasPrice)} ETH
+          </span>
+        </div>
+      ))}
+      <p className="text-gray-400 text-xs text-center pt-0.5">
+        Est. Gas: <span className="text-cyan-400">
+          {approximate ? '~' : ''}{formatGas(estimate.totalGas)} gas (~{formatFee(estimate.totalFee)} ETH)
+        </span>
+        {estimate.steps.length > 1 && <span className="text-gray-500"> · {estimate.steps.length} txs</span>}
+      </p>
+    </div>
+  )
+}
+
+// ─── Token Swap (routed through WAVES, min-out guard per step) ──
+function tokenLabel(key: string, cards: CardState[]): string {
+  if (key === 'eth') return 'ETH'
+  if (key === 'waves') return 'WAVES'
+  if (key === 'weth') return 'WETH'
+  const card = cards.find(c => `card-${c.id}` === key)
+  return card ? card.symbol : key
+}
+
+function TokenSwapPanel({ initialIn = 'weth', initialOut = 'waves' }: { initialIn?: string; initialOut?: string }) {
+  const whirlpool = useWhirlpool()
+  const [settings] = useSettings()
+  const [tokenIn, setTokenIn] = useState(initialIn)
+  const [tokenOut, setTokenOut] = useState(initialOut)
+  const [amount, setAmount] = useState('')
+
+  const amountIn = useMemo(() => {
+    try { return amount ? parseEther(amount) : 0n } catch { return 0n }
+  }, [amount])
+  const quote = useSwapQuote(tokenIn, tokenOut, amountIn)
+  const gas = useSwapGas(tokenIn, tokenOut, amountIn)
+  const minOut = quote.data ? minimumReceived(quote.data, settings.slippageBps) : null
+
+  const balanceOf = (key: string) => {
+    if (key === 'eth') return whirlpool.ethBalance
+    if (key === 'waves') return whirlpool.wavesBalance
+    if (key === 'weth') return whirlpool.wethBalance
+    return whirlpool.cards.find(c => `card-${c.id}` === key)?.myBalance ?? '0'
+  }
+
+  const options = [
+    { key: 'eth', label: 'ETH' },
+    { key: 'waves', label: 'WAVES' },
+    { key: 'weth', label: 'WETH' },
+    ...whirlpool.cards.map(c => ({ key: `card-${c.id}`, label: `${c.symbol} · ${c.name}` })),
+  ]
+  const impact = quote.data?.priceImpact ?? 0
+  const canConfirm = whirlpool.isConnected && !whirlpool.isBusy(actionKeys.swap(tokenIn, tokenOut)) && !!quote.data && minOut !== null && amountIn > 0n
+
+  const flip = () => { setTokenIn(tokenOut); setTokenOut(tokenIn) }
+  const confirm = async () => {
+    if (!canConfirm) return
+    await whirlpool.swap(tokenIn, tokenOut, amount, 'wallet', quote.data)
+    setAmount('')
+  }
+
+  const selectStyle = { background: '#1a1d2e', border: '1px solid #4a4d5a', color: '#d0d0d0', fontFamily: "'DM Mono', monospace" }
+
+  return (
+    <div className="bg-[#121420] rounded-sm p-3 space-y-2 text-[11px] font-mono">
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={0}
+          placeholder="0.0"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          className="flex-1 min-w-0 rounded-sm px-2 py-1.5 text-sm focus:outline-none"
+          style={selectStyle}
+        />
+        <select value={tokenIn} onChange={e => setTokenIn(e.target.value)} className="w-28 rounded-sm px-1 py-1.5" style={selectStyle}>
+          {options.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+        </select>
+      </div>
+      <div className="flex justify-between text-[10px]">
+        <button onClick={() => setAmount(balanceOf(tokenIn))} className="text-gray-500 hover:text-cyan-400 cursor-pointer">
+          Balance: {parseFloat(balanceOf(tokenIn)).toFixed(4)}
+        </button>
+        <button onClick={flip} className="text-cyan-400 hover:text-white cursor-pointer">⇅ flip</button>
+      </div>
+      <div className="flex gap-2 items-center">
+        <span className="flex-1 text-emerald-400 text-sm px-2">
+          {quote.data ? parseFloat(formatEther(quote.data.amountOut)).toFixed(6) : '—'}
+        </span>
+        <select value={tokenOut} onChange={e => setTokenOut(e.target.value)} className="w-28 rounded-sm px-1 py-1.5" style={selectStyle}>
+          {options.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+        </select>
+      </div>
+
+      <SlippageControl />
+
+      {quote.error && <p className="text-red-400 text-[10px]">{(quote.error as Error).message}</p>}
+      {quote.data && minOut !== null && (
+        <div className="space-y-1 pt-1 border-t border-[#2a2d40]">
+          <div className="flex justify-between">
+            <span className="text-gray-500">Expected</span>
+            <span className="text-emerald-400">{parseFloat(formatEther(quote.data.amountOut)).toFixed(6)} {tokenLabel(tokenOut, whirlpool.cards)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Minimum received</span>
+            <span className="text-cyan-400">{parseFloat(formatEther(minOut)).toFixed(6)} {tokenLabel(tokenOut, whirlpool.cards)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Route</span>
+            <span className="text-gray-300" title={`${quote.data.hops.length} transaction${quote.data.hops.length === 1 ? '' : 's'}`}>
+              {routeTokens(quote.data).map(key => tokenLabel(key, whirlpool.cards)).join(' → ')}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Rate</span>
+            <span className="text-gray-300" title={`Mid price ${quote.data.midPrice.toPrecision(6)}`}>
+              1 {tokenLabel(tokenIn, whirlpool.cards)} = {quote.data.executionPrice.toPrecision(6)} {tokenLabel(tokenOut, whirlpool.cards)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Price impact</span>
+            <span className={impactClass(impact)}>{(impact * 100).toFixed(2)}%</span>
+          </div>
+        </div>
+      )}
+
+      {amountIn > 0n && whirlpool.isConnected && (
+        <GasBreakdown
+          estimate={gas.data}
+          isLoading={gas.isLoading}
+          error={gas.error}
+          labels={gas.data?.steps.map((s, i) => s.action === 'approve' && i === 0 ? `approve ${tokenLabel(tokenIn, whirlpool.cards)}` : s.action)}
+        />
+      )}
+
+      <button
+        disabled={!canConfirm}
+        onClick={confirm}
+        className={`w-full py-2.5 rounded-sm text-xs font-black tracking-widest uppercase transition-colors ${
+          canConfirm
+            ? impact > 0.05
+              ? 'bg-red-600/80 hover:bg-red-600 text-white cursor-pointer'
+              : 'bg-emerald-600/80 hover:bg-emerald-600 text-white cursor-pointer'
+            : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+        }`}
+        style={{ fontFamily: "'Inter Tight', sans-serif" }}
+      >
+        {!whirlpool.isConnected ? 'Connect wallet' : impact > 0.05 ? 'Confirm swap (high impact)' : 'Confirm swap'}
+      </button>
+    </div>
+  )
+}
+
+// ─── Steal plan (outstake the target's owner) ───────────────────
+function StealPlanPanel({ cardId, sources }: { cardId: number; sources: SwapStakeMove[] }) {
+  const whirlpool = useWhirlpool()
+  const plan = useStealPlan(cardId, sources)
+  const symbol = (id: number) => whirlpool.cards.find(c => c.id === id)?.symbol ?? `#${id}`
+  const amount = (wei: bigint) => parseFloat(formatEther(wei)).toFixed(4)
+
+  if (plan.error) return <p className="text-red-400 text-[10px] font-mono">{(plan.error as Error).message}</p>
+  if (!plan.data) return null
+  const { needed, steps, wavesCost, affordable, ownerStake, myStake } = plan.data
+  const canSteal = needed > 0n && affordable && !whirlpool.isBusy(actionKeys.steal(cardId))
+
+  return (
+    <div className="bg-[#121420] rounded-sm p-3 space-y-1 text-[11px] font-mono">
+      <div className="flex justify-between">
+        <span className="text-gray-500">Owner stake</span>
+        <span className="text-amber-400">{amount(ownerStake)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-500">Your stake</span>
+        <span className="text-gray-300">{amount(myStake)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-500">Needed to take it</span>
+        <span className="text-emerald-400">{amount(needed)} {symbol(cardId)}</span>
+      </div>
+      <ol className="pt-1 border-t border-[#2a2d40] space-y-0.5">
+        {steps.map((step, i) => (
+          <li key={i} className="flex justify-between gap-2">
+            <span className="text-gray-400">
+              {i + 1}. {step.kind === 'swapStake'
+                ? `swapStake ${amount(step.shares)} ${symbol(step.fromCard)} → ${amount(step.amountOut)}`
+                : step.kind === 'buy'
+                  ? `buy ${amount(step.amountOut)} for ${amount(step.wavesIn)} WAVES`
+                  : `stake ${amount(step.amount)} ${symbol(cardId)}`}
+            </span>
+            {step.kind !== 'stake' && <span className={impactClass(step.priceImpact)}>{(step.priceImpact * 100).toFixed(2)}%</span>}
+          </li>
+        ))}
+      </ol>
+      {wavesCost > 0n && (
+        <div className="flex justify-between">
+          <span className="text-gray-500">WAVES cost</span>
+          <span className={affordable ? 'text-cyan-400' : 'text-red-400'}>
+            {amount(wavesCost)}{!affordable && ` (you have ${parseFloat(whirlpool.wavesBalance).toFixed(4)})`}
+          </span>
+        </div>
+      )}
+      <button
+        disabled={!canSteal}
+        onClick={() => whirlpool.steal(plan.data)}
+        className={`w-full mt-2 py-2 rounded-sm text-xs font-black tracking-widest uppercase transition-colors ${
+          canSteal ? 'bg-amber-500/80 hover:bg-amber-500 text-black cursor-pointer' : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+        }`}
+        style={{ fontFamily: "'Inter Tight', sans-serif" }}
+      >
+        ⚡ Take ownership · {steps.length} step{steps.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  )
+}
+
+// ─── Swap estimate (selected stakes → target card) ──────────────
+/**
+ * What the Swap Stage's plans deliver, one per selected position and sent in
+ * order (see useStagePlans): each route's own quote, so the estimate is for
+ * the transactions the button sends, whichever route each position takes.
+ */
+export function estimateSwap(
+  plans: SwapRoute[],
+  target: Pick<CardPool, 'ownerShares' | 'myStake' | 'isOwner'> | null,
+) {
+  if (plans.length === 0 || !target) return null
+  const toNumber = (wei: bigint) => parseFloat(formatEther(wei))
+  const tokensOut = plans.reduce((sum, p) => sum + toNumber(p.amountOut), 0)
+  // Against each route's mid price when quoted
+  const midOut = plans.reduce((sum, p) => sum + toNumber(p.amountIn) * p.midPrice, 0)
+  return {
+    tokensOut,
+    priceImpact: midOut > 0 ? Math.max(0, 1 - tokensOut / midOut) : 0,
+    wouldSteal: !target.isOwner && target.myStake + tokensOut > target.ownerShares,
+    sourceCount: plans.length,
+    transactions: plans.reduce((sum, p) => sum + p.hops.length, 0),
+  }
+}
+
+/** A gas step named after the hop it sends, e.g. "swapExact ALPHA → WAVES" */
+function stepLabel(step: GasStep, cards: CardState[]): string {
+  if (!step.hop) return step.action
+  return `${hopAction(step.hop)} ${routeTokens({ hops: [step.hop] }).map(key => tokenLabel(key, cards)).join(' → ')}`
+}
+
 // ─── Main SwapPage ──────────────────────────────────────────────
 export default function SwapPage() {
   const whirlpool = useWhirlpool()
@@ -279,12 +623,15 @@ export default function SwapPage() {
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
   const [targetId, setTargetId] = useState<number | null>(null)
   const [activeTags, setActiveTags] = useState<Set<string>>(new Set())
+  const [tokenSwapOpen, setTokenSwapOpen] = useState(false)
 
   // Map CardState → CardPool
   const allPools: CardPool[] = useMemo(() => whirlpool.cards.map(c => {
     const price = parseFloat(c.price) || 0
     const totalStaked = parseFloat(c.cardReserve) || 0
-    const ownerShares = totalStaked // owner is top staker
+    const ownerShares = parseFloat(c.ownerStake) || 0
+    const myStake = parseFloat(c.myStake) || 0
+    const isOwner = c.owner.toLowerCase() === whirlpool.address?.toLowerCase()
     return {
       id: c.id,
       name: c.name,
@@ -297,9 +644,11 @@ export default function SwapPage() {
       totalStaked,
       priceWaves: price,
       topStakers: [{ address: shortAddr(c.owner), shares: ownerShares, percentage: 100 }],
-      stealAmount: Math.max(0, ownerShares * 0.51),
+      stealAmount: isOwner ? 0 : Math.max(0, ownerShares - myStake),
+      myStake,
+      isOwner,
     }
-  }), [whirlpool.cards])
+  }), [whirlpool.cards, whirlpool.address])
 
   const myCards: CardPool[] = useMemo(() => allPools.filter((_, i) => {
     const c = whirlpool.cards[i]
@@ -312,7 +661,6 @@ export default function SwapPage() {
       ...pool,
       userShares: myStake + myBalance,
       userPercentage: pool.totalStaked > 0 ? Math.round((myStake / pool.totalStaked) * 100) : 0,
-      isOwner: c.owner.toLowerCase() === whirlpool.address?.toLowerCase(),
     }
   }), [allPools, whirlpool.cards, whirlpool.address])
 
@@ -354,28 +702,26 @@ export default function SwapPage() {
 
   const canSwap = selectedIds.size > 0 && targetId !== null && !selectedIds.has(targetId)
 
-  const swapEstimate = useMemo(() => {
-    if (selectedCards.length === 0 || !targetPool) return null
-    const totalWavesOut = selectedCards.reduce((sum, p) => sum + (p.userShares || 0) * p.priceWaves, 0)
-    const tokensOut = targetPool.priceWaves > 0 ? totalWavesOut / targetPool.priceWaves : 0
-    const wouldSteal = tokensOut > targetPool.ownerShares
-    return { wavesOut: totalWavesOut, tokensOut, wouldSteal, sourceCount: selectedCards.length }
-  }, [selectedCards, targetPool])
+  // What handleSwap moves: each selected card's whole stake, one plan per card
+  const swapMoves = !canSwap ? [] : selectedCards.flatMap(card => {
+    const c = whirlpool.cards.find(cc => cc.id === card.id)
+    return c && parseFloat(c.myStake) > 0 ? [{ cardId: card.id, shares: parseEther(c.myStake) }] : []
+  })
+  // Estimate, gas and button all use these plans: each the better of swapStake or unstake → swap → stake
+  const stagePlans = useStagePlans(targetId, swapMoves)
+  const plans = swapMoves.length > 0 ? stagePlans.data : undefined
+  const swapGas = usePlanGas(plans)
+  const swapEstimate = estimateSwap(plans ?? [], targetPool)
 
   const handleSwap = async () => {
-    if (!canSwap || targetId === null) return
-    // For now: swap first selected card's stake to target
-    for (const card of selectedCards) {
-      const c = whirlpool.cards.find(cc => cc.id === card.id)
-      if (c && parseFloat(c.myStake) > 0) {
-        await whirlpool.swapStake(card.id, targetId, c.myStake)
-      }
+    if (!canSwap || !plans) return
+    // Sent exactly as shown, each guarded at the slippage setting against its own quote
+    for (const plan of plans) {
+      await whirlpool.swap(plan.tokenIn, plan.tokenOut, formatEther(plan.amountIn), 'staked', plan)
     }
   }
 
-  const handleBuyWaves = () => {
-    alert('Wrap ETH first (Mint page), then swap WETH → WAVES on SurfSwap')
-  }
+  const handleBuyWaves = () => setTokenSwapOpen(open => !open)
 
   const allTags = useMemo(() => {
     const s = new Set<string>()
@@ -454,6 +800,7 @@ export default function SwapPage() {
 
         {/* Swap estimate + button */}
         <div className="w-full mt-6 space-y-3">
+          {stagePlans.error && <p className="text-red-400 text-[10px] font-mono">{stagePlans.error.message}</p>}
           {swapEstimate && (
             <div className="bg-[#121420] rounded-sm p-3 space-y-1 text-[11px] font-mono">
               {swapEstimate.sourceCount > 1 && (
@@ -463,13 +810,17 @@ export default function SwapPage() {
                 </div>
               )}
               <div className="flex justify-between">
-                <span className="text-gray-500">WAVES out</span>
-                <span className="text-cyan-400">{swapEstimate.wavesOut.toFixed(4)}</span>
+                <span className="text-gray-500">Transactions</span>
+                <span className="text-cyan-400">{swapEstimate.transactions}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Tokens acquired</span>
                 <span className="text-emerald-400">{swapEstimate.tokensOut.toFixed(4)}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Price impact</span>
+                <span className={impactClass(swapEstimate.priceImpact)}>{(swapEstimate.priceImpact * 100).toFixed(2)}%</span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Takes ownership?</span>
                 <span className={swapEstimate.wouldSteal ? 'text-amber-400 font-bold' : 'text-gray-400'}>
@@ -479,12 +830,19 @@ export default function SwapPage() {
             </div>
           )}
 
-          <p className="text-gray-400 text-xs text-center">
-            Est. Gas: <span className="text-cyan-400 font-mono">~181k gas (~0.002 ETH)</span>
-          </p>
+          <GasBreakdown
+            estimate={swapGas.data}
+            isLoading={swapGas.isLoading}
+            error={swapGas.error}
+            labels={swapGas.data?.steps.map(step => stepLabel(step, whirlpool.cards))}
+          />
+
+          {targetPool && !targetPool.isOwner && whirlpool.isConnected && (
+            <StealPlanPanel cardId={targetPool.id} sources={swapMoves} />
+          )}
 
           <button
-            disabled={!canSwap}
+            disabled={!canSwap || !plans}
             onClick={handleSwap}
             className={`group relative w-full py-4 rounded-sm text-base font-black tracking-widest uppercase transition-all duration-300 overflow-hidden ${
               canSwap
@@ -538,9 +896,11 @@ export default function SwapPage() {
             className="w-full mt-3 py-3 rounded-sm border-2 border-cyan-500/40 bg-[#121420] text-cyan-400 font-bold text-sm tracking-wider uppercase cursor-pointer transition-all duration-200 hover:border-cyan-400 hover:bg-cyan-500/10 hover:shadow-[0_2px_12px_rgba(34,211,238,0.2)]"
             style={{ fontFamily: "'Inter Tight', sans-serif" }}
           >
-            Buy $WAVES
+            {tokenSwapOpen ? 'Hide Token Swap' : 'Buy $WAVES'}
           </button>
 
+          {tokenSwapOpen && <TokenSwapPanel initialIn="eth" initialOut="waves" />}
+
           <style>{`
             @keyframes shimmer {
               0%, 100% { background-position: 0% 50%; }
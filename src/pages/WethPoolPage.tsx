@@ -0,0 +1,156 @@
+/** WethPoolPage — Whirlpool's ETH staking pool
+ *
+ * Balances (ETH, WETH, staked WETH, pending pool rewards), the account's
+ * share of the pool and the measured ETH pool boost, plus every WETH flow:
+ * wrap, unwrap, stake, unstake and claim.
+ *
+ * Same dark panel styling as the Swap page.
+ */
+import { useState } from 'react'
+import { useWhirlpool, useWethBoost, useWethPool } from '../hooks/useWhirlpool'
+
+const PANEL = {
+  background: 'linear-gradient(180deg, #2a2d3a 0%, #1a1d2e 40%, #22252f 100%)',
+  boxShadow: '0 4px 20px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.05)',
+}
+
+function fmt(value: string, digits = 4): string {
+  return (parseFloat(value) || 0).toFixed(digits)
+}
+
+/** Amount input with a max shortcut and one action button */
+function AmountAction({ label, unit, max, onSubmit, disabled }: {
+  label: string
+  unit: string
+  max: string
+  onSubmit: (amount: string) => Promise<void>
+  disabled?: boolean
+}) {
+  const [amount, setAmount] = useState('')
+  const value = parseFloat(amount)
+  const valid = value > 0 && value <= (parseFloat(max) || 0)
+
+  const submit = async () => {
+    if (!valid) return
+    await onSubmit(amount)
+    setAmount('')
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative flex-1 min-w-0">
+        <input
+          type="number"
+          min={0}
+          placeholder="0.0"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') submit() }}
+          className="w-full rounded-sm px-2 py-1.5 text-sm focus:outline-none"
+          style={{ background: '#1a1d2e', border: '1px solid #4a4d5a', color: '#d0d0d0' }}
+        />
+        <button
+          onClick={() => setAmount(max)}
+          className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-gray-500 hover:text-cyan-400 cursor-pointer"
+        >
+          max {fmt(max)} {unit}
+        </button>
+      </div>
+      <button
+        onClick={submit}
+        disabled={disabled || !valid}
+        className={`w-24 py-1.5 rounded-sm text-[11px] font-black tracking-wider uppercase ${
+          !disabled && valid ? 'bg-cyan-600 hover:bg-cyan-500 text-white cursor-pointer' : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+        }`}
+      >
+        {label}
+      </button>
+    </div>
+  )
+}
+
+export default function WethPoolPage() {
+  const whirlpool = useWhirlpool()
+  const { data: pool } = useWethPool()
+  const boost = useWethBoost()
+
+  const totalStaked = parseFloat(pool?.totalStaked ?? '0')
+  const myStake = parseFloat(whirlpool.myWethStake) || 0
+  const share = totalStaked > 0 ? myStake / totalStaked : 0
+  const pending = parseFloat(whirlpool.pendingGlobal) || 0
+  const disabled = !whirlpool.isConnected
+
+  const stats = [
+    { label: 'ETH', value: fmt(whirlpool.ethBalance) },
+    { label: 'WETH', value: fmt(whirlpool.wethBalance) },
+    { label: 'Staked WETH', value: fmt(whirlpool.myWethStake) },
+    { label: 'Pending Rewards', value: fmt(whirlpool.pendingGlobal), accent: true },
+  ]
+
+  return (
+    <div className="max-w-3xl mx-auto px-6" style={{ marginTop: 60, paddingTop: 24, minHeight: '100dvh' }}>
+      <div className="border-2 border-[#3a3d4a] rounded p-5 font-mono text-[11px]" style={PANEL}>
+        <h2 className="text-lg font-black tracking-wider mb-4 pb-2 border-b-2 border-[#3a3d4a] uppercase" style={{ fontFamily: "'Cinzel', serif", color: '#c8a55a', textShadow: '0 1px 3px rgba(0,0,0,0.6)', letterSpacing: '0.12em' }}>
+          ETH Staking Pool
+        </h2>
+
+        {/* Balances */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+          {stats.map(s => (
+            <div key={s.label} className="bg-[#121420] border border-[#2a2d40] rounded-sm p-3">
+              <div className="text-gray-500 uppercase tracking-wider text-[10px]">{s.label}</div>
+              <div className={`text-lg font-bold ${s.accent ? 'text-amber-400' : 'text-white'}`}>{s.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Pool */}
+        <div className="bg-[#121420] rounded-sm p-3 space-y-1 mb-5">
+          <div className="flex justify-between">
+            <span className="text-gray-500">Pool total staked</span>
+            <span className="text-cyan-400">{totalStaked.toFixed(4)} WETH</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Your share</span>
+            <span className="text-cyan-400">{(share * 100).toFixed(2)}%</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">WETH price</span>
+            <span className="text-gray-300">{fmt(pool?.wethPrice ?? '0', 2)} WAVES</span>
+          </div>
+          <div className="flex justify-between" title="Pending rewards per WAVES staked here, vs across your card stakes">
+            <span className="text-gray-500">Boost vs card pools</span>
+            <span className={boost !== null && boost > 1 ? 'text-emerald-400 font-bold' : 'text-gray-300'}>
+              {boost !== null ? `${boost.toFixed(2)}x` : '—'}
+            </span>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="space-y-4">
+          <section className="space-y-2">
+            <h3 className="text-gray-400 uppercase tracking-wider text-[10px]">Wrap</h3>
+            <AmountAction label="Wrap" unit="ETH" max={whirlpool.ethBalance} onSubmit={whirlpool.wrapETH} disabled={disabled} />
+            <AmountAction label="Unwrap" unit="WETH" max={whirlpool.wethBalance} onSubmit={whirlpool.unwrapETH} disabled={disabled} />
+          </section>
+          <section className="space-y-2">
+            <h3 className="text-gray-400 uppercase tracking-wider text-[10px]">Stake</h3>
+            <AmountAction label="Stake" unit="WETH" max={whirlpool.wethBalance} onSubmit={whirlpool.stakeWETH} disabled={disabled} />
+            <AmountAction label="Unstake" unit="WETH" max={whirlpool.myWethStake} onSubmit={whirlpool.unstakeWETH} disabled={disabled} />
+          </section>
+          <button
+            onClick={whirlpool.claimWETHRewards}
+            disabled={disabled || pending <= 0}
+            className={`w-full py-2.5 rounded-sm text-xs font-black tracking-widest uppercase ${
+              !disabled && pending > 0 ? 'bg-amber-500/90 hover:bg-amber-500 text-black cursor-pointer' : 'bg-gray-800 text-gray-600 cursor-not-allowed'
+            }`}
+            style={{ fontFamily: "'Inter Tight', sans-serif" }}
+          >
+            {pending > 0 ? `Claim ${pending.toFixed(4)} rewards` : 'Nothing to claim'}
+          </button>
+          {disabled && <p className="text-gray-500 text-center">Connect wallet to use the pool</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
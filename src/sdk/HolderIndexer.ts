@@ -0,0 +1,151 @@
+/**
+ * HolderIndexer — per-card staker balances and ownership history rebuilt
+ * from Whirlpool events
+ *
+ * Replays Staked / Unstaked / OwnerChanged logs from the network's deploy
+ * block, then keeps up incrementally: each sync() only fetches blocks after
+ * the last one indexed. Holder lists (ranked by stake) and ownership
+ * histories are exposed through a subscribable snapshot, so UIs re-render
+ * only when an event lands.
+ *
+ * swapStake positions are tracked through the Unstaked / Staked pair the
+ * contract emits for the source and target cards.
+ */
+import type { Address, Hash } from 'viem'
+import type { WhirlpoolClient } from './WhirlpoolClient'
+import type { StakeEvent } from './types'
+
+// Max block span per eth_getLogs request; public RPCs reject wider ranges
+const LOG_CHUNK_BLOCKS = 10_000n
+
+/** One staker in a card, ranked by stake */
+export interface CardHolder {
+  address: Address
+  stake: bigint
+  /** Fraction of the card's total staked amount, 0–1 */
+  share: number
+  isOwner: boolean
+}
+
+/** One OwnerChanged event in a card's history */
+export interface OwnershipChange {
+  previousOwner: Address
+  newOwner: Address
+  blockNumber: bigint
+  /** Block time, unix seconds */
+  timestamp: number
+  transactionHash: Hash
+}
+
+export interface HolderIndexState {
+  /** Ranked holders per card id (cards with no stakers are absent) */
+  holders: ReadonlyMap<number, CardHolder[]>
+  /** Owner per card id as of the last OwnerChanged event */
+  owners: ReadonlyMap<number, Address>
+  /** Every ownership change per card id, oldest first */
+  history: ReadonlyMap<number, OwnershipChange[]>
+  /** False until the first replay from the deploy block has finished */
+  ready: boolean
+}
+
+export class HolderIndexer {
+  private readonly client: WhirlpoolClient
+  private readonly stakes = new Map<number, Map<Address, bigint>>()
+  private readonly owners = new Map<number, Address>()
+  private readonly history = new Map<number, OwnershipChange[]>()
+  private readonly listeners = new Set<() => void>()
+  private state: HolderIndexState = { holders: new Map(), owners: new Map(), history: new Map(), ready: false }
+  private lastBlock: bigint | null = null
+  private inFlight: Promise<void> | null = null
+
+  constructor(client: WhirlpoolClient) {
+    this.client = client
+  }
+
+  getState = (): HolderIndexState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  /** Ranked holders of one card, largest stake first */
+  holders(cardId: number): CardHolder[] {
+    return this.state.holders.get(cardId) ?? []
+  }
+
+  /** Ownership changes of one card, oldest first */
+  ownershipHistory(cardId: number): OwnershipChange[] {
+    return this.state.history.get(cardId) ?? []
+  }
+
+  /** Fetch and apply every event since the last indexed block. Concurrent calls share one run. */
+  sync(): Promise<void> {
+    this.inFlight ??= this.catchUp().finally(() => { this.inFlight = null })
+    return this.inFlight
+  }
+
+  private async catchUp(): Promise<void> {
+    const head = await this.client.publicClient.getBlockNumber()
+    let from = this.lastBlock === null ? BigInt(this.client.network.deployBlock) : this.lastBlock + 1n
+    while (from <= head) {
+      const to = from + LOG_CHUNK_BLOCKS - 1n < head ? from + LOG_CHUNK_BLOCKS - 1n : head
+      this.apply(await this.client.getStakeEvents(from, to), to)
+      from = to + 1n
+    }
+    if (!this.state.ready) this.publish(this.state.holders, true)
+  }
+
+  /** Fold events (in chain order) up to `throughBlock` into the index; publishes only if a card changed */
+  apply(events: StakeEvent[], throughBlock: bigint): void {
+    this.lastBlock = throughBlock
+    if (events.length === 0) return
+    const touched = new Set<number>()
+    for (const e of events) {
+      touched.add(e.cardId)
+      if (e.kind === 'OwnerChanged') {
+        this.owners.set(e.cardId, e.newOwner)
+        // New array per change so snapshot consumers see a new reference
+        this.history.set(e.cardId, [...(this.history.get(e.cardId) ?? []), {
+          previousOwner: e.previousOwner, newOwner: e.newOwner,
+          blockNumber: e.blockNumber, timestamp: e.timestamp, transactionHash: e.transactionHash,
+        }])
+        continue
+      }
+      let card = this.stakes.get(e.cardId)
+      if (!card) this.stakes.set(e.cardId, card = new Map())
+      const user = e.user.toLowerCase() as Address
+      const next = (card.get(user) ?? 0n) + (e.kind === 'Staked' ? e.amount : -e.amount)
+      if (next > 0n) card.set(user, next)
+      else card.delete(user)
+    }
+
+    const holders = new Map(this.state.holders)
+    for (const cardId of touched) {
+      const ranked = this.rank(cardId)
+      if (ranked.length) holders.set(cardId, ranked)
+      else holders.delete(cardId)
+    }
+    this.publish(holders, this.state.ready)
+  }
+
+  private publish(holders: ReadonlyMap<number, CardHolder[]>, ready: boolean): void {
+    this.state = { holders, owners: new Map(this.owners), history: new Map(this.history), ready }
+    this.listeners.forEach(l => l())
+  }
+
+  private rank(cardId: number): CardHolder[] {
+    const card = this.stakes.get(cardId)
+    if (!card) return []
+    const owner = this.owners.get(cardId)?.toLowerCase()
+    let total = 0n
+    for (const stake of card.values()) total += stake
+    return [...card.entries()]
+      .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+      .map(([address, stake]) => ({
+        address, stake,
+        share: total > 0n ? Number((stake * 1_000_000n) / total) / 1_000_000 : 0,
+        isOwner: address === owner,
+      }))
+  }
+}
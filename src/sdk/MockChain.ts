@@ -0,0 +1,522 @@
+/**
+ * MockChain — deterministic in-memory chain running the Whirlpool contracts
+ *
+ * An offline stand-in for the Anvil node: mockProtocol.ts implements the
+ * contracts, this class adds accounts, nonces, blocks (one per transaction,
+ * fixed spacing), receipts, logs and filters behind the JSON-RPC methods
+ * viem uses. Hand `provider` (EIP-1193) to wagmi or `transport` to any viem
+ * client, and WhirlpoolClient, the hooks and the pages run against the same
+ * registry addresses as the real deployment.
+ *
+ * Transactions can be sent unsigned (eth_sendTransaction — every `from` is
+ * unlocked, as on Anvil) or signed (eth_sendRawTransaction from a local
+ * account). State is copied before each call, so a revert leaves nothing
+ * behind; a reverted transaction is still mined, with status 0x0.
+ */
+import {
+  RpcRequestError, custom, encodeFunctionData, getAddress, keccak256, numberToHex, parseTransaction,
+  recoverTransactionAddress, stringToHex, zeroHash,
+} from 'viem'
+import type { Address, CustomTransport, EIP1193RequestFn, Hash, Hex, TransactionSerialized } from 'viem'
+import { ROUTER_ABI, TEST_ACCOUNTS } from '../contracts/erc1142'
+import { getNetwork } from '../contracts/networks'
+import type { WhirlpoolNetwork } from '../contracts/networks'
+import {
+  MockRevert, accrueRewards, callContract, createProtocolState, isContract, mint,
+} from './mockProtocol'
+import type { MockEvent, MockProtocolConfig, MockProtocolState } from './mockProtocol'
+import { CREATE_CARD_FEE } from './WhirlpoolClient'
+
+/** A funded account at genesis */
+export interface MockAccount {
+  address: Address
+  eth?: bigint
+  waves?: bigint
+  weth?: bigint
+}
+
+/** A card minted at genesis through ROUTER.createCard */
+export interface MockCardSeed {
+  name: string
+  symbol: string
+  uri?: string
+  /** Default: the first account */
+  creator?: Address
+}
+
+export interface MockChainOptions {
+  /** Registry entry whose chain id and addresses are served. Default: the local Anvil network */
+  network?: WhirlpoolNetwork
+  /** Default: every TEST_ACCOUNTS entry with 10,000 ETH */
+  accounts?: MockAccount[]
+  cards?: MockCardSeed[]
+  /** Overrides for card supply, fees and reward rates */
+  protocol?: Partial<Omit<MockProtocolConfig, 'contracts'>>
+  /** Initial SurfSwap WAVES/WETH reserves. Default 200,000 WAVES / 100 WETH */
+  wethPool?: { waves: bigint; weth: bigint }
+  /** Genesis timestamp, unix seconds. Default 1,700,000,000 */
+  timestamp?: number
+  /** Seconds between blocks. Default 12 */
+  blockTime?: number
+}
+
+/** EIP-1193 provider backed by a MockChain */
+export interface MockProvider {
+  request: EIP1193RequestFn
+  on: (event: string, listener: (...args: unknown[]) => void) => void
+  removeListener: (event: string, listener: (...args: unknown[]) => void) => void
+}
+
+interface MockBlock {
+  number: bigint
+  hash: Hash
+  parentHash: Hash
+  timestamp: bigint
+  transactions: Hash[]
+  gasUsed: bigint
+}
+
+interface MockLog extends MockEvent {
+  blockNumber: bigint
+  blockHash: Hash
+  transactionHash: Hash
+  logIndex: number
+}
+
+interface MockTransaction {
+  hash: Hash
+  from: Address
+  to: Address | null
+  input: Hex
+  value: bigint
+  nonce: number
+  gas: bigint
+  blockNumber: bigint
+  blockHash: Hash
+  status: 'success' | 'reverted'
+  logs: MockLog[]
+}
+
+interface TransactionRequest {
+  from: Address
+  to?: Address | null
+  data?: Hex
+  value?: bigint
+  nonce?: number
+  gas?: bigint
+}
+
+/** TransactionRequest as JSON-RPC params carry it: hex quantities, `input` or `data` */
+type RpcTransactionRequest = Partial<Record<'from' | 'to' | 'data' | 'input' | 'value' | 'nonce' | 'gas', Hex>>
+
+interface LogFilter {
+  address?: Address | Address[]
+  topics?: (Hex | Hex[] | null)[]
+  fromBlock?: string
+  toBlock?: string
+  blockHash?: Hash
+}
+
+type Filter =
+  | { kind: 'logs'; filter: LogFilter; lastBlock: bigint }
+  | { kind: 'blocks'; lastBlock: bigint }
+
+const ETHER = 10n ** 18n
+
+/** Flat gas per call — mock gas is only for display, nothing meters it */
+const TRANSFER_GAS = 21_000n
+const CALL_GAS = 100_000n
+const GAS_PRICE = 1_000_000_000n // 1 gwei
+const BLOCK_GAS_LIMIT = 30_000_000n
+
+const DEFAULT_PROTOCOL: Omit<MockProtocolConfig, 'contracts'> = {
+  createCardFee: CREATE_CARD_FEE,
+  cardSupply: 1_000_000n * ETHER,
+  creatorStake: 100_000n * ETHER,
+  cardPoolWaves: 90_000n * ETHER,
+  rewardPerBlock: ETHER,
+  wethRewardPerBlock: ETHER,
+}
+
+const hex = (value: bigint | number) => numberToHex(value)
+
+function rpcError(method: string, params: unknown, code: number, message: string, data?: Hex): RpcRequestError {
+  return new RpcRequestError({ body: { method, params }, error: { code, message, data }, url: 'mock://whirlpool' })
+}
+
+export class MockChain {
+  readonly network: WhirlpoolNetwork
+  readonly chainId: number
+  readonly accounts: Address[]
+  private readonly config: MockProtocolConfig
+  private readonly blockTime: bigint
+  private state: MockProtocolState
+  private readonly blocks: MockBlock[] = []
+  private readonly transactions = new Map<Hash, MockTransaction>()
+  private readonly nonces = new Map<Address, number>()
+  private readonly filters = new Map<Hex, Filter>()
+  private nextFilterId = 1
+
+  constructor({
+    network = getNetwork(31337), accounts, cards = [], protocol, wethPool, timestamp = 1_700_000_000, blockTime = 12,
+  }: MockChainOptions = {}) {
+    // No Multicall3 here: reads go out one eth_call each
+    this.network = { ...network, multicall3: undefined, deployBlock: 0 }
+    this.chainId = network.id
+    this.config = { contracts: network.contracts, ...DEFAULT_PROTOCOL, ...protocol }
+    this.blockTime = BigInt(blockTime)
+    this.state = createProtocolState(this.config, wethPool ?? { waves: 200_000n * ETHER, weth: 100n * ETHER })
+
+    const funded = accounts ?? TEST_ACCOUNTS.map(a => ({ address: a.address as Address, eth: 10_000n * ETHER }))
+    this.accounts = funded.map(a => getAddress(a.address))
+    for (const a of funded) this.fund(a.address, a)
+    this.blocks.push(this.newBlock(BigInt(timestamp), zeroHash, []))
+
+    for (const card of cards) {
+      this.send({
+        from: card.creator ?? this.accounts[0],
+        to: this.config.contracts.ROUTER,
+        data: encodeFunctionData({ abi: ROUTER_ABI, functionName: 'createCard', args: [card.name, card.symbol, card.uri ?? ''] }),
+        value: this.config.createCardFee,
+      })
+    }
+  }
+
+  /** Latest block number */
+  get blockNumber(): bigint {
+    return this.blocks[this.blocks.length - 1].number
+  }
+
+  /** EIP-1193 provider, e.g. for a wagmi mock connector */
+  get provider(): MockProvider {
+    return { request: this.request, on: () => {}, removeListener: () => {} }
+  }
+
+  /** viem transport over `provider` — failures surface at once, without retries */
+  get transport(): CustomTransport {
+    return custom(this.provider, { retryCount: 0 })
+  }
+
+  /** Top up an account's ETH, WAVES and WETH outside of any transaction */
+  fund(address: Address, { eth = 0n, waves = 0n, weth = 0n }: Omit<MockAccount, 'address'>): void {
+    const account = getAddress(address)
+    const { WAVES, WETH } = this.config.contracts
+    this.state.eth.set(account, (this.state.eth.get(account) ?? 0n) + eth)
+    if (waves > 0n) mint(this.state, WAVES, account, waves)
+    if (weth > 0n) {
+      mint(this.state, WETH, account, weth)
+      this.state.eth.set(WETH, (this.state.eth.get(WETH) ?? 0n) + weth)
+    }
+  }
+
+  /** Mine empty blocks, e.g. to let rewards accrue */
+  mine(blocks = 1): void {
+    for (let i = 0; i < blocks; i++) this.mineBlock([])
+  }
+
+  /** Execute and mine one transaction; returns its hash */
+  send(tx: TransactionRequest, hash?: Hash): Hash {
+    const from = getAddress(tx.from)
+    const nonce = this.nonces.get(from) ?? 0
+    if (tx.nonce !== undefined && tx.nonce !== nonce) {
+      throw rpcError('eth_sendTransaction', [], -32000, `nonce ${tx.nonce < nonce ? 'too low' : 'too high'}: expected ${nonce}, got ${tx.nonce}`)
+    }
+    const value = tx.value ?? 0n
+    const gas = tx.to && tx.data && tx.data !== '0x' ? CALL_GAS : TRANSFER_GAS
+    const balance = this.state.eth.get(from) ?? 0n
+    if (balance < gas * GAS_PRICE + value) {
+      throw rpcError('eth_sendTransaction', [], -32003, 'insufficient funds for gas * price + value')
+    }
+
+    this.nonces.set(from, nonce + 1)
+    this.state.eth.set(from, balance - gas * GAS_PRICE)
+    const txHash = hash ?? keccak256(stringToHex(`mock-tx:${this.chainId}:${from}:${nonce}`))
+    const number = this.blockNumber + 1n
+    accrueRewards(this.state, this.config)
+
+    let events: MockEvent[] = []
+    let status: MockTransaction['status'] = 'success'
+    const next = structuredClone(this.state)
+    try {
+      events = callContract(next, this.config, { from, to: tx.to ?? from, data: tx.data ?? '0x', value }).events
+      this.state = next
+    } catch (e) {
+      if (!(e instanceof MockRevert)) throw e
+      status = 'reverted'
+    }
+
+    const block = this.mineBlock([txHash])
+    const logs = events.map((event, logIndex): MockLog => ({
+      ...event, blockNumber: number, blockHash: block.hash, transactionHash: txHash, logIndex,
+    }))
+    this.transactions.set(txHash, {
+      hash: txHash, from, to: tx.to ? getAddress(tx.to) : null, input: tx.data ?? '0x', value, nonce, gas,
+      blockNumber: number, blockHash: block.hash, status, logs,
+    })
+    return txHash
+  }
+
+  /** eth_call: run against a copy of the latest state */
+  call({ from, to, data, value }: { from?: Address; to: Address; data?: Hex; value?: bigint }): Hex {
+    const result = callContract(structuredClone(this.state), this.config, {
+      from: from ?? this.accounts[0] ?? to, to, data: data ?? '0x', value: value ?? 0n,
+    })
+    return result.result
+  }
+
+  // ─── JSON-RPC ───────────────────────────────────────────────
+
+  request = (async ({ method, params }: { method: string; params?: unknown }) => {
+    const args = (params ?? []) as readonly unknown[]
+    try {
+      return await this.handle(method, args)
+    } catch (e) {
+      if (e instanceof MockRevert) throw rpcError(method, params, 3, `execution reverted${e.message === 'execution reverted' ? '' : `: ${e.message}`}`, e.data)
+      throw e
+    }
+  }) as EIP1193RequestFn
+
+  /** `args` are the JSON-RPC params as sent; each method reads them as its own tuple */
+  private async handle(method: string, args: readonly unknown[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_chainId': return hex(this.chainId)
+      case 'net_version': return String(this.chainId)
+      case 'web3_clientVersion': return 'whirlpool-mock/1.0.0'
+      case 'eth_syncing': return false
+      case 'eth_accounts':
+      case 'eth_requestAccounts': return this.accounts
+      case 'eth_blockNumber': return hex(this.blockNumber)
+      case 'eth_gasPrice': return hex(GAS_PRICE)
+      case 'eth_maxPriorityFeePerGas': return '0x0'
+      case 'eth_getBalance': {
+        const [address] = args as [Address]
+        return hex(this.state.eth.get(getAddress(address)) ?? 0n)
+      }
+      case 'eth_getTransactionCount': {
+        const [address] = args as [Address]
+        return hex(this.nonces.get(getAddress(address)) ?? 0)
+      }
+      case 'eth_getCode': {
+        const [address] = args as [Address]
+        return isContract(this.state, this.config.contracts, address) ? '0x00' : '0x'
+      }
+
+      case 'eth_call': {
+        const [request] = args as [RpcTransactionRequest]
+        return this.call(this.parseRequest(request) as { to: Address })
+      }
+      case 'eth_estimateGas': {
+        const [request] = args as [RpcTransactionRequest]
+        const tx = this.parseRequest(request)
+        if (!tx.to || !tx.data || tx.data === '0x') return hex(TRANSFER_GAS)
+        this.call(tx as { to: Address })
+        return hex(CALL_GAS)
+      }
+      case 'eth_sendTransaction': {
+        const [request] = args as [RpcTransactionRequest]
+        return this.send(this.parseRequest(request) as TransactionRequest)
+      }
+      case 'eth_sendRawTransaction': {
+        const [serialized] = args as [TransactionSerialized]
+        const tx = parseTransaction(serialized)
+        const from = await recoverTransactionAddress({ serializedTransaction: serialized })
+        return this.send({ from, to: tx.to, data: tx.data, value: tx.value, nonce: tx.nonce, gas: tx.gas }, keccak256(serialized))
+      }
+
+      case 'eth_getBlockByNumber': {
+        const [tag, full] = args as [string | undefined, boolean | undefined]
+        const block = this.blockAt(tag)
+        return block ? this.formatBlock(block, !!full) : null
+      }
+      case 'eth_getBlockByHash': {
+        const [hash, full] = args as [Hash, boolean | undefined]
+        const block = this.blocks.find(b => b.hash === hash)
+        return block ? this.formatBlock(block, !!full) : null
+      }
+      case 'eth_getTransactionByHash': {
+        const [hash] = args as [Hash]
+        const tx = this.transactions.get(hash)
+        return tx ? this.formatTransaction(tx) : null
+      }
+      case 'eth_getTransactionReceipt': {
+        const [hash] = args as [Hash]
+        const tx = this.transactions.get(hash)
+        return tx ? this.formatReceipt(tx) : null
+      }
+      case 'eth_getLogs': {
+        const [filter] = args as [LogFilter]
+        return this.logs(filter).map(formatLog)
+      }
+
+      case 'eth_newFilter': {
+        const [filter] = args as [LogFilter]
+        return this.addFilter({ kind: 'logs', filter, lastBlock: this.blockNumber })
+      }
+      case 'eth_newBlockFilter': return this.addFilter({ kind: 'blocks', lastBlock: this.blockNumber })
+      case 'eth_uninstallFilter': {
+        const [id] = args as [Hex]
+        return this.filters.delete(id)
+      }
+      case 'eth_getFilterChanges': {
+        const [id] = args as [Hex]
+        return this.filterChanges(id)
+      }
+      case 'eth_getFilterLogs': {
+        const [id] = args as [Hex]
+        const filter = this.filters.get(id)
+        if (filter?.kind !== 'logs') throw rpcError(method, args, -32000, 'filter not found')
+        return this.logs(filter.filter).map(formatLog)
+      }
+    }
+    throw rpcError(method, args, -32601, `the method ${method} does not exist/is not available`)
+  }
+
+  private parseRequest(tx: RpcTransactionRequest): Partial<TransactionRequest> & { to?: Address } {
+    return {
+      from: tx.from as Address | undefined,
+      to: tx.to as Address | undefined,
+      data: tx.data ?? tx.input,
+      value: tx.value ? BigInt(tx.value) : undefined,
+      nonce: tx.nonce ? Number(tx.nonce) : undefined,
+      gas: tx.gas ? BigInt(tx.gas) : undefined,
+    }
+  }
+
+  // ─── Blocks and logs ───
+
+  private newBlock(timestamp: bigint, parentHash: Hash, transactions: Hash[]): MockBlock {
+    const number = BigInt(this.blocks.length)
+    return {
+      number, parentHash, timestamp, transactions,
+      hash: keccak256(stringToHex(`mock-block:${this.chainId}:${number}`)),
+      gasUsed: transactions.length > 0 ? CALL_GAS : 0n,
+    }
+  }
+
+  private mineBlock(transactions: Hash[]): MockBlock {
+    const parent = this.blocks[this.blocks.length - 1]
+    if (transactions.length === 0) accrueRewards(this.state, this.config)
+    const block = this.newBlock(parent.timestamp + this.blockTime, parent.hash, transactions)
+    this.blocks.push(block)
+    return block
+  }
+
+  private blockAt(tag: string | undefined): MockBlock | undefined {
+    if (!tag || ['latest', 'pending', 'safe', 'finalized'].includes(tag)) return this.blocks[this.blocks.length - 1]
+    if (tag === 'earliest') return this.blocks[0]
+    return this.blocks[Number(BigInt(tag))]
+  }
+
+  private logs({ address, topics = [], fromBlock, toBlock, blockHash }: LogFilter): MockLog[] {
+    const from = blockHash ? this.blocks.find(b => b.hash === blockHash)?.number ?? -1n : this.blockAt(fromBlock ?? 'latest')!.number
+    const to = blockHash ? from : this.blockAt(toBlock ?? 'latest')?.number ?? this.blockNumber
+    const addresses = address === undefined ? undefined : [address].flat().map(a => getAddress(a))
+    const matches = (log: MockLog) =>
+      (!addresses || addresses.includes(log.address)) &&
+      topics.every((topic, i) => topic === null || [topic].flat().some(t => t.toLowerCase() === log.topics[i]?.toLowerCase()))
+
+    const logs: MockLog[] = []
+    for (const block of this.blocks.slice(Number(from < 0n ? 0n : from), Number(to) + 1)) {
+      for (const hash of block.transactions) logs.push(...this.transactions.get(hash)!.logs.filter(matches))
+    }
+    return from < 0n ? [] : logs
+  }
+
+  private addFilter(filter: Filter): Hex {
+    const id = hex(this.nextFilterId++)
+    this.filters.set(id, filter)
+    return id
+  }
+
+  private filterChanges(id: Hex): unknown[] {
+    const filter = this.filters.get(id)
+    if (!filter) throw rpcError('eth_getFilterChanges', [id], -32000, 'filter not found')
+    const from = filter.lastBlock + 1n
+    filter.lastBlock = this.blockNumber
+    if (from > this.blockNumber) return []
+    if (filter.kind === 'blocks') return this.blocks.slice(Number(from)).map(b => b.hash)
+    return this.logs({ ...filter.filter, fromBlock: hex(from), toBlock: hex(this.blockNumber) }).map(formatLog)
+  }
+
+  // ─── RPC formatting ───
+
+  private formatBlock(block: MockBlock, full: boolean) {
+    return {
+      number: hex(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: hex(block.timestamp),
+      transactions: full ? block.transactions.map(h => this.formatTransaction(this.transactions.get(h)!)) : block.transactions,
+      gasUsed: hex(block.gasUsed),
+      gasLimit: hex(BLOCK_GAS_LIMIT),
+      baseFeePerGas: hex(GAS_PRICE),
+      miner: '0x0000000000000000000000000000000000000000',
+      difficulty: '0x0',
+      totalDifficulty: '0x0',
+      extraData: '0x',
+      logsBloom: `0x${'0'.repeat(512)}`,
+      nonce: '0x0000000000000000',
+      mixHash: zeroHash,
+      sha3Uncles: zeroHash,
+      stateRoot: zeroHash,
+      receiptsRoot: zeroHash,
+      transactionsRoot: zeroHash,
+      size: '0x0',
+      uncles: [],
+    }
+  }
+
+  private formatTransaction(tx: MockTransaction) {
+    return {
+      hash: tx.hash,
+      type: '0x0',
+      chainId: hex(this.chainId),
+      from: tx.from,
+      to: tx.to,
+      input: tx.input,
+      value: hex(tx.value),
+      nonce: hex(tx.nonce),
+      gas: hex(tx.gas),
+      gasPrice: hex(GAS_PRICE),
+      blockNumber: hex(tx.blockNumber),
+      blockHash: tx.blockHash,
+      transactionIndex: '0x0',
+      v: '0x1b',
+      r: zeroHash,
+      s: zeroHash,
+    }
+  }
+
+  private formatReceipt(tx: MockTransaction) {
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      blockHash: tx.blockHash,
+      blockNumber: hex(tx.blockNumber),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: hex(tx.gas),
+      gasUsed: hex(tx.gas),
+      effectiveGasPrice: hex(GAS_PRICE),
+      logs: tx.logs.map(formatLog),
+      logsBloom: `0x${'0'.repeat(512)}`,
+      status: tx.status === 'success' ? '0x1' : '0x0',
+      type: '0x0',
+    }
+  }
+}
+
+function formatLog(log: MockLog) {
+  return {
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: hex(log.blockNumber),
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: '0x0',
+    logIndex: hex(log.logIndex),
+    removed: false,
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * TransactionTracker — persistent record of every Whirlpool write
+ *
+ * The client hands each signed transaction to track(), which records its
+ * hash, action, decoded args, nonce and status, saves the list to a
+ * key-value storage (localStorage in the browser) and waits for the receipt.
+ * After a reload, resume() waits on whatever was still pending, so nothing
+ * in flight is lost. Records are exposed through a subscribable snapshot,
+ * one list per chain, newest first.
+ */
+import { BaseError, WaitForTransactionReceiptTimeoutError } from 'viem'
+import type { Address, Hash, PublicClient, TransactionReceipt } from 'viem'
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed'
+
+export interface TrackedTransaction {
+  hash: Hash
+  chainId: number
+  from: Address
+  /** Contract function that was called, e.g. 'stake' or 'swapExact' */
+  action: string
+  /** Call arguments as strings (bigints in decimal) so they survive JSON */
+  args: string[]
+  /** Wei sent with the call, decimal */
+  value?: string
+  nonce?: number
+  status: TransactionStatus
+  /** Submission time, ms since epoch */
+  submittedAt: number
+  blockNumber?: string
+  /** Hash of the wallet's speed-up or cancel transaction, if it replaced this one */
+  replacedBy?: Hash
+  /** Why a failed transaction failed */
+  error?: string
+}
+
+/** The slice of the Web Storage API the tracker needs */
+export interface TransactionStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+export interface TransactionTrackerOptions {
+  publicClient: PublicClient
+  chainId: number
+  /** Where records persist; in-memory only when omitted */
+  storage?: TransactionStorage
+  /** Records kept, newest first. Default 50 */
+  limit?: number
+}
+
+/** A transaction the wallet just accepted */
+export interface SubmittedTransaction {
+  hash: Hash
+  from: Address
+  action: string
+  args?: readonly unknown[]
+  value?: bigint
+}
+
+const DEFAULT_LIMIT = 50
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'bigint') return arg.toString()
+  if (Array.isArray(arg)) return `[${arg.map(formatArg).join(', ')}]`
+  return String(arg)
+}
+
+export class TransactionTracker {
+  private readonly publicClient: PublicClient
+  private readonly chainId: number
+  private readonly storage?: TransactionStorage
+  private readonly storageKey: string
+  private readonly limit: number
+  private readonly listeners = new Set<() => void>()
+  private readonly waiting = new Map<Hash, Promise<TransactionReceipt>>()
+  private transactions: TrackedTransaction[]
+
+  constructor({ publicClient, chainId, storage, limit = DEFAULT_LIMIT }: TransactionTrackerOptions) {
+    this.publicClient = publicClient
+    this.chainId = chainId
+    this.storage = storage
+    this.storageKey = `whirlpool:transactions:${chainId}`
+    this.limit = limit
+    this.transactions = this.load()
+  }
+
+  getTransactions = (): TrackedTransaction[] => this.transactions
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  get pending(): TrackedTransaction[] {
+    return this.transactions.filter(tx => tx.status === 'pending')
+  }
+
+  /** Record a transaction the wallet just sent and wait for its receipt */
+  track({ hash, from, action, args = [], value }: SubmittedTransaction): Promise<TransactionReceipt> {
+    this.write([{
+      hash, chainId: this.chainId, from, action, args: args.map(formatArg),
+      value: value ? value.toString() : undefined, status: 'pending', submittedAt: Date.now(),
+    }, ...this.transactions.filter(tx => tx.hash !== hash)])
+    return this.wait(hash)
+  }
+
+  /**
+   * Wait again on every transaction still pending — call once after a
+   * reload. Resolves with those records once they have all settled.
+   */
+  async resume(): Promise<TrackedTransaction[]> {
+    const pending = this.pending.map(tx => tx.hash)
+    await Promise.allSettled(pending.map(hash => this.wait(hash)))
+    return this.transactions.filter(tx => pending.includes(tx.hash))
+  }
+
+  /** Forget one record, e.g. a transaction the node dropped */
+  dismiss(hash: Hash): void {
+    this.write(this.transactions.filter(tx => tx.hash !== hash))
+  }
+
+  /** Forget every settled record; pending ones stay */
+  clear(): void {
+    this.write(this.pending)
+  }
+
+  private wait(hash: Hash): Promise<TransactionReceipt> {
+    const inFlight = this.waiting.get(hash)
+    if (inFlight) return inFlight
+    const promise = this.waitForReceipt(hash).finally(() => this.waiting.delete(hash))
+    this.waiting.set(hash, promise)
+    return promise
+  }
+
+  private async waitForReceipt(hash: Hash): Promise<TransactionReceipt> {
+    this.lookupNonce(hash)
+    let cancelled = false
+    try {
+      const receipt = await this.publicClient.waitForTransactionReceipt({
+        hash,
+        onReplaced: ({ reason, transaction }) => {
+          cancelled = reason === 'cancelled'
+          this.update(hash, { replacedBy: transaction.hash })
+        },
+      })
+      const failed = cancelled || receipt.status === 'reverted'
+      this.update(hash, {
+        status: failed ? 'failed' : 'confirmed',
+        blockNumber: receipt.blockNumber.toString(),
+        error: cancelled ? 'cancelled in wallet' : receipt.status === 'reverted' ? 'reverted on-chain' : undefined,
+      })
+      this.lookupNonce(hash)
+      return receipt
+    } catch (e) {
+      // Not mined yet — leave it pending for the next resume()
+      if (!(e instanceof WaitForTransactionReceiptTimeoutError)) {
+        this.update(hash, { status: 'failed', error: e instanceof BaseError ? e.shortMessage : (e as Error).message })
+      }
+      throw e
+    }
+  }
+
+  /** Fill in the nonce the wallet chose, once the node knows the transaction */
+  private lookupNonce(hash: Hash): void {
+    if (this.transactions.find(tx => tx.hash === hash)?.nonce !== undefined) return
+    this.publicClient.getTransaction({ hash }).then(
+      tx => this.update(hash, { nonce: tx.nonce }),
+      () => { /* not propagated yet */ },
+    )
+  }
+
+  private update(hash: Hash, patch: Partial<TrackedTransaction>): void {
+    this.write(this.transactions.map(tx => tx.hash === hash ? { ...tx, ...patch } : tx))
+  }
+
+  private write(transactions: TrackedTransaction[]): void {
+    this.transactions = transactions.slice(0, this.limit)
+    try { this.storage?.setItem(this.storageKey, JSON.stringify(this.transactions)) } catch { /* quota / private mode */ }
+    this.listeners.forEach(l => l())
+  }
+
+  private load(): TrackedTransaction[] {
+    try {
+      const raw = this.storage?.getItem(this.storageKey)
+      return raw ? JSON.parse(raw) : []
+    } catch {
+      return []
+    }
+  }
+}
@@ -0,0 +1,838 @@
+/**
+ * WhirlpoolClient — framework-agnostic ERC-1142 Whirlpool SDK
+ *
+ * All contract logic (card loading, approvals, swap routing, staking,
+ * swapStake and WETH flows) on top of plain viem clients, so the same code
+ * drives the React hook, Node scripts and tests.
+ *
+ * Reads only need a PublicClient. Writes need a WalletClient with an account
+ * and chain attached; every write is simulated first (throwing a decoded
+ * WhirlpoolRevertError before any wallet prompt) and waits for its receipt
+ * before resolving. With a TransactionTracker attached, every sent
+ * transaction is recorded there and its receipt awaited through it.
+ */
+import { formatEther, isAddressEqual, maxUint256 } from 'viem'
+import type {
+  Abi, Account, Address, Chain, ContractFunctionArgs, ContractFunctionName, ContractFunctionParameters, EstimateContractGasParameters,
+  Hash, PublicClient, ReadContractParameters, SimulateContractParameters, TransactionReceipt, Transport, WalletClient,
+  WriteContractParameters,
+} from 'viem'
+import {
+  WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, WETH_ABI, SURFSWAP_ABI, ROUTER_ABI, BIDNFT_ABI,
+} from '../contracts/erc1142'
+import type { ContractAddresses, WhirlpoolNetwork } from '../contracts/networks'
+import { midPrice, quoteExactIn, quoteRoute, withSlippage } from './amm'
+import type { PoolBook } from './amm'
+import { decodeRevert, slippageError } from './errors'
+import { compareRoutes, hopAction, hopLegs, hopTokens, quoteSwapRoute, routePools, routeReserves, swapRoutes } from './router'
+import { planSteal } from './steal'
+import { ownershipMargin, planDefense } from './defense'
+import type { TransactionTracker } from './TransactionTracker'
+import type {
+  ApprovalMode, ApprovalSpender, CardPosition, CardState, ClientLogger, DefensePlan, GasEstimate, GasStep, QuotedHop, StakeEvent,
+  StealPlan, SwapHop, SwapHopResult, SwapPlan, SwapQuote, SwapSource, TokenAllowance, TokenKey, WalletBalances, WethPoolState,
+} from './types'
+
+export type WhirlpoolWalletClient = WalletClient<Transport, Chain, Account>
+
+export interface WhirlpoolClientOptions {
+  network: WhirlpoolNetwork
+  publicClient: PublicClient
+  walletClient?: WhirlpoolWalletClient
+  /** Progress messages emitted mid-action (e.g. approvals) */
+  onLog?: ClientLogger
+  /** Approval size for writes that need one; a function is read on every approval. Default 'unlimited'. */
+  approvalMode?: ApprovalMode | (() => ApprovalMode)
+  /** Records every sent transaction (hash, action, args, nonce, status) */
+  tracker?: TransactionTracker
+}
+
+/** Default router mint fee for createCard */
+export const CREATE_CARD_FEE = 50_000_000_000_000_000n // 0.05 ETH
+
+// Cards per progressive-render step (~9 view calls each)
+const CARDS_PER_BATCH = 50
+// Max calldata per Multicall3 aggregate before viem splits the batch
+const MULTICALL_BATCH_BYTES = 16_384
+
+const APPROVAL_SPENDERS: ApprovalSpender[] = ['SURFSWAP', 'WHIRLPOOL']
+
+// Assumed for a swapExact that can't be estimated yet: without the allowance
+// the node's estimate reverts, so it only becomes exact once the approval lands
+const SWAP_EXACT_GAS_FALLBACK = 150_000n
+
+// Assumed for route hops after the first: they spend tokens the wallet only
+// holds once the hop before lands, so the node can't estimate them yet
+const HOP_GAS_FALLBACK: Record<SwapHop['kind'], bigint> = {
+  wrap: 50_000n, unwrap: 50_000n, unstake: 120_000n, stake: 150_000n, swapExact: SWAP_EXACT_GAS_FALLBACK, swapStake: 250_000n,
+}
+
+type CallResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error }
+
+export class WhirlpoolClient {
+  readonly network: WhirlpoolNetwork
+  readonly contracts: ContractAddresses
+  readonly publicClient: PublicClient
+  readonly walletClient?: WhirlpoolWalletClient
+  private readonly log: ClientLogger
+  private readonly approvalMode: () => ApprovalMode
+  private readonly tracker?: TransactionTracker
+  private readonly tokenCache = new Map<number, Address>()
+
+  constructor({ network, publicClient, walletClient, onLog, approvalMode = 'unlimited', tracker }: WhirlpoolClientOptions) {
+    this.network = network
+    this.contracts = network.contracts
+    this.publicClient = publicClient
+    this.walletClient = walletClient
+    this.log = onLog ?? (() => {})
+    this.approvalMode = typeof approvalMode === 'function' ? approvalMode : () => approvalMode
+    this.tracker = tracker
+  }
+
+  /** Connected account, if a wallet client was supplied */
+  get account(): Address | undefined {
+    return this.walletClient?.account.address
+  }
+
+  // ─── Reads ──────────────────────────────────────────────────
+
+  async totalCards(): Promise<number> {
+    const total = await this.publicClient.readContract({
+      address: this.contracts.ROUTER, abi: ROUTER_ABI, functionName: 'totalCards',
+    })
+    return Number(total)
+  }
+
+  /** ERC-20 address of a card, cached after first lookup */
+  async cardToken(cardId: number): Promise<Address> {
+    const cached = this.tokenCache.get(cardId)
+    if (cached) return cached
+    const addr = await this.publicClient.readContract({
+      address: this.contracts.ROUTER, abi: ROUTER_ABI, functionName: 'cardToken', args: [BigInt(cardId)],
+    })
+    this.tokenCache.set(cardId, addr)
+    return addr
+  }
+
+  /** Map a swap leg key ('waves' | 'weth' | 'card-<id>') to its token address */
+  async resolveToken(key: TokenKey): Promise<Address> {
+    if (key === 'waves') return this.contracts.WAVES
+    if (key === 'weth') return this.contracts.WETH
+    return this.cardToken(parseInt(key.replace('card-', '')))
+  }
+
+  /**
+   * Reserves of the direct SurfSwap pool for a pair, ordered [in, out].
+   * Every pool pairs WAVES with one card token or WETH.
+   */
+  async poolReserves(tokenIn: TokenKey, tokenOut: TokenKey): Promise<[bigint, bigint]> {
+    const other = tokenIn === 'waves' ? tokenOut : tokenOut === 'waves' ? tokenIn : null
+    if (!other || other === 'waves') throw new Error(`No SurfSwap pool for ${tokenIn} → ${tokenOut}`)
+    const [wavesR, otherR] = other === 'weth'
+      ? await this.publicClient.readContract({
+        address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'getWethReserves',
+      })
+      : await this.publicClient.readContract({
+        address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'getReserves',
+        args: [BigInt(other.replace('card-', ''))],
+      })
+    return tokenIn === 'waves' ? [wavesR, otherR] : [otherR, wavesR]
+  }
+
+  /** Quote an exact-in swapExact from current reserves */
+  async quoteSwap(tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint): Promise<SwapQuote> {
+    const [reserveIn, reserveOut] = await this.poolReserves(tokenIn, tokenOut)
+    return { tokenIn, tokenOut, ...quoteExactIn(amountIn, reserveIn, reserveOut) }
+  }
+
+  /** Current reserves of SurfSwap pools by leg key ('card-<id>' or 'weth') */
+  async loadPools(keys: string[]): Promise<PoolBook> {
+    const unique = [...new Set(keys)]
+    const reserves = await Promise.all(unique.map(key => this.poolReserves('waves', key)))
+    return Object.fromEntries(unique.map((key, i) => [key, { waves: reserves[i][0], tokens: reserves[i][1] }]))
+  }
+
+  /**
+   * Route for swapping `amountIn` of tokenIn into tokenOut through whichever
+   * pools connect them (see router.ts): every candidate quoted against
+   * current reserves, the one paying out most chosen, fewer transactions
+   * breaking ties. Accepts 'eth' on either side.
+   */
+  async planSwap(tokenIn: TokenKey, tokenOut: TokenKey, amountIn: bigint, source: SwapSource = 'wallet'): Promise<SwapPlan> {
+    const [plan] = await this.planSwaps([{ tokenIn, amountIn }], tokenOut, source)
+    return plan
+  }
+
+  /**
+   * Several swaps into `tokenOut`, to be sent one after another (the Swap
+   * Stage merging staked positions into one card). Each is planned against
+   * the reserves the ones before it leave, so its quote and min-out guards
+   * hold when it is sent in that order.
+   */
+  async planSwaps(trades: { tokenIn: TokenKey; amountIn: bigint }[], tokenOut: TokenKey, source: SwapSource = 'wallet'): Promise<SwapPlan[]> {
+    const candidates = trades.map(({ tokenIn }) => swapRoutes(tokenIn, tokenOut, source))
+    let pools = await this.loadPools(routePools(candidates.flat()))
+    return trades.map(({ tokenIn, amountIn }, i) => {
+      const [best, ...alternatives] = candidates[i].map(hops => quoteSwapRoute(amountIn, hops, pools)).sort(compareRoutes)
+      pools = routeReserves(best, pools)
+      return { ...best, tokenIn, tokenOut, source, alternatives }
+    })
+  }
+
+  /** A card's current owner and their stake */
+  async cardOwner(cardId: number): Promise<{ owner: Address; stake: bigint }> {
+    const owner = await this.publicClient.readContract({
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'ownerOfCard', args: [BigInt(cardId)],
+    })
+    return { owner, stake: await this.stakeOf(cardId, owner) }
+  }
+
+  /**
+   * Cheapest way for the connected account to outstake a card's owner (see
+   * steal.ts): target tokens in the wallet first, then swapStake out of
+   * `sources` in the order given, then a WAVES buy for the rest.
+   */
+  async planSteal(cardId: number, sources: { cardId: number; shares: bigint }[] = []): Promise<StealPlan> {
+    const account = this.wallet().account.address
+    const [{ owner, stake: ownerStake }, myStake, walletTokens, wavesBalance, pools] = await Promise.all([
+      this.cardOwner(cardId),
+      this.stakeOf(cardId, account),
+      this.tokenBalance(`card-${cardId}`),
+      this.tokenBalance('waves'),
+      this.loadPools([`card-${cardId}`, ...sources.map(s => `card-${s.cardId}`)]),
+    ])
+    return planSteal({ cardId, account, owner, ownerStake, myStake, walletTokens, wavesBalance, sources, pools })
+  }
+
+  /**
+   * What the connected account, as owner, must add to lead `challenger` by
+   * `targetMargin` card tokens (see defense.ts): wallet tokens first, then a
+   * WAVES buy. The challenger comes from the holder index — the chain cannot
+   * list stakers — but their stake is read fresh here.
+   */
+  async planDefense(cardId: number, challenger: Address | null, targetMargin: bigint): Promise<DefensePlan> {
+    const account = this.wallet().account.address
+    const [{ owner, stake: ownerStake }, challengerStake, walletTokens, wavesBalance, pools] = await Promise.all([
+      this.cardOwner(cardId),
+      challenger ? this.stakeOf(cardId, challenger) : 0n,
+      this.tokenBalance(`card-${cardId}`),
+      this.tokenBalance('waves'),
+      this.loadPools([`card-${cardId}`]),
+    ])
+    return planDefense({
+      cardId, account, owner, ownerStake, challenger, challengerStake, targetMargin, walletTokens, wavesBalance, pool: pools[`card-${cardId}`],
+    })
+  }
+
+  /**
+   * Batch view calls: one Multicall3 aggregate per ~MULTICALL_BATCH_BYTES of
+   * calldata (viem splits automatically), or parallel eth_calls coalesced by
+   * the transport's JSON-RPC batching when the chain has no Multicall3.
+   */
+  private async readMany(calls: ContractFunctionParameters[]): Promise<CallResult[]> {
+    if (calls.length === 0) return []
+    if (this.network.multicall3) {
+      return await this.publicClient.multicall({
+        contracts: calls, allowFailure: true,
+        multicallAddress: this.network.multicall3, batchSize: MULTICALL_BATCH_BYTES,
+      }) as CallResult[]
+    }
+    return Promise.all(calls.map(call =>
+      this.publicClient.readContract(call as ReadContractParameters).then(
+        (result): CallResult => ({ status: 'success', result }),
+        (error: Error): CallResult => ({ status: 'failure', error }),
+      )
+    ))
+  }
+
+  /** Fill the token cache for every id in one batch */
+  private async cardTokens(ids: number[]): Promise<(Address | null)[]> {
+    const missing = ids.filter(id => !this.tokenCache.has(id))
+    const results = await this.readMany(missing.map(id => ({
+      address: this.contracts.ROUTER, abi: ROUTER_ABI, functionName: 'cardToken', args: [BigInt(id)],
+    })))
+    results.forEach((r, j) => { if (r.status === 'success') this.tokenCache.set(missing[j], r.result as Address) })
+    return ids.map(id => this.tokenCache.get(id) ?? null)
+  }
+
+  /** Per-card view calls, in the order decodeCard expects */
+  private cardCalls(cardId: number, token: Address, account?: Address): ContractFunctionParameters[] {
+    const id = BigInt(cardId)
+    const calls: ContractFunctionParameters[] = [
+      { address: token, abi: CARD_TOKEN_ABI, functionName: 'name' },
+      { address: token, abi: CARD_TOKEN_ABI, functionName: 'symbol' },
+      { address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'ownerOfCard', args: [id] },
+      { address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'getPrice', args: [id] },
+      { address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'getReserves', args: [id] },
+      { address: this.contracts.BIDNFT, abi: BIDNFT_ABI, functionName: 'tokenURI', args: [id] },
+    ]
+    if (account) {
+      calls.push(
+        { address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [id, account] },
+        { address: token, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [account] },
+        { address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'pendingRewards', args: [id, account] },
+      )
+    }
+    return calls
+  }
+
+  /** Build a CardState from cardCalls results, less the owner's stake; null if a required read failed */
+  private decodeCard(cardId: number, token: Address, results: CallResult[]): Omit<CardState, 'ownerStake'> | null {
+    const [name, symbol, owner, price, reserves, uri, stake, balance, pending] =
+      results.map(r => r.status === 'success' ? r.result : undefined)
+    if ([name, symbol, owner, price, reserves].includes(undefined)) return null
+    if (results.length > 6 && (stake === undefined || balance === undefined)) return null
+    const [wavesR, cardsR] = reserves as readonly [bigint, bigint]
+    return {
+      id: cardId, name: name as string, symbol: symbol as string, uri: (uri as string | undefined) ?? '', address: token,
+      owner: owner as string, price: formatEther(price as bigint),
+      wavesReserve: formatEther(wavesR), cardReserve: formatEther(cardsR),
+      myStake: stake !== undefined ? formatEther(stake as bigint) : '0',
+      myBalance: balance !== undefined ? formatEther(balance as bigint) : '0',
+      pendingRewards: pending !== undefined ? formatEther(pending as bigint) : '0',
+    }
+  }
+
+  /** Load one card's on-chain state; `account` adds its stake, wallet balance and pending rewards */
+  async loadCard(cardId: number, account?: Address): Promise<CardState> {
+    const token = await this.cardToken(cardId)
+    const card = this.decodeCard(cardId, token, await this.readMany(this.cardCalls(cardId, token, account)))
+    if (!card) throw new Error(`Card #${cardId} failed to load`)
+    return (await this.withOwnerStakes([card]))[0]
+  }
+
+  /** Add each card's ownerStake — stakeOf(card, owner), one batch for all of them */
+  private async withOwnerStakes(cards: Omit<CardState, 'ownerStake'>[]): Promise<CardState[]> {
+    const results = await this.readMany(cards.map(card => ({
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [BigInt(card.id), card.owner as Address],
+    })))
+    return cards.map((card, i) => {
+      const r = results[i]
+      return { ...card, ownerStake: r.status === 'success' ? formatEther(r.result as bigint) : '0' }
+    })
+  }
+
+  /**
+   * Allowance of every protocol token — WAVES, WETH and each card token from
+   * ROUTER.cardToken — to SurfSwap and Whirlpool, in one batch.
+   */
+  async getAllowances(owner: Address): Promise<TokenAllowance[]> {
+    const ids = Array.from({ length: await this.totalCards() }, (_, i) => i)
+    const cardTokens = await this.cardTokens(ids)
+    const tokens: { key: TokenKey; token: Address }[] = [
+      { key: 'waves', token: this.contracts.WAVES },
+      { key: 'weth', token: this.contracts.WETH },
+      ...ids.flatMap(id => cardTokens[id] ? [{ key: `card-${id}`, token: cardTokens[id]! }] : []),
+    ]
+    const results = await this.readMany(tokens.flatMap(({ token }) => APPROVAL_SPENDERS.map(spender => ({
+      address: token, abi: CARD_TOKEN_ABI, functionName: 'allowance', args: [owner, this.contracts[spender]],
+    }))))
+    return tokens.flatMap((t, i) => APPROVAL_SPENDERS.map((spender, j) => {
+      const r = results[i * APPROVAL_SPENDERS.length + j]
+      return {
+        ...t, spender, spenderAddress: this.contracts[spender],
+        allowance: r.status === 'success' ? r.result as bigint : 0n,
+      }
+    }))
+  }
+
+  /** One account's stake, wallet balance and pending rewards in a card */
+  async loadPosition(cardId: number, account: Address): Promise<CardPosition> {
+    const token = await this.cardToken(cardId)
+    const [stake, balance, pending] = await Promise.all([
+      this.publicClient.readContract({ address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [BigInt(cardId), account] }),
+      this.publicClient.readContract({ address: token, abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [account] }),
+      this.publicClient.readContract({ address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'pendingRewards', args: [BigInt(cardId), account] }),
+    ])
+    return { myStake: formatEther(stake), myBalance: formatEther(balance), pendingRewards: formatEther(pending) }
+  }
+
+  /**
+   * Load every card: token addresses in one batch, then card state in
+   * batches of CARDS_PER_BATCH. Cards that fail to load are skipped.
+   * `onProgress` receives the cards loaded so far after each batch.
+   */
+  async loadCards(account?: Address, onProgress?: (cards: CardState[]) => void): Promise<CardState[]> {
+    const total = await this.totalCards()
+    const ids = Array.from({ length: total }, (_, i) => i)
+    const tokens = await this.cardTokens(ids)
+    const cards: CardState[] = []
+    for (let start = 0; start < total; start += CARDS_PER_BATCH) {
+      const batch = ids.slice(start, start + CARDS_PER_BATCH).filter(id => tokens[id])
+      const perCard = batch.map(id => this.cardCalls(id, tokens[id]!, account))
+      const results = await this.readMany(perCard.flat())
+      const decoded: Omit<CardState, 'ownerStake'>[] = []
+      let offset = 0
+      batch.forEach((id, j) => {
+        const card = this.decodeCard(id, tokens[id]!, results.slice(offset, offset + perCard[j].length))
+        offset += perCard[j].length
+        if (card) decoded.push(card)
+      })
+      cards.push(...await this.withOwnerStakes(decoded))
+      onProgress?.([...cards])
+    }
+    return cards
+  }
+
+  async getBalances(account: Address): Promise<WalletBalances> {
+    const [eth, waves, weth, wethStake] = await Promise.all([
+      this.publicClient.getBalance({ address: account }),
+      this.publicClient.readContract({ address: this.contracts.WAVES, abi: WAVES_ABI, functionName: 'balanceOf', args: [account] }),
+      this.publicClient.readContract({ address: this.contracts.WETH, abi: WETH_ABI, functionName: 'balanceOf', args: [account] }),
+      this.publicClient.readContract({ address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'userWethStake', args: [account] }),
+    ])
+    return {
+      eth: formatEther(eth),
+      waves: formatEther(waves),
+      weth: formatEther(weth),
+      wethStake: formatEther(wethStake),
+    }
+  }
+
+  /** Total WETH staked in Whirlpool and the WETH price in WAVES */
+  async getWethPool(): Promise<WethPoolState> {
+    const [totalStaked, [wavesR, wethR]] = await Promise.all([
+      this.publicClient.readContract({ address: this.contracts.WETH, abi: WETH_ABI, functionName: 'balanceOf', args: [this.contracts.WHIRLPOOL] }),
+      this.publicClient.readContract({ address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'getWethReserves' }),
+    ])
+    return {
+      totalStaked: formatEther(totalStaked),
+      wethPrice: String(midPrice(wethR, wavesR)),
+    }
+  }
+
+  /** WETH-pool rewards accrued to `account`, formatted ether */
+  async pendingGlobalRewards(account: Address): Promise<string> {
+    const pending = await this.publicClient.readContract({
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'pendingGlobalRewards', args: [account],
+    })
+    return formatEther(pending)
+  }
+
+  /**
+   * Staked / Unstaked / OwnerChanged events in [fromBlock, toBlock], in chain
+   * order. OwnerChanged events carry their block timestamp.
+   */
+  async getStakeEvents(fromBlock: bigint, toBlock: bigint): Promise<StakeEvent[]> {
+    const logs = await this.publicClient.getContractEvents({
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, fromBlock, toBlock,
+    })
+    const timestamps = await this.blockTimestamps(logs.filter(l => l.eventName === 'OwnerChanged').map(l => l.blockNumber))
+    const events: StakeEvent[] = []
+    for (const log of logs) {
+      const meta = {
+        blockNumber: log.blockNumber, logIndex: log.logIndex, transactionHash: log.transactionHash,
+      }
+      if (log.eventName === 'Staked' || log.eventName === 'Unstaked') {
+        const { cardId, user, amount } = log.args
+        events.push({ ...meta, kind: log.eventName, cardId: Number(cardId!), user: user!, amount: amount! })
+      } else if (log.eventName === 'OwnerChanged') {
+        const { cardId, previousOwner, newOwner } = log.args
+        events.push({
+          ...meta, kind: 'OwnerChanged', cardId: Number(cardId!), previousOwner: previousOwner!, newOwner: newOwner!,
+          timestamp: timestamps.get(log.blockNumber)!,
+        })
+      }
+    }
+    return events
+  }
+
+  /** Unix-second timestamps for a set of blocks, fetched in parallel */
+  async blockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+    const unique = [...new Set(blockNumbers)]
+    const blocks = await Promise.all(unique.map(blockNumber => this.publicClient.getBlock({ blockNumber })))
+    return new Map(blocks.map(b => [b.number, Number(b.timestamp)]))
+  }
+
+  /** Subscribe to OwnerChanged; returns the unwatch function */
+  watchOwnerChanged(onChange: (change: { cardId: bigint; previousOwner: Address; newOwner: Address }[]) => void): () => void {
+    return this.publicClient.watchContractEvent({
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, eventName: 'OwnerChanged',
+      onLogs: logs => onChange(logs.map(l => ({
+        cardId: l.args.cardId!, previousOwner: l.args.previousOwner!, newOwner: l.args.newOwner!,
+      }))),
+    })
+  }
+
+  // ─── Writes ─────────────────────────────────────────────────
+
+  private wallet(): WhirlpoolWalletClient {
+    if (!this.walletClient) throw new Error('No wallet connected')
+    return this.walletClient
+  }
+
+  private confirm(hash: Hash): Promise<TransactionReceipt> {
+    return this.publicClient.waitForTransactionReceipt({ hash })
+  }
+
+  /** Simulate, then sign the simulated request and wait for its receipt (via the tracker, if any) */
+  private async execute<
+    const abi extends Abi,
+    functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+    const args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+  >(action: string, params: { address: Address; abi: abi; functionName: functionName; args?: args; value?: bigint }): Promise<TransactionReceipt> {
+    const wallet = this.wallet()
+    // viem's parameter types are conditional on the ABI, so TS can't build them from generic params by itself;
+    // the cast names the exact types for this function, and call sites are checked against the ABI by the signature
+    const request = { ...params, account: wallet.account, chain: wallet.chain } as WriteContractParameters<abi, functionName, args, Chain, Account>
+    try {
+      await this.publicClient.simulateContract(request as SimulateContractParameters<abi, functionName, args, Chain, Chain, Account>)
+    } catch (e) {
+      throw decodeRevert(action, e)
+    }
+    const hash = await wallet.writeContract(request)
+    if (!this.tracker) return this.confirm(hash)
+    return this.tracker.track({ hash, from: wallet.account.address, action, args: params.args as readonly unknown[], value: params.value })
+  }
+
+  /** eth_estimateGas for a write, reverts decoded the same way as execute() */
+  private async estimateGas<
+    const abi extends Abi,
+    functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+    const args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+  >(action: string, params: { address: Address; abi: abi; functionName: functionName; args?: args; value?: bigint }): Promise<bigint> {
+    const wallet = this.wallet()
+    try {
+      return await this.publicClient.estimateContractGas(
+        { ...params, account: wallet.account } as EstimateContractGasParameters<abi, functionName, args, Chain>,
+      )
+    } catch (e) {
+      throw decodeRevert(action, e)
+    }
+  }
+
+  /**
+   * Allowance ensureApproval would grant `spender` on `token` for `amount` —
+   * exactly `amount` or maxUint256, per the approvalMode option — or null if
+   * the current allowance already covers it.
+   */
+  private async approvalAmount(token: Address, spender: Address, amount: bigint): Promise<bigint | null> {
+    const allowance = await this.publicClient.readContract({
+      address: token, abi: CARD_TOKEN_ABI, functionName: 'allowance', args: [this.wallet().account.address, spender],
+    })
+    if (allowance >= amount) return null
+    return this.approvalMode() === 'exact' ? amount : maxUint256
+  }
+
+  /** Approve `spender` for `token` if the current allowance is short */
+  async ensureApproval(token: Address, spender: Address, amount: bigint): Promise<void> {
+    const approval = await this.approvalAmount(token, spender, amount)
+    if (approval === null) return
+    this.log(`Approving ${approval === maxUint256 ? 'unlimited' : formatEther(approval)} for ${spender.slice(0, 10)}...`, 'info')
+    await this.approve(token, spender, approval)
+    this.log(`✓ Approval confirmed`, 'success')
+  }
+
+  /**
+   * Gas for the transactions swap() would send: one swapStake for a staked
+   * card → card move, otherwise an approval (if the allowance is short) plus
+   * swapExact.
+   */
+  async estimateSwap(
+    tokenIn: TokenKey, tokenOut: TokenKey, amount: bigint, minAmountOut: bigint, source: SwapSource = 'wallet',
+  ): Promise<GasStep[]> {
+    if (tokenIn.startsWith('card-') && tokenOut.startsWith('card-') && source === 'staked') {
+      return [await this.estimateSwapStake(parseInt(tokenIn.replace('card-', '')), parseInt(tokenOut.replace('card-', '')), amount)]
+    }
+    const [addrIn, addrOut] = await Promise.all([this.resolveToken(tokenIn), this.resolveToken(tokenOut)])
+    const approval = await this.approvalAmount(addrIn, this.contracts.SURFSWAP, amount)
+    if (approval !== null) {
+      const gas = await this.estimateGas('approve', {
+        address: addrIn, abi: CARD_TOKEN_ABI, functionName: 'approve', args: [this.contracts.SURFSWAP, approval],
+      })
+      return [{ action: 'approve', gas, exact: true }, { action: 'swapExact', gas: SWAP_EXACT_GAS_FALLBACK, exact: false }]
+    }
+    const gas = await this.estimateGas('swapExact', {
+      address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'swapExact',
+      args: [addrIn, addrOut, amount, minAmountOut],
+    })
+    return [{ action: 'swapExact', gas, exact: true }]
+  }
+
+  /**
+   * Gas for the transactions executeSwapPlan would send. The first hop is
+   * estimated exactly; later hops spend what earlier ones return, so they
+   * get a fallback plus an approval wherever the allowance is already short.
+   */
+  async estimateSwapPlan(plan: SwapPlan): Promise<GasStep[]> {
+    const [first, ...rest] = plan.hops
+    const steps = (await this.estimateFirstHop(first)).map(step => step.action === 'approve' ? step : { ...step, hop: first })
+    for (const hop of rest) {
+      const spender = hop.kind === 'swapExact' ? this.contracts.SURFSWAP : hop.kind === 'stake' ? this.contracts.WHIRLPOOL : null
+      if (spender) {
+        const token = await this.resolveToken(hopTokens(hop)[0])
+        const approval = await this.approvalAmount(token, spender, hop.amountIn)
+        if (approval !== null) {
+          const gas = await this.estimateGas('approve', {
+            address: token, abi: CARD_TOKEN_ABI, functionName: 'approve', args: [spender, approval],
+          })
+          steps.push({ action: 'approve', gas, exact: true })
+        }
+      }
+      steps.push({ action: hopAction(hop), gas: HOP_GAS_FALLBACK[hop.kind], exact: false, hop })
+    }
+    return steps
+  }
+
+  private async estimateFirstHop(hop: QuotedHop): Promise<GasStep[]> {
+    const amount = hop.amountIn
+    switch (hop.kind) {
+      case 'swapExact':
+        return this.estimateSwap(hop.tokenIn, hop.tokenOut, amount, 0n)
+      case 'swapStake':
+        return [await this.estimateSwapStake(hop.fromCard, hop.toCard, amount)]
+      case 'wrap':
+        return [{ action: 'deposit', exact: true, gas: await this.estimateGas('deposit', {
+          address: this.contracts.WETH, abi: WETH_ABI, functionName: 'deposit', value: amount,
+        }) }]
+      case 'unwrap':
+        return [{ action: 'withdraw', exact: true, gas: await this.estimateGas('withdraw', {
+          address: this.contracts.WETH, abi: WETH_ABI, functionName: 'withdraw', args: [amount],
+        }) }]
+      case 'unstake':
+        return [{ action: 'unstake', exact: true, gas: await this.estimateGas('unstake', {
+          address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'unstake', args: [BigInt(hop.cardId), amount],
+        }) }]
+      case 'stake':
+        return [{ action: 'stake', gas: HOP_GAS_FALLBACK.stake, exact: false }]
+    }
+  }
+
+  async estimateSwapStake(fromCard: number, toCard: number, shares: bigint): Promise<GasStep> {
+    const gas = await this.estimateGas('swapStake', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'swapStake',
+      args: [BigInt(fromCard), BigInt(toCard), shares],
+    })
+    return { action: 'swapStake', gas, exact: true }
+  }
+
+  /** Gas for one claimRewards per card */
+  async estimateClaims(cardIds: number[]): Promise<GasStep[]> {
+    return Promise.all(cardIds.map(async cardId => ({
+      action: 'claimRewards',
+      gas: await this.estimateGas('claimRewards', {
+        address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'claimRewards', args: [BigInt(cardId)],
+      }),
+      exact: true,
+    })))
+  }
+
+  /** Price estimated steps at the node's current gas price */
+  async priceGas(steps: GasStep[]): Promise<GasEstimate> {
+    const gasPrice = await this.publicClient.getGasPrice()
+    const totalGas = steps.reduce((sum, s) => sum + s.gas, 0n)
+    return { steps, gasPrice, totalGas, totalFee: totalGas * gasPrice }
+  }
+
+  /** Set `spender`'s allowance on `token` to exactly `amount` (0n revokes) */
+  async approve(token: Address, spender: Address, amount: bigint): Promise<TransactionReceipt> {
+    return this.execute('approve', { address: token, abi: CARD_TOKEN_ABI, functionName: 'approve', args: [spender, amount] })
+  }
+
+  async createCard(name: string, symbol: string, uri = '', fee = CREATE_CARD_FEE): Promise<TransactionReceipt> {
+    return this.execute('createCard', {
+      address: this.contracts.ROUTER, abi: ROUTER_ABI, functionName: 'createCard',
+      args: [name, symbol, uri], value: fee,
+    })
+  }
+
+  /**
+   * Swap `amount` of tokenIn for tokenOut. Staked card → card swaps move the
+   * position with swapStake; everything else goes through SurfSwap.swapExact,
+   * which reverts if it would pay out less than `minAmountOut`
+   * (see quoteSwap + withSlippage). For pairs without a direct pool, see
+   * planSwap and executeSwapPlan.
+   */
+  async swap(
+    tokenIn: TokenKey, tokenOut: TokenKey, amount: bigint, minAmountOut: bigint, source: SwapSource = 'wallet',
+  ): Promise<TransactionReceipt> {
+    if (tokenIn.startsWith('card-') && tokenOut.startsWith('card-') && source === 'staked') {
+      return this.swapStake(parseInt(tokenIn.replace('card-', '')), parseInt(tokenOut.replace('card-', '')), amount)
+    }
+    const [addrIn, addrOut] = await Promise.all([this.resolveToken(tokenIn), this.resolveToken(tokenOut)])
+    await this.ensureApproval(addrIn, this.contracts.SURFSWAP, amount)
+    return this.execute('swapExact', {
+      address: this.contracts.SURFSWAP, abi: SURFSWAP_ABI, functionName: 'swapExact',
+      args: [addrIn, addrOut, amount, minAmountOut],
+    })
+  }
+
+  /**
+   * Send a plan's hops in order, each spending what the one before actually
+   * returned. Every priced hop is guarded by its quote scaled to that actual
+   * input, less `slippageBps`: swapExact enforces it on chain, and swapStake,
+   * which takes no min-out, is re-quoted against fresh reserves right before
+   * it is sent. A hop that would break its guard stops the route there.
+   */
+  async executeSwapPlan(plan: SwapPlan, slippageBps: number): Promise<SwapHopResult[]> {
+    const results: SwapHopResult[] = []
+    let amountIn = plan.amountIn
+    for (const [i, hop] of plan.hops.entries()) {
+      if (plan.hops.length > 1) this.log(`Step ${i + 1}/${plan.hops.length}: ${hopAction(hop)} ${hopTokens(hop).join(' → ')}`, 'info')
+      const minAmountOut = hopLegs(hop).length === 0 || hop.amountIn === 0n
+        ? amountIn
+        : withSlippage(hop.amountOut * amountIn / hop.amountIn, slippageBps)
+      const { receipt, amountOut } = await this.sendHop(hop, amountIn, minAmountOut)
+      results.push({ hop, amountIn, amountOut, minAmountOut, receipt })
+      amountIn = amountOut
+    }
+    return results
+  }
+
+  /** One route hop; `amountOut` is what the account actually received */
+  private async sendHop(hop: SwapHop, amount: bigint, minAmountOut: bigint): Promise<{ receipt: TransactionReceipt; amountOut: bigint }> {
+    switch (hop.kind) {
+      case 'wrap':
+        return { receipt: await this.wrapETH(amount), amountOut: amount }
+      case 'unwrap':
+        return { receipt: await this.unwrapETH(amount), amountOut: amount }
+      case 'unstake':
+        return { receipt: await this.unstake(hop.cardId, amount), amountOut: amount }
+      case 'stake':
+        return { receipt: await this.stake(hop.cardId, amount), amountOut: amount }
+      case 'swapExact': {
+        const before = await this.tokenBalance(hop.tokenOut)
+        const receipt = await this.swap(hop.tokenIn, hop.tokenOut, amount, minAmountOut)
+        return { receipt, amountOut: await this.tokenBalance(hop.tokenOut) - before }
+      }
+      case 'swapStake': {
+        const account = this.wallet().account.address
+        await this.guardSwapStake(hop.fromCard, hop.toCard, amount, minAmountOut)
+        const before = await this.stakeOf(hop.toCard, account)
+        const receipt = await this.swapStake(hop.fromCard, hop.toCard, amount)
+        return { receipt, amountOut: await this.stakeOf(hop.toCard, account) - before }
+      }
+    }
+  }
+
+  /** swapStake takes no min-out: re-quote it against fresh reserves and refuse a shortfall before sending */
+  private async guardSwapStake(fromCard: number, toCard: number, shares: bigint, minAmountOut: bigint): Promise<void> {
+    const legs = hopLegs({ kind: 'swapStake', fromCard, toCard })
+    const fresh = quoteRoute(shares, legs, await this.loadPools(legs.map(leg => leg.pool)))
+    if (fresh.amountOut < minAmountOut) throw slippageError('swapStake', fresh.amountOut, minAmountOut)
+  }
+
+  /**
+   * Send a StealPlan. The owner's stake is re-read first: if it grew, the
+   * plan no longer takes the card and nothing is sent. Swaps accept no
+   * shortfall, since less would not take the card — swapExact enforces it on
+   * chain, swapStake is re-quoted. Returns the receipts and the owner after.
+   */
+  async executeStealPlan(plan: StealPlan): Promise<{ receipts: TransactionReceipt[]; owner: Address }> {
+    const { stake } = await this.cardOwner(plan.cardId)
+    if (stake > plan.ownerStake) {
+      throw new Error(`Card #${plan.cardId}'s owner now stakes ${formatEther(stake)}, up from ${formatEther(plan.ownerStake)} — plan again`)
+    }
+    const receipts: TransactionReceipt[] = []
+    for (const step of plan.steps) {
+      switch (step.kind) {
+        case 'swapStake':
+          await this.guardSwapStake(step.fromCard, plan.cardId, step.shares, step.amountOut)
+          receipts.push(await this.swapStake(step.fromCard, plan.cardId, step.shares))
+          break
+        case 'buy':
+          receipts.push(await this.swap('waves', `card-${plan.cardId}`, step.wavesIn, step.amountOut))
+          break
+        case 'stake':
+          receipts.push(await this.stake(plan.cardId, step.amount))
+          break
+      }
+    }
+    return { receipts, owner: (await this.cardOwner(plan.cardId)).owner }
+  }
+
+  /**
+   * Send a DefensePlan. Ownership and the challenger's stake are re-read
+   * first: if the card changed hands or the challenger added stake, the plan
+   * no longer restores the margin and nothing is sent. The buy accepts no
+   * shortfall. Returns the receipts and the margin after.
+   */
+  async executeDefensePlan(plan: DefensePlan): Promise<{ receipts: TransactionReceipt[]; margin: bigint }> {
+    const account = this.wallet().account.address
+    const challengerStake = () => plan.challenger ? this.stakeOf(plan.cardId, plan.challenger) : Promise.resolve(0n)
+    const [{ owner }, before] = await Promise.all([this.cardOwner(plan.cardId), challengerStake()])
+    if (!isAddressEqual(owner, account)) throw new Error(`Card #${plan.cardId} now belongs to ${owner} — take it back first`)
+    if (before > plan.challengerStake) {
+      throw new Error(`Card #${plan.cardId}'s challenger now stakes ${formatEther(before)}, up from ${formatEther(plan.challengerStake)} — plan again`)
+    }
+    const receipts: TransactionReceipt[] = []
+    for (const step of plan.steps) {
+      receipts.push(step.kind === 'buy'
+        ? await this.swap('waves', `card-${plan.cardId}`, step.wavesIn, step.amountOut)
+        : await this.stake(plan.cardId, step.amount))
+    }
+    const [after, challenger] = await Promise.all([this.stakeOf(plan.cardId, account), challengerStake()])
+    return { receipts, margin: ownershipMargin(after, challenger) }
+  }
+
+  private async tokenBalance(key: TokenKey): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: await this.resolveToken(key), abi: CARD_TOKEN_ABI, functionName: 'balanceOf', args: [this.wallet().account.address],
+    })
+  }
+
+  private async stakeOf(cardId: number, account: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'stakeOf', args: [BigInt(cardId), account],
+    })
+  }
+
+  async stake(cardId: number, amount: bigint): Promise<TransactionReceipt> {
+    await this.ensureApproval(await this.cardToken(cardId), this.contracts.WHIRLPOOL, amount)
+    return this.execute('stake', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'stake', args: [BigInt(cardId), amount],
+    })
+  }
+
+  async unstake(cardId: number, amount: bigint): Promise<TransactionReceipt> {
+    return this.execute('unstake', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'unstake', args: [BigInt(cardId), amount],
+    })
+  }
+
+  async swapStake(fromCard: number, toCard: number, shares: bigint): Promise<TransactionReceipt> {
+    return this.execute('swapStake', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'swapStake',
+      args: [BigInt(fromCard), BigInt(toCard), shares],
+    })
+  }
+
+  async stakeWETH(amount: bigint): Promise<TransactionReceipt> {
+    await this.ensureApproval(this.contracts.WETH, this.contracts.WHIRLPOOL, amount)
+    return this.execute('stakeWETH', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'stakeWETH', args: [amount],
+    })
+  }
+
+  async unstakeWETH(amount: bigint): Promise<TransactionReceipt> {
+    return this.execute('unstakeWETH', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'unstakeWETH', args: [amount],
+    })
+  }
+
+  async claimRewards(cardId: number): Promise<TransactionReceipt> {
+    return this.execute('claimRewards', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'claimRewards', args: [BigInt(cardId)],
+    })
+  }
+
+  async claimWETHRewards(): Promise<TransactionReceipt> {
+    return this.execute('claimWETHRewards', {
+      address: this.contracts.WHIRLPOOL, abi: WHIRLPOOL_ABI, functionName: 'claimWETHRewards',
+    })
+  }
+
+  async wrapETH(amount: bigint): Promise<TransactionReceipt> {
+    return this.execute('deposit', {
+      address: this.contracts.WETH, abi: WETH_ABI, functionName: 'deposit', value: amount,
+    })
+  }
+
+  async unwrapETH(amount: bigint): Promise<TransactionReceipt> {
+    return this.execute('withdraw', {
+      address: this.contracts.WETH, abi: WETH_ABI, functionName: 'withdraw', args: [amount],
+    })
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { parseEther } from 'viem'
+import {
+  cardPool, executionPrice, getAmountIn, getAmountOut, midPrice, priceImpact, quoteExactIn, quoteExactOut, quoteRoute,
+  quoteRoutes, withSlippage,
+} from './amm'
+import type { PoolBook } from './amm'
+
+const e = (n: number | string) => parseEther(String(n))
+
+describe('getAmountOut', () => {
+  it('applies the 0.3% fee and the constant product', () => {
+    // 1000 in against 10k/10k: 997·10000 / (10000 + 997) = 906.61
+    expect(getAmountOut(e(1000), e(10_000), e(10_000))).toBe(906610893880149131581n)
+  })
+
+  it('pays nothing for nothing and refuses an empty pool', () => {
+    expect(getAmountOut(0n, e(1), e(1))).toBe(0n)
+    expect(() => getAmountOut(e(1), 0n, e(1))).toThrow('Pool has no liquidity')
+  })
+})
+
+describe('getAmountIn', () => {
+  it('is the smallest input that buys the output', () => {
+    const [reserveIn, reserveOut] = [e(90_000), e(900_000)]
+    for (const out of [e(1), e(12_345.678), e(450_000)]) {
+      const amountIn = getAmountIn(out, reserveIn, reserveOut)
+      expect(getAmountOut(amountIn, reserveIn, reserveOut)).toBeGreaterThanOrEqual(out)
+      expect(getAmountOut(amountIn - 2n, reserveIn, reserveOut)).toBeLessThan(out)
+    }
+  })
+
+  it('cannot drain the pool', () => {
+    expect(() => getAmountIn(e(10), e(10), e(10))).toThrow('Pool cannot pay out that much')
+    expect(getAmountIn(0n, e(10), e(10))).toBe(0n)
+  })
+})
+
+describe('prices', () => {
+  it('reads mid price from reserves and execution price from the trade', () => {
+    expect(midPrice(e(90_000), e(900_000))).toBe(10)
+    expect(midPrice(0n, e(1))).toBe(0)
+    expect(executionPrice(e(4), e(2))).toBe(0.5)
+    expect(executionPrice(0n, e(2))).toBe(0)
+  })
+
+  it('measures impact as the execution shortfall against mid, fee included', () => {
+    const out = getAmountOut(e(1), e(1_000_000), e(1_000_000))
+    expect(priceImpact(e(1), out, e(1_000_000), e(1_000_000))).toBeCloseTo(0.003, 5)
+  })
+})
+
+describe('quoteExactIn / quoteExactOut', () => {
+  it('agree with each other', () => {
+    const exactOut = quoteExactOut(e(500), e(1_000), e(2_000))
+    const exactIn = quoteExactIn(exactOut.amountIn, e(1_000), e(2_000))
+    expect(exactIn.amountOut).toBeGreaterThanOrEqual(e(500))
+    expect(exactIn.amountOut - e(500)).toBeLessThan(10n)
+  })
+
+  it('report mid, execution and impact together', () => {
+    const q = quoteExactIn(e(100), e(1_000), e(2_000))
+    expect(q.midPrice).toBe(2)
+    expect(q.executionPrice).toBeCloseTo(Number(q.amountOut) / Number(e(100)), 12)
+    expect(q.priceImpact).toBeCloseTo(1 - q.executionPrice / q.midPrice, 5)
+  })
+})
+
+describe('withSlippage', () => {
+  it('takes basis points off the quote', () => {
+    expect(withSlippage(e(100), 50)).toBe(e(99.5))
+    expect(withSlippage(e(100), 0)).toBe(e(100))
+  })
+})
+
+describe('routes', () => {
+  const pools: PoolBook = {
+    'card-0': { waves: e(90_000), tokens: e(900_000) },
+    'card-1': { waves: e(1_000), tokens: e(500) },
+  }
+  const cardToCard = [{ pool: 'card-0', side: 'sell' as const }, { pool: 'card-1', side: 'buy' as const }]
+
+  it('feeds each leg the previous output and moves both pools', () => {
+    const q = quoteRoute(e(1_000), cardToCard, pools)
+    const waves = getAmountOut(e(1_000), e(900_000), e(90_000))
+    expect(q.legs[0].amountOut).toBe(waves)
+    expect(q.amountOut).toBe(getAmountOut(waves, e(1_000), e(500)))
+    expect(q.pools['card-0']).toEqual({ waves: e(90_000) - waves, tokens: e(901_000) })
+    expect(q.pools['card-1']).toEqual({ waves: e(1_000) + waves, tokens: e(500) - q.amountOut })
+    expect(pools['card-0'].waves).toBe(e(90_000))
+  })
+
+  it('multiplies mid prices across legs', () => {
+    const q = quoteRoute(e(1), cardToCard, pools)
+    expect(q.midPrice).toBeCloseTo(0.1 * 0.5, 12)
+    expect(q.priceImpact).toBeGreaterThan(0.006)
+    expect(q.priceImpact).toBeLessThan(0.007)
+  })
+
+  it('rejects a pool it does not know', () => {
+    expect(() => quoteRoute(e(1), [{ pool: 'card-9', side: 'sell' }], pools)).toThrow('No SurfSwap pool for card-9')
+  })
+
+  it('carries reserves between sequential routes', () => {
+    const { quotes, pools: after } = quoteRoutes([
+      { amountIn: e(1_000), route: cardToCard },
+      { amountIn: e(1_000), route: cardToCard },
+    ], pools)
+    expect(quotes[1].amountOut).toBeLessThan(quotes[0].amountOut)
+    expect(after['card-0'].tokens).toBe(e(902_000))
+  })
+
+  it('builds a pool from CardState reserves', () => {
+    expect(cardPool({ wavesReserve: '90000', cardReserve: '900000.5' })).toEqual({ waves: e(90_000), tokens: e('900000.5') })
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * amm — constant-product (x·y = k) math for SurfSwap pools
+ *
+ * Pure bigint helpers behind swap quotes, estimates and on-chain min-out
+ * guards: exact-in / exact-out quotes against one pool, mid vs execution
+ * price, and multi-leg routes that carry reserves from one leg to the next.
+ * Amounts are raw 18-decimal units; every pool pairs WAVES with one card
+ * token or WETH.
+ */
+import { parseEther } from 'viem'
+import type { CardMarket } from './types'
+
+/** Basis-point denominator */
+export const BPS = 10_000n
+
+/** SurfSwap fee taken from the input amount, in basis points */
+export const SURFSWAP_FEE_BPS = 30n
+
+/** Output for an exact input against one pool, after the swap fee */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = SURFSWAP_FEE_BPS): bigint {
+  if (amountIn <= 0n) return 0n
+  if (reserveIn <= 0n || reserveOut <= 0n) throw new Error('Pool has no liquidity')
+  const inWithFee = amountIn * (BPS - feeBps)
+  return (inWithFee * reserveOut) / (reserveIn * BPS + inWithFee)
+}
+
+/** Input needed for an exact output against one pool, after the swap fee (rounded up) */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = SURFSWAP_FEE_BPS): bigint {
+  if (amountOut <= 0n) return 0n
+  if (reserveIn <= 0n || reserveOut <= 0n) throw new Error('Pool has no liquidity')
+  if (amountOut >= reserveOut) throw new Error('Pool cannot pay out that much')
+  return (reserveIn * amountOut * BPS) / ((reserveOut - amountOut) * (BPS - feeBps)) + 1n
+}
+
+/** Output per unit of input at the current reserves, before any trade */
+export function midPrice(reserveIn: bigint, reserveOut: bigint): number {
+  return reserveIn > 0n ? Number(reserveOut) / Number(reserveIn) : 0
+}
+
+/** Output per unit of input a trade actually gets */
+export function executionPrice(amountIn: bigint, amountOut: bigint): number {
+  return amountIn > 0n ? Number(amountOut) / Number(amountIn) : 0
+}
+
+/**
+ * How far the execution price falls short of the pool's mid price, as a
+ * fraction (0.012 = 1.2%). Includes the fee, as the user experiences it.
+ */
+export function priceImpact(amountIn: bigint, amountOut: bigint, reserveIn: bigint, reserveOut: bigint): number {
+  if (amountIn <= 0n || reserveIn <= 0n) return 0
+  const midOut = (amountIn * reserveOut) / reserveIn
+  if (midOut <= 0n) return 0
+  return Number(((midOut - amountOut) * 1_000_000n) / midOut) / 1_000_000
+}
+
+/** Minimum acceptable output for a quoted amount at `slippageBps` tolerance */
+export function withSlippage(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * (BPS - BigInt(Math.round(slippageBps)))) / BPS
+}
+
+/** One trade against one pool */
+export interface AmmQuote {
+  amountIn: bigint
+  amountOut: bigint
+  reserveIn: bigint
+  reserveOut: bigint
+  midPrice: number
+  executionPrice: number
+  /** Execution vs mid price shortfall, 0–1, fee included */
+  priceImpact: number
+}
+
+function quote(amountIn: bigint, amountOut: bigint, reserveIn: bigint, reserveOut: bigint): AmmQuote {
+  return {
+    amountIn, amountOut, reserveIn, reserveOut,
+    midPrice: midPrice(reserveIn, reserveOut),
+    executionPrice: executionPrice(amountIn, amountOut),
+    priceImpact: priceImpact(amountIn, amountOut, reserveIn, reserveOut),
+  }
+}
+
+/** Exact input: what `amountIn` buys */
+export function quoteExactIn(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = SURFSWAP_FEE_BPS): AmmQuote {
+  return quote(amountIn, getAmountOut(amountIn, reserveIn, reserveOut, feeBps), reserveIn, reserveOut)
+}
+
+/** Exact output: what it costs to receive `amountOut` */
+export function quoteExactOut(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps = SURFSWAP_FEE_BPS): AmmQuote {
+  return quote(getAmountIn(amountOut, reserveIn, reserveOut, feeBps), amountOut, reserveIn, reserveOut)
+}
+
+// ─── Multi-leg ──────────────────────────────────────────────
+
+/** Reserves of one SurfSwap pool: WAVES against a card token or WETH */
+export interface PoolReserves {
+  waves: bigint
+  tokens: bigint
+}
+
+/** Pools by swap leg key ('card-<id>' or 'weth') */
+export type PoolBook = Record<string, PoolReserves>
+
+/** One hop: sell the pool's token for WAVES, or buy it with WAVES */
+export interface RouteLeg {
+  pool: string
+  side: 'sell' | 'buy'
+}
+
+/** A whole route: each leg spends the previous leg's output */
+export interface RouteQuote {
+  amountIn: bigint
+  amountOut: bigint
+  legs: AmmQuote[]
+  /** Product of the legs' mid prices */
+  midPrice: number
+  executionPrice: number
+  priceImpact: number
+}
+
+/** Reserves of a card's pool from its formatted CardState amounts */
+export function cardPool(card: Pick<CardMarket, 'wavesReserve' | 'cardReserve'>): PoolReserves {
+  return { waves: parseEther(card.wavesReserve), tokens: parseEther(card.cardReserve) }
+}
+
+/** Quote `amountIn` through `route`; returns the pools as the route leaves them */
+export function quoteRoute(
+  amountIn: bigint, route: RouteLeg[], pools: PoolBook, feeBps = SURFSWAP_FEE_BPS,
+): RouteQuote & { pools: PoolBook } {
+  const after = { ...pools }
+  const legs: AmmQuote[] = []
+  let amount = amountIn
+  for (const { pool, side } of route) {
+    const reserves = after[pool]
+    if (!reserves) throw new Error(`No SurfSwap pool for ${pool}`)
+    const selling = side === 'sell'
+    const leg = selling
+      ? quoteExactIn(amount, reserves.tokens, reserves.waves, feeBps)
+      : quoteExactIn(amount, reserves.waves, reserves.tokens, feeBps)
+    after[pool] = selling
+      ? { waves: reserves.waves - leg.amountOut, tokens: reserves.tokens + amount }
+      : { waves: reserves.waves + amount, tokens: reserves.tokens - leg.amountOut }
+    legs.push(leg)
+    amount = leg.amountOut
+  }
+  const mid = legs.reduce((p, leg) => p * leg.midPrice, 1)
+  const execution = executionPrice(amountIn, amount)
+  return {
+    amountIn, amountOut: amount, legs, midPrice: mid, executionPrice: execution,
+    priceImpact: mid > 0 && amountIn > 0n ? Math.max(0, 1 - execution / mid) : 0,
+    pools: after,
+  }
+}
+
+/**
+ * Several routes executed one after another — e.g. one swapStake per source
+ * card into the same target — so later routes see the reserves earlier ones
+ * left behind.
+ */
+export function quoteRoutes(
+  trades: { amountIn: bigint; route: RouteLeg[] }[], pools: PoolBook, feeBps = SURFSWAP_FEE_BPS,
+): { quotes: RouteQuote[]; pools: PoolBook } {
+  const quotes: RouteQuote[] = []
+  let book = pools
+  for (const { amountIn, route } of trades) {
+    const { pools: next, ...routeQuote } = quoteRoute(amountIn, route, book, feeBps)
+    quotes.push(routeQuote)
+    book = next
+  }
+  return { quotes, pools: book }
+}
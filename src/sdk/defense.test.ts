@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { parseEther } from 'viem'
+import type { Address } from 'viem'
+import { getAmountIn, getAmountOut } from './amm'
+import { flipCost, ownershipMargin, ownershipRisk, planDefense } from './defense'
+import { MockChain } from './MockChain'
+import { chainClient } from '../test/renderWithChain'
+
+const e = (n: number | string) => parseEther(String(n))
+
+const me = '0x1111111111111111111111111111111111111111' as Address
+const rival = '0x2222222222222222222222222222222222222222' as Address
+const pool = { waves: e(90_000), tokens: e(900_000) }
+const base = {
+  cardId: 0, account: me, owner: me, ownerStake: e(1_000), challenger: rival, challengerStake: e(900),
+  targetMargin: e(500), walletTokens: 0n, wavesBalance: e(1_000), pool,
+}
+
+describe('ownershipMargin', () => {
+  it('is the lead over the runner-up, never below zero', () => {
+    expect(ownershipMargin(e(100), e(60))).toBe(e(40))
+    expect(ownershipMargin(e(100), e(100))).toBe(0n)
+    expect(ownershipMargin(e(100), e(120))).toBe(0n)
+  })
+})
+
+describe('ownershipRisk', () => {
+  it("is the runner-up's stake over the owner's, capped at a tie", () => {
+    expect(ownershipRisk(e(100), 0n)).toBe(0)
+    expect(ownershipRisk(e(100), e(70))).toBe(0.7)
+    expect(ownershipRisk(e(100), e(100))).toBe(1)
+    expect(ownershipRisk(0n, e(1))).toBe(1)
+  })
+})
+
+describe('flipCost', () => {
+  it('buys one wei past the owner for the challenger', () => {
+    expect(flipCost(e(100), e(60), pool)).toBe(getAmountIn(e(40) + 1n, pool.waves, pool.tokens))
+    expect(flipCost(e(100), 0n, pool)).toBe(getAmountIn(e(100) + 1n, pool.waves, pool.tokens))
+  })
+
+  it('is null when the pool cannot supply that much', () => {
+    expect(flipCost(e(1_000_000), 0n, pool)).toBeNull()
+  })
+})
+
+describe('planDefense', () => {
+  it('refuses a card the account does not own', () => {
+    expect(() => planDefense({ ...base, owner: rival })).toThrow(`Card #0 is owned by ${rival}`)
+  })
+
+  it('needs nothing while the lead is at the target', () => {
+    const plan = planDefense({ ...base, targetMargin: e(100) })
+    expect(plan).toMatchObject({ margin: e(100), needed: 0n, steps: [], wavesCost: 0n, affordable: true })
+    expect(plan.flipCostAfter).toBe(plan.flipCost)
+  })
+
+  it('stakes wallet tokens before buying anything', () => {
+    const plan = planDefense({ ...base, walletTokens: e(5_000) })
+    expect(plan.steps).toEqual([{ kind: 'stake', amount: e(400) }])
+  })
+
+  it('buys the rest exactly and raises the flip cost by more than the stake alone', () => {
+    const plan = planDefense({ ...base, walletTokens: e(100) })
+    const [buy, stake] = plan.steps
+    expect(buy).toMatchObject({ kind: 'buy', amountOut: e(300) })
+    if (buy.kind !== 'buy') throw new Error('expected a buy')
+    expect(getAmountOut(buy.wavesIn, pool.waves, pool.tokens)).toBeGreaterThanOrEqual(e(300))
+    expect(stake).toEqual({ kind: 'stake', amount: e(400) })
+    // The buy also moved the price the challenger pays
+    expect(plan.flipCostAfter!).toBeGreaterThan(flipCost(e(1_400), e(900), pool)!)
+  })
+
+  it('flags a buy the wallet cannot pay for', () => {
+    expect(planDefense({ ...base, wavesBalance: e(1) }).affordable).toBe(false)
+  })
+
+  it('measures an unchallenged card against nobody', () => {
+    const plan = planDefense({ ...base, challenger: null, challengerStake: 0n })
+    expect(plan).toMatchObject({ margin: e(1_000), needed: 0n })
+  })
+})
+
+describe('WhirlpoolClient defense', () => {
+  async function setup() {
+    const chain = new MockChain({ protocol: { creatorStake: e(100) } })
+    const [owner, rival] = chain.accounts
+    chain.fund(owner, { waves: e(1_000) })
+    chain.fund(rival, { waves: e(1_000) })
+    const client = chainClient(chain, owner)
+    const challenger = chainClient(chain, rival)
+    await client.createCard('Alpha', 'ALPHA')
+    await challenger.swap('waves', 'card-0', e(100), 0n)
+    await challenger.stake(0, e(90))
+    return { chain, owner, rival, client, challenger }
+  }
+
+  it('reads the challenger on chain and restores the margin', async () => {
+    const { client, rival } = await setup()
+    const plan = await client.planDefense(0, rival, e(50))
+    expect(plan).toMatchObject({ ownerStake: e(100), challengerStake: e(90), margin: e(10), needed: e(40) })
+    expect(plan.steps.map(s => s.kind)).toEqual(['buy', 'stake'])
+
+    const { receipts, margin } = await client.executeDefensePlan(plan)
+    expect(receipts.every(r => r.status === 'success')).toBe(true)
+    expect(margin).toBe(e(50))
+  })
+
+  it('sends nothing when the challenger added stake after planning', async () => {
+    const { chain, client, challenger, rival } = await setup()
+    const plan = await client.planDefense(0, rival, e(50))
+    await challenger.stake(0, e(5))
+
+    const block = chain.blockNumber
+    await expect(client.executeDefensePlan(plan)).rejects.toThrow("Card #0's challenger now stakes 95")
+    expect(chain.blockNumber).toBe(block)
+  })
+
+  it('plans nothing for an account that does not own the card', async () => {
+    const { challenger, owner } = await setup()
+    await expect(challenger.planDefense(0, owner, e(50))).rejects.toThrow('Card #0 is owned by')
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * defense — how safe a card's owner is, and what it takes to stay owner
+ *
+ * The threat to an owner is the runner-up: the largest staker who is not the
+ * owner. Their lead is the margin, and a challenger flips the card once they
+ * stake one wei past the owner (see stakeNeeded) — bought on SurfSwap, that
+ * is the flip cost in WAVES. Defending tops the owner's stake back up to a
+ * target margin: card tokens in the wallet first, then a WAVES buy, which
+ * also moves the pool price against the next challenger. Pure: reads and
+ * execution live in WhirlpoolClient.
+ */
+import { isAddressEqual } from 'viem'
+import type { Address } from 'viem'
+import { getAmountIn, quoteExactOut } from './amm'
+import type { PoolReserves } from './amm'
+import { stakeNeeded } from './steal'
+import type { DefensePlan, DefenseStep } from './types'
+
+/** How far the owner leads the runner-up; 0 on a tie, which the owner still wins */
+export function ownershipMargin(ownerStake: bigint, challengerStake: bigint): bigint {
+  return ownerStake > challengerStake ? ownerStake - challengerStake : 0n
+}
+
+/**
+ * WAVES a challenger holding `challengerStake` must spend to flip the card by
+ * buying the rest on SurfSwap. Null when the pool cannot pay out that much.
+ */
+export function flipCost(ownerStake: bigint, challengerStake: bigint, pool: PoolReserves): bigint | null {
+  const needed = stakeNeeded(ownerStake, challengerStake)
+  if (needed >= pool.tokens) return null
+  return getAmountIn(needed, pool.waves, pool.tokens)
+}
+
+/** The runner-up's stake over the owner's: 0 unchallenged, 1 once they tie */
+export function ownershipRisk(ownerStake: bigint, challengerStake: bigint): number {
+  if (challengerStake <= 0n) return 0
+  if (ownerStake <= challengerStake) return 1
+  return Number((challengerStake * 1_000_000n) / ownerStake) / 1_000_000
+}
+
+export interface DefenseInput {
+  cardId: number
+  account: Address
+  owner: Address
+  ownerStake: bigint
+  /** Largest staker other than the owner, null when there is none */
+  challenger: Address | null
+  challengerStake: bigint
+  /** Lead over the challenger to restore, in card tokens */
+  targetMargin: bigint
+  /** Card tokens in the wallet, staked first */
+  walletTokens: bigint
+  wavesBalance: bigint
+  pool: PoolReserves
+}
+
+export function planDefense({
+  cardId, account, owner, ownerStake, challenger, challengerStake, targetMargin, walletTokens, wavesBalance, pool,
+}: DefenseInput): DefensePlan {
+  if (!isAddressEqual(owner, account)) throw new Error(`Card #${cardId} is owned by ${owner}, not ${account}`)
+  const margin = ownershipMargin(ownerStake, challengerStake)
+  const needed = targetMargin > margin ? targetMargin - margin : 0n
+  const steps: DefenseStep[] = []
+
+  const fromWallet = walletTokens < needed ? walletTokens : needed
+  let after = pool
+  let wavesCost = 0n
+  let bought = 0n
+  if (needed > fromWallet) {
+    const quote = quoteExactOut(needed - fromWallet, pool.waves, pool.tokens)
+    steps.push({ kind: 'buy', wavesIn: quote.amountIn, amountOut: quote.amountOut, priceImpact: quote.priceImpact })
+    after = { waves: pool.waves + quote.amountIn, tokens: pool.tokens - quote.amountOut }
+    wavesCost = quote.amountIn
+    bought = quote.amountOut
+  }
+  if (needed > 0n) steps.push({ kind: 'stake', amount: fromWallet + bought })
+
+  return {
+    cardId, challenger, ownerStake, challengerStake, margin, targetMargin, needed, steps, wavesCost,
+    flipCost: flipCost(ownerStake, challengerStake, pool),
+    flipCostAfter: flipCost(ownerStake + needed, challengerStake, after),
+    affordable: wavesCost <= wavesBalance,
+  }
+}
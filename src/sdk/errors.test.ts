@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { ContractFunctionRevertedError } from 'viem'
+import type { Hex } from 'viem'
+import { decodeRevert, slippageError, WhirlpoolRevertError } from './errors'
+import { WHIRLPOOL_ABI } from '../contracts/erc1142'
+
+// Revert data as a node returns it, written out by hand rather than encoded from our ABIs
+const word = (hex: string) => hex.padStart(64, '0')
+const ALLOWANCE_REVERT = `0x${[
+  'fb8f41b2', // ERC20InsufficientAllowance(address,uint256,uint256), OpenZeppelin v5 IERC6093
+  word('aa'),
+  word('de0b6b3a7640000'), // 1e18
+  word('4563918244f40000'), // 5e18
+].join('')}` as Hex
+const REQUIRE_REVERT = `0x${[
+  '08c379a0', // Error(string)
+  word('20'),
+  word('12'),
+  '696e73756666696369656e74207374616b65'.padEnd(64, '0'), // "insufficient stake"
+].join('')}` as Hex
+
+/** What viem throws when simulating Whirlpool.stake reverts with `data` */
+const stakeReverted = (data: Hex) => new ContractFunctionRevertedError({ abi: WHIRLPOOL_ABI, data, functionName: 'stake' })
+
+describe('decodeRevert', () => {
+  it("decodes an ERC20 error raised inside the token, outside the called contract's ABI", () => {
+    const error = decodeRevert('Stake', stakeReverted(ALLOWANCE_REVERT))
+    expect(error).toBeInstanceOf(WhirlpoolRevertError)
+    expect(error).toMatchObject({
+      message: 'Stake would revert: insufficient allowance: approved 1, need 5',
+      errorName: 'ERC20InsufficientAllowance',
+    })
+  })
+
+  it('passes a require() string through', () => {
+    expect(decodeRevert('Unstake', stakeReverted(REQUIRE_REVERT))).toMatchObject({
+      message: 'Unstake would revert: insufficient stake',
+      errorName: 'Error',
+    })
+  })
+
+  it('keeps the selector of an error it has no signature for', () => {
+    const error = decodeRevert('Stake', stakeReverted('0xdeadbeef')) as WhirlpoolRevertError
+    expect(error.errorName).toBeUndefined()
+    expect(error.reason).toContain('0xdeadbeef')
+  })
+
+  it('leaves errors that are not reverts alone', () => {
+    const error = new Error('network down')
+    expect(decodeRevert('Stake', error)).toBe(error)
+  })
+})
+
+describe('slippageError', () => {
+  it('reads like a revert of the guarded action', () => {
+    expect(slippageError('swapStake', 10n ** 18n, 2n * 10n ** 18n).message)
+      .toBe('swapStake would revert: price moved beyond your slippage: would receive 1, minimum 2')
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * errors — Readable revert reasons for Whirlpool transactions
+ *
+ * Reverts are decoded against the custom errors of every ABI in erc1142.ts
+ * (a stake can revert inside the card token, a swap inside WAVES), then
+ * mapped to a sentence a player understands. Only errors with a known
+ * source are declared there: OpenZeppelin v5's ERC20 errors (IERC6093).
+ * The Router, SurfSwap and Whirlpool sources aren't in this repo, so their
+ * reverts come through viem's own decoding: the require() string, the
+ * panic, or the unknown selector.
+ */
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, formatEther } from 'viem'
+import type { Abi, Hex } from 'viem'
+import {
+  ROUTER_ABI, SURFSWAP_ABI, WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, BIDNFT_ABI, WETH_ABI,
+} from '../contracts/erc1142'
+
+/** Every custom error across the protocol, deduplicated by name */
+export const WHIRLPOOL_ERRORS: Abi = [
+  ...new Map(
+    [ROUTER_ABI, SURFSWAP_ABI, WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, BIDNFT_ABI, WETH_ABI]
+      .flat()
+      .filter(item => item.type === 'error')
+      .map(item => [item.name, item]),
+  ).values(),
+] as Abi
+
+type Args = readonly unknown[]
+const eth = (v: unknown) => formatEther(v as bigint)
+
+const REASONS: Record<string, (args: Args) => string> = {
+  ERC20InsufficientBalance: ([, balance, needed]) => `insufficient balance: have ${eth(balance)}, need ${eth(needed)}`,
+  ERC20InsufficientAllowance: ([, allowance, needed]) =>
+    `insufficient allowance: approved ${eth(allowance)}, need ${eth(needed)}`,
+}
+
+/** A write that simulation says would revert, with its decoded reason */
+export class WhirlpoolRevertError extends Error {
+  readonly action: string
+  /** Human-readable cause, e.g. "insufficient stake on card #3: …" */
+  readonly reason: string
+  readonly errorName?: string
+  readonly args?: Args
+  /** Original viem error */
+  readonly cause?: unknown
+
+  constructor(action: string, reason: string, errorName?: string, args?: Args, cause?: unknown) {
+    super(`${action} would revert: ${reason}`)
+    this.name = 'WhirlpoolRevertError'
+    this.action = action
+    this.reason = reason
+    this.errorName = errorName
+    this.args = args
+    this.cause = cause
+  }
+}
+
+/** Turn a failed simulate/estimate into a WhirlpoolRevertError, or return the error untouched */
+export function decodeRevert(action: string, error: unknown): unknown {
+  if (!(error instanceof BaseError)) return error
+  const reverted = error.walk(e => e instanceof ContractFunctionRevertedError)
+  if (!(reverted instanceof ContractFunctionRevertedError)) return error
+
+  let errorName = reverted.data?.errorName
+  let args: Args | undefined = reverted.data?.args
+  // Not in the called contract's ABI — try every protocol error
+  if (!errorName && reverted.raw) {
+    try {
+      const decoded = decodeErrorResult({ abi: WHIRLPOOL_ERRORS, data: reverted.raw as Hex })
+      errorName = decoded.errorName
+      args = decoded.args
+    } catch { /* unknown selector */ }
+  }
+
+  const describe = errorName ? REASONS[errorName] : undefined
+  const reason = describe
+    ? describe(args ?? [])
+    : reverted.reason ?? (errorName ? `${errorName}(${(args ?? []).join(', ')})` : reverted.shortMessage)
+  return new WhirlpoolRevertError(action, reason, errorName, args, error)
+}
+
+/** A swap refused before sending because a fresh quote falls short of its min-out (swapStake takes none on-chain) */
+export function slippageError(action: string, amountOut: bigint, minAmountOut: bigint): WhirlpoolRevertError {
+  return new WhirlpoolRevertError(
+    action, `price moved beyond your slippage: would receive ${eth(amountOut)}, minimum ${eth(minAmountOut)}`,
+  )
+}
@@ -0,0 +1,25 @@
+/** Whirlpool SDK — framework-agnostic client for scripts, tests and other front ends */
+export { WhirlpoolClient, CREATE_CARD_FEE } from './WhirlpoolClient'
+export type { WhirlpoolClientOptions, WhirlpoolWalletClient } from './WhirlpoolClient'
+export type { ApprovalMode, ApprovalSpender, TokenAllowance, CardState, CardMarket, CardPosition, EventMeta, GasEstimate, GasStep, StakeEvent, SwapQuote, StealPlan, StealStep, DefensePlan, DefenseStep, QuotedHop, SwapHop, SwapHopResult, SwapPlan, SwapRoute, WalletBalances, WethPoolState, TokenKey, SwapSource, ClientLogger, ClientLogType } from './types'
+export {
+  BPS, SURFSWAP_FEE_BPS, cardPool, executionPrice, getAmountIn, getAmountOut, midPrice, priceImpact, quoteExactIn, quoteExactOut,
+  quoteRoute, quoteRoutes, withSlippage,
+} from './amm'
+export type { AmmQuote, PoolBook, PoolReserves, RouteLeg, RouteQuote } from './amm'
+export { compareRoutes, hopAction, hopLegs, hopTokens, minimumReceived, quoteSwapRoute, routePools, routeReserves, routeTokens, swapRoutes } from './router'
+export { planSteal, stakeNeeded } from './steal'
+export type { StealInput } from './steal'
+export { flipCost, ownershipMargin, ownershipRisk, planDefense } from './defense'
+export type { DefenseInput } from './defense'
+export { rewardYield, wethPoolBoost } from './rewards'
+export type { RewardPosition } from './rewards'
+export { WhirlpoolRevertError, WHIRLPOOL_ERRORS, decodeRevert, slippageError } from './errors'
+export { HolderIndexer } from './HolderIndexer'
+export type { CardHolder, HolderIndexState, OwnershipChange } from './HolderIndexer'
+export { TransactionTracker } from './TransactionTracker'
+export type { SubmittedTransaction, TrackedTransaction, TransactionStatus, TransactionStorage, TransactionTrackerOptions } from './TransactionTracker'
+export { MockChain } from './MockChain'
+export type { MockAccount, MockCardSeed, MockChainOptions, MockProvider } from './MockChain'
+export { MockRevert, cardTokenAddress } from './mockProtocol'
+export type { MockProtocolConfig } from './mockProtocol'
@@ -0,0 +1,548 @@
+/**
+ * mockProtocol — in-memory Whirlpool contracts behind MockChain
+ *
+ * Plain-data model of every ABI in erc1142.ts: ERC-20 balances and
+ * allowances (WAVES, WETH, card tokens), the router's card registry and
+ * BidNFT views, SurfSwap's constant-product pools (same 30 bps math as
+ * amm.ts) and Whirlpool's stakes, largest-stake ownership and per-block
+ * rewards. callContract() decodes calldata against the target's ABI, runs
+ * it and returns the encoded result plus the events it emitted; a revert
+ * throws MockRevert with its data encoded the way a node returns it: the
+ * ERC20 custom errors, and require() strings for the protocol checks (the
+ * real contracts' errors aren't known here, see errors.ts).
+ *
+ * State is Maps of bigints only, so MockChain can structuredClone it and
+ * throw the copy away when a call reverts.
+ */
+import {
+  concat, decodeFunctionData, encodeAbiParameters, encodeErrorResult, encodeEventTopics, encodeFunctionResult,
+  getAddress, maxUint256, numberToHex, pad, zeroAddress,
+} from 'viem'
+import type { Abi, AbiEvent, AbiFunction, Address, Hex } from 'viem'
+import {
+  ROUTER_ABI, SURFSWAP_ABI, WHIRLPOOL_ABI, WAVES_ABI, CARD_TOKEN_ABI, BIDNFT_ABI, WETH_ABI,
+} from '../contracts/erc1142'
+import type { ContractAddresses } from '../contracts/networks'
+import { getAmountOut } from './amm'
+import { WHIRLPOOL_ERRORS } from './errors'
+
+export interface MockToken {
+  name: string
+  symbol: string
+  totalSupply: bigint
+  balances: Map<Address, bigint>
+  /** owner → spender → allowance */
+  allowances: Map<Address, Map<Address, bigint>>
+}
+
+/** Stakes in one reward pool (a card or the WETH pool), MasterChef-style */
+export interface MockStakePool {
+  total: bigint
+  stakes: Map<Address, bigint>
+  /** Rewards per staked unit so far, scaled by REWARD_PRECISION */
+  accPerShare: bigint
+  debt: Map<Address, bigint>
+  /** Settled but unclaimed rewards */
+  owed: Map<Address, bigint>
+}
+
+export interface MockCard {
+  token: Address
+  uri: string
+  /** Largest staker; the zero address once nobody stakes */
+  owner: Address
+  wavesReserve: bigint
+  cardReserve: bigint
+  pool: MockStakePool
+}
+
+export interface MockProtocolState {
+  eth: Map<Address, bigint>
+  tokens: Map<Address, MockToken>
+  cards: MockCard[]
+  weth: { wavesReserve: bigint; wethReserve: bigint; pool: MockStakePool }
+}
+
+/** Protocol constants; MockChain fills in defaults */
+export interface MockProtocolConfig {
+  contracts: ContractAddresses
+  createCardFee: bigint
+  /** Card tokens minted per createCard */
+  cardSupply: bigint
+  /** Part of the supply staked for the creator, making them owner; the rest seeds the pool */
+  creatorStake: bigint
+  /** WAVES minted into each new card's pool */
+  cardPoolWaves: bigint
+  /** WAVES accrued per block by each card pool, split across its stakers */
+  rewardPerBlock: bigint
+  /** WAVES accrued per block by the WETH pool */
+  wethRewardPerBlock: bigint
+}
+
+/** A log emitted by a call, before MockChain places it in a block */
+export interface MockEvent {
+  address: Address
+  topics: Hex[]
+  data: Hex
+}
+
+export interface MockCall {
+  from: Address
+  to: Address
+  data: Hex
+  value: bigint
+}
+
+/** A reverted call; `data` is the encoded custom error (or Error(string)) */
+export class MockRevert extends Error {
+  readonly data: Hex
+
+  constructor(data: Hex, message = 'execution reverted') {
+    super(message)
+    this.name = 'MockRevert'
+    this.data = data
+  }
+}
+
+const REWARD_PRECISION = 10n ** 18n
+const WAVES_MAX_SUPPLY = 10n ** 27n
+
+/** Deterministic ERC-20 address of card `id` */
+export function cardTokenAddress(id: number): Address {
+  return getAddress(pad(numberToHex(0xca4d0000n + BigInt(id)), { size: 20 }))
+}
+
+// ─── State ────────────────────────────────────────────────────
+
+function emptyPool(): MockStakePool {
+  return { total: 0n, stakes: new Map(), accPerShare: 0n, debt: new Map(), owed: new Map() }
+}
+
+function emptyToken(name: string, symbol: string): MockToken {
+  return { name, symbol, totalSupply: 0n, balances: new Map(), allowances: new Map() }
+}
+
+/** Fresh chain: WAVES and WETH deployed, the WETH pool seeded, no cards */
+export function createProtocolState(config: MockProtocolConfig, wethPool: { waves: bigint; weth: bigint }): MockProtocolState {
+  const { WAVES, WETH, SURFSWAP } = config.contracts
+  const state: MockProtocolState = {
+    eth: new Map(),
+    tokens: new Map([[WAVES, emptyToken('Waves', 'WAVES')], [WETH, emptyToken('Wrapped Ether', 'WETH')]]),
+    cards: [],
+    weth: { wavesReserve: wethPool.waves, wethReserve: wethPool.weth, pool: emptyPool() },
+  }
+  mint(state, WAVES, SURFSWAP, wethPool.waves)
+  mint(state, WETH, SURFSWAP, wethPool.weth)
+  state.eth.set(WETH, wethPool.weth)
+  return state
+}
+
+export function mint(state: MockProtocolState, token: Address, to: Address, amount: bigint): void {
+  const t = state.tokens.get(token)!
+  t.totalSupply += amount
+  t.balances.set(to, (t.balances.get(to) ?? 0n) + amount)
+}
+
+/** One block of rewards into every pool with stakers */
+export function accrueRewards(state: MockProtocolState, config: MockProtocolConfig): void {
+  for (const card of state.cards) {
+    if (card.pool.total > 0n) card.pool.accPerShare += config.rewardPerBlock * REWARD_PRECISION / card.pool.total
+  }
+  const { pool } = state.weth
+  if (pool.total > 0n) pool.accPerShare += config.wethRewardPerBlock * REWARD_PRECISION / pool.total
+}
+
+// ─── Calls ────────────────────────────────────────────────────
+
+interface Ctx {
+  state: MockProtocolState
+  config: MockProtocolConfig
+  from: Address
+  value: bigint
+  events: MockEvent[]
+}
+
+/**
+ * One contract function. decodeFunctionData has already checked `args` against
+ * the contract's ABI, so each handler destructures them as its own tuple
+ * (`[cardId]: [bigint]`); the method signature lets those narrower tuples stand in.
+ */
+type Handler = { call(ctx: Ctx, args: readonly unknown[]): unknown }['call']
+
+/** Custom-error revert, for the errors declared in erc1142.ts */
+function revert(errorName: string, args: readonly unknown[] = []): never {
+  throw new MockRevert(encodeErrorResult({ abi: WHIRLPOOL_ERRORS, errorName, args } as Parameters<typeof encodeErrorResult>[0]))
+}
+
+/** require()-style revert with an Error(string) reason */
+function revertWith(reason: string): never {
+  throw new MockRevert(concat(['0x08c379a0', encodeAbiParameters([{ type: 'string' }], [reason])]), reason)
+}
+
+function emit(ctx: Ctx, eventName: string, args: Record<string, unknown>): void {
+  const event = (WHIRLPOOL_ABI as Abi).find((item): item is AbiEvent => item.type === 'event' && item.name === eventName)!
+  const nonIndexed = event.inputs.filter(input => !input.indexed)
+  ctx.events.push({
+    address: ctx.config.contracts.WHIRLPOOL,
+    topics: encodeEventTopics({ abi: WHIRLPOOL_ABI, eventName, args } as Parameters<typeof encodeEventTopics>[0]) as Hex[],
+    data: encodeAbiParameters(nonIndexed, nonIndexed.map(input => args[input.name!])),
+  })
+}
+
+// ─── ERC-20 ───
+
+function balanceOf(ctx: Ctx, token: Address, account: Address): bigint {
+  return ctx.state.tokens.get(token)!.balances.get(account) ?? 0n
+}
+
+function transfer(ctx: Ctx, token: Address, from: Address, to: Address, amount: bigint): void {
+  const t = ctx.state.tokens.get(token)!
+  const balance = t.balances.get(from) ?? 0n
+  if (balance < amount) revert('ERC20InsufficientBalance', [from, balance, amount])
+  t.balances.set(from, balance - amount)
+  t.balances.set(to, (t.balances.get(to) ?? 0n) + amount)
+}
+
+function allowance(ctx: Ctx, token: Address, owner: Address, spender: Address): bigint {
+  return ctx.state.tokens.get(token)!.allowances.get(owner)?.get(spender) ?? 0n
+}
+
+function setAllowance(ctx: Ctx, token: Address, owner: Address, spender: Address, amount: bigint): void {
+  const t = ctx.state.tokens.get(token)!
+  if (!t.allowances.has(owner)) t.allowances.set(owner, new Map())
+  t.allowances.get(owner)!.set(spender, amount)
+}
+
+/** transferFrom as `spender`: unlimited allowances are never decremented */
+function pull(ctx: Ctx, token: Address, owner: Address, spender: Address, amount: bigint): void {
+  const approved = allowance(ctx, token, owner, spender)
+  if (approved < amount) revert('ERC20InsufficientAllowance', [spender, approved, amount])
+  if (approved !== maxUint256) setAllowance(ctx, token, owner, spender, approved - amount)
+  transfer(ctx, token, owner, spender, amount)
+}
+
+function burn(ctx: Ctx, token: Address, from: Address, amount: bigint): void {
+  transfer(ctx, token, from, zeroAddress, amount)
+  const t = ctx.state.tokens.get(token)!
+  t.balances.delete(zeroAddress)
+  t.totalSupply -= amount
+}
+
+const erc20 = (token: Address): Record<string, Handler> => ({
+  name: ctx => ctx.state.tokens.get(token)!.name,
+  symbol: ctx => ctx.state.tokens.get(token)!.symbol,
+  decimals: () => 18,
+  totalSupply: ctx => ctx.state.tokens.get(token)!.totalSupply,
+  balanceOf: (ctx, [account]: [Address]) => balanceOf(ctx, token, account),
+  allowance: (ctx, [owner, spender]: [Address, Address]) => allowance(ctx, token, owner, spender),
+  approve: (ctx, [spender, amount]: [Address, bigint]) => {
+    setAllowance(ctx, token, ctx.from, spender, amount)
+    return true
+  },
+  transfer: (ctx, [to, amount]: [Address, bigint]) => {
+    transfer(ctx, token, ctx.from, to, amount)
+    return true
+  },
+  transferFrom: (ctx, [from, to, amount]: [Address, Address, bigint]) => {
+    pull(ctx, token, from, ctx.from, amount)
+    transfer(ctx, token, ctx.from, to, amount)
+    return true
+  },
+})
+
+// ─── Whirlpool stakes ───
+
+function pendingOf(pool: MockStakePool, user: Address): bigint {
+  const stake = pool.stakes.get(user) ?? 0n
+  return (pool.owed.get(user) ?? 0n) + stake * pool.accPerShare / REWARD_PRECISION - (pool.debt.get(user) ?? 0n)
+}
+
+function setStake(pool: MockStakePool, user: Address, stake: bigint): void {
+  const owed = pendingOf(pool, user)
+  if (owed > 0n) pool.owed.set(user, owed)
+  pool.total += stake - (pool.stakes.get(user) ?? 0n)
+  if (stake > 0n) pool.stakes.set(user, stake)
+  else pool.stakes.delete(user)
+  pool.debt.set(user, stake * pool.accPerShare / REWARD_PRECISION)
+}
+
+function claim(pool: MockStakePool, user: Address): bigint {
+  const amount = pendingOf(pool, user)
+  pool.owed.delete(user)
+  pool.debt.set(user, (pool.stakes.get(user) ?? 0n) * pool.accPerShare / REWARD_PRECISION)
+  return amount
+}
+
+function requireCard(ctx: Ctx, cardId: bigint): MockCard {
+  const card = ctx.state.cards[Number(cardId)]
+  if (!card) revertWith('card does not exist')
+  return card
+}
+
+/** Largest staker owns the card; a tie keeps the incumbent */
+function updateOwner(ctx: Ctx, cardId: bigint): void {
+  const card = ctx.state.cards[Number(cardId)]
+  let owner = card.owner
+  let best = card.pool.stakes.get(owner) ?? 0n
+  for (const [user, stake] of card.pool.stakes) {
+    if (stake > best) { owner = user; best = stake }
+  }
+  if (best === 0n) owner = zeroAddress
+  if (owner === card.owner) return
+  emit(ctx, 'OwnerChanged', { cardId, previousOwner: card.owner, newOwner: owner })
+  card.owner = owner
+}
+
+function addStake(ctx: Ctx, cardId: bigint, user: Address, amount: bigint): void {
+  const { pool } = ctx.state.cards[Number(cardId)]
+  setStake(pool, user, (pool.stakes.get(user) ?? 0n) + amount)
+  emit(ctx, 'Staked', { cardId, user, amount })
+  updateOwner(ctx, cardId)
+}
+
+function removeStake(ctx: Ctx, cardId: bigint, user: Address, amount: bigint): void {
+  const { pool } = ctx.state.cards[Number(cardId)]
+  const staked = pool.stakes.get(user) ?? 0n
+  if (staked < amount) revertWith('insufficient stake')
+  setStake(pool, user, staked - amount)
+  emit(ctx, 'Unstaked', { cardId, user, amount })
+  updateOwner(ctx, cardId)
+}
+
+// ─── SurfSwap pools ───
+
+type PoolSide = { reserves: () => [bigint, bigint]; set: (waves: bigint, other: bigint) => void }
+
+/** The WAVES ↔ `token` pool, if there is one */
+function poolFor(ctx: Ctx, token: Address): PoolSide | undefined {
+  const { state } = ctx
+  if (token === ctx.config.contracts.WETH) {
+    return {
+      reserves: () => [state.weth.wavesReserve, state.weth.wethReserve],
+      set: (waves, weth) => { state.weth.wavesReserve = waves; state.weth.wethReserve = weth },
+    }
+  }
+  const card = state.cards.find(c => c.token === token)
+  return card && {
+    reserves: () => [card.wavesReserve, card.cardReserve],
+    set: (waves, cards) => { card.wavesReserve = waves; card.cardReserve = cards },
+  }
+}
+
+/** Move reserves for an exact-in swap; token balances are the caller's job */
+function swapReserves(ctx: Ctx, tokenIn: Address, tokenOut: Address, amountIn: bigint): bigint {
+  const { WAVES } = ctx.config.contracts
+  const buying = tokenIn === WAVES
+  const pool = poolFor(ctx, buying ? tokenOut : tokenIn)
+  if (!pool || (tokenIn !== WAVES && tokenOut !== WAVES) || tokenIn === tokenOut) revertWith('invalid pair')
+  const [waves, other] = pool.reserves()
+  if (waves === 0n || other === 0n) revertWith('insufficient liquidity')
+  if (buying) {
+    const out = getAmountOut(amountIn, waves, other)
+    pool.set(waves + amountIn, other - out)
+    return out
+  }
+  const out = getAmountOut(amountIn, other, waves)
+  pool.set(waves - out, other + amountIn)
+  return out
+}
+
+// ─── Contracts ────────────────────────────────────────────────
+
+function router(): Record<string, Handler> {
+  return {
+    totalCards: ctx => BigInt(ctx.state.cards.length),
+    cardToken: (ctx, [cardId]: [bigint]) => ctx.state.cards[Number(cardId)]?.token ?? zeroAddress,
+    createCard: (ctx, [name, symbol, uri]: [string, string, string]) => {
+      const { config, state } = ctx
+      const { WAVES, WHIRLPOOL, SURFSWAP } = config.contracts
+      if (!name) revertWith('empty name')
+      if (ctx.value < config.createCardFee) revertWith('insufficient fee')
+      const id = BigInt(state.cards.length)
+      const token = cardTokenAddress(state.cards.length)
+      state.tokens.set(token, emptyToken(name, symbol))
+      mint(state, token, WHIRLPOOL, config.creatorStake)
+      mint(state, token, SURFSWAP, config.cardSupply - config.creatorStake)
+      mint(state, WAVES, SURFSWAP, config.cardPoolWaves)
+      state.cards.push({
+        token, uri, owner: zeroAddress, pool: emptyPool(),
+        wavesReserve: config.cardPoolWaves, cardReserve: config.cardSupply - config.creatorStake,
+      })
+      addStake(ctx, id, ctx.from, config.creatorStake)
+      return id
+    },
+  }
+}
+
+function surfSwap(): Record<string, Handler> {
+  return {
+    swapExact: (ctx, [tokenIn, tokenOut, amountIn, minAmountOut]: [Address, Address, bigint, bigint]) => {
+      const { SURFSWAP } = ctx.config.contracts
+      const amountOut = swapReserves(ctx, tokenIn, tokenOut, amountIn)
+      if (amountOut < minAmountOut) revertWith('insufficient output')
+      pull(ctx, tokenIn, ctx.from, SURFSWAP, amountIn)
+      transfer(ctx, tokenOut, SURFSWAP, ctx.from, amountOut)
+      return amountOut
+    },
+    getPrice: (ctx, [cardId]: [bigint]) => {
+      const card = requireCard(ctx, cardId)
+      return card.cardReserve > 0n ? card.wavesReserve * 10n ** 18n / card.cardReserve : 0n
+    },
+    getReserves: (ctx, [cardId]: [bigint]) => {
+      const card = requireCard(ctx, cardId)
+      return [card.wavesReserve, card.cardReserve]
+    },
+    getWethReserves: ctx => [ctx.state.weth.wavesReserve, ctx.state.weth.wethReserve],
+  }
+}
+
+function whirlpool(): Record<string, Handler> {
+  return {
+    stake: (ctx, [cardId, amount]: [bigint, bigint]) => {
+      const card = requireCard(ctx, cardId)
+      if (amount === 0n) revertWith('zero amount')
+      pull(ctx, card.token, ctx.from, ctx.config.contracts.WHIRLPOOL, amount)
+      addStake(ctx, cardId, ctx.from, amount)
+    },
+    unstake: (ctx, [cardId, amount]: [bigint, bigint]) => {
+      const card = requireCard(ctx, cardId)
+      if (amount === 0n) revertWith('zero amount')
+      removeStake(ctx, cardId, ctx.from, amount)
+      transfer(ctx, card.token, ctx.config.contracts.WHIRLPOOL, ctx.from, amount)
+    },
+    claimRewards: (ctx, [cardId]: [bigint]) => {
+      const amount = claim(requireCard(ctx, cardId).pool, ctx.from)
+      if (amount === 0n) revertWith('nothing to claim')
+      mint(ctx.state, ctx.config.contracts.WAVES, ctx.from, amount)
+      emit(ctx, 'RewardsClaimed', { user: ctx.from, amount })
+    },
+    swapStake: (ctx, [fromCardId, toCardId, shares]: [bigint, bigint, bigint]) => {
+      if (fromCardId === toCardId) revertWith('same card')
+      const from = requireCard(ctx, fromCardId)
+      const to = requireCard(ctx, toCardId)
+      if (shares === 0n) revertWith('zero amount')
+      const { WAVES, WHIRLPOOL, SURFSWAP } = ctx.config.contracts
+      removeStake(ctx, fromCardId, ctx.from, shares)
+      // Sell the shares into the source pool and buy the target card with the WAVES
+      const waves = swapReserves(ctx, from.token, WAVES, shares)
+      const bought = swapReserves(ctx, WAVES, to.token, waves)
+      transfer(ctx, from.token, WHIRLPOOL, SURFSWAP, shares)
+      transfer(ctx, to.token, SURFSWAP, WHIRLPOOL, bought)
+      addStake(ctx, toCardId, ctx.from, bought)
+    },
+    stakeWETH: (ctx, [amount]: [bigint]) => {
+      if (amount === 0n) revertWith('zero amount')
+      const { pool } = ctx.state.weth
+      pull(ctx, ctx.config.contracts.WETH, ctx.from, ctx.config.contracts.WHIRLPOOL, amount)
+      setStake(pool, ctx.from, (pool.stakes.get(ctx.from) ?? 0n) + amount)
+      emit(ctx, 'WETHStaked', { user: ctx.from, amount })
+    },
+    unstakeWETH: (ctx, [amount]: [bigint]) => {
+      if (amount === 0n) revertWith('zero amount')
+      const { pool } = ctx.state.weth
+      const staked = pool.stakes.get(ctx.from) ?? 0n
+      if (staked < amount) revertWith('insufficient WETH stake')
+      setStake(pool, ctx.from, staked - amount)
+      transfer(ctx, ctx.config.contracts.WETH, ctx.config.contracts.WHIRLPOOL, ctx.from, amount)
+      emit(ctx, 'WETHUnstaked', { user: ctx.from, amount })
+    },
+    claimWETHRewards: ctx => {
+      const amount = claim(ctx.state.weth.pool, ctx.from)
+      if (amount === 0n) revertWith('nothing to claim')
+      mint(ctx.state, ctx.config.contracts.WAVES, ctx.from, amount)
+      emit(ctx, 'RewardsClaimed', { user: ctx.from, amount })
+    },
+    stakeOf: (ctx, [cardId, user]: [bigint, Address]) => requireCard(ctx, cardId).pool.stakes.get(user) ?? 0n,
+    ownerOfCard: (ctx, [cardId]: [bigint]) => requireCard(ctx, cardId).owner,
+    userWethStake: (ctx, [user]: [Address]) => ctx.state.weth.pool.stakes.get(user) ?? 0n,
+    pendingRewards: (ctx, [cardId, user]: [bigint, Address]) => pendingOf(requireCard(ctx, cardId).pool, user),
+    pendingGlobalRewards: (ctx, [user]: [Address]) => pendingOf(ctx.state.weth.pool, user),
+  }
+}
+
+function bidNft(): Record<string, Handler> {
+  return {
+    ownerOf: (ctx, [tokenId]: [bigint]) => requireCard(ctx, tokenId).owner,
+    tokenURI: (ctx, [tokenId]: [bigint]) => requireCard(ctx, tokenId).uri,
+    exists: (ctx, [tokenId]: [bigint]) => Number(tokenId) < ctx.state.cards.length,
+  }
+}
+
+function waves(address: Address): Record<string, Handler> {
+  return {
+    ...erc20(address),
+    whirlpool: ctx => ctx.config.contracts.WHIRLPOOL,
+    MAX_SUPPLY: () => WAVES_MAX_SUPPLY,
+    mint: (ctx, [to, amount]: [Address, bigint]) => {
+      if (ctx.from !== ctx.config.contracts.WHIRLPOOL) revertWith('only whirlpool')
+      mint(ctx.state, address, to, amount)
+    },
+  }
+}
+
+function weth(address: Address): Record<string, Handler> {
+  return {
+    ...erc20(address),
+    deposit: ctx => mint(ctx.state, address, ctx.from, ctx.value),
+    withdraw: (ctx, [amount]: [bigint]) => {
+      burn(ctx, address, ctx.from, amount)
+      const { eth } = ctx.state
+      eth.set(address, (eth.get(address) ?? 0n) - amount)
+      eth.set(ctx.from, (eth.get(ctx.from) ?? 0n) + amount)
+    },
+  }
+}
+
+/** ABI and handlers of the contract at `address`, if one is deployed there */
+function contractAt(state: MockProtocolState, contracts: ContractAddresses, address: Address): { abi: Abi; handlers: Record<string, Handler> } | undefined {
+  switch (address) {
+    case contracts.ROUTER: return { abi: ROUTER_ABI, handlers: router() }
+    case contracts.SURFSWAP: return { abi: SURFSWAP_ABI, handlers: surfSwap() }
+    case contracts.WHIRLPOOL: return { abi: WHIRLPOOL_ABI, handlers: whirlpool() }
+    case contracts.BIDNFT: return { abi: BIDNFT_ABI, handlers: bidNft() }
+    case contracts.WAVES: return { abi: WAVES_ABI, handlers: waves(address) }
+    case contracts.WETH: return { abi: WETH_ABI, handlers: weth(address) }
+  }
+  if (state.tokens.has(address)) return { abi: CARD_TOKEN_ABI, handlers: erc20(address) }
+  return undefined
+}
+
+export function isContract(state: MockProtocolState, contracts: ContractAddresses, address: Address): boolean {
+  return contractAt(state, contracts, getAddress(address)) !== undefined
+}
+
+/**
+ * Run one call against `state` (mutating it) and return the ABI-encoded
+ * result with the events emitted. Sending ETH to a non-payable function,
+ * an unknown selector or a custom error throws MockRevert. Calls to an
+ * address without a contract only move the value and return '0x'.
+ */
+export function callContract(
+  state: MockProtocolState, config: MockProtocolConfig, call: MockCall,
+): { result: Hex; events: MockEvent[] } {
+  const from = getAddress(call.from)
+  const to = getAddress(call.to)
+  const { eth } = state
+  if (call.value > 0n) {
+    eth.set(from, (eth.get(from) ?? 0n) - call.value)
+    eth.set(to, (eth.get(to) ?? 0n) + call.value)
+  }
+  const contract = contractAt(state, config.contracts, to)
+  if (!contract) return { result: '0x', events: [] }
+
+  let decoded: { functionName: string; args?: readonly unknown[] }
+  try {
+    decoded = decodeFunctionData({ abi: contract.abi, data: call.data })
+  } catch {
+    throw new MockRevert('0x')
+  }
+  const fn = contract.abi.find(item => item.type === 'function' && item.name === decoded.functionName) as AbiFunction
+  if (call.value > 0n && fn.stateMutability !== 'payable') throw new MockRevert('0x')
+
+  const ctx: Ctx = { state, config, from, value: call.value, events: [] }
+  const output = contract.handlers[decoded.functionName](ctx, decoded.args ?? [])
+  const result = fn.outputs.length === 0
+    ? '0x'
+    : encodeFunctionResult({ abi: contract.abi, functionName: decoded.functionName, result: output } as Parameters<typeof encodeFunctionResult>[0])
+  return { result, events: ctx.events }
+}
@@ -0,0 +1,30 @@
+/**
+ * rewards — reward-rate comparisons between the card pools and the WETH pool
+ *
+ * The contract exposes pending rewards but no multipliers, so the ETH pool's
+ * boost is measured: rewards accrued per WAVES of stake value in the WETH
+ * pool, divided by the same rate across the account's card stakes. Inputs
+ * are formatted-ether numbers as the pages already hold them.
+ */
+
+/** One side of the comparison: stake value (in WAVES) and its pending rewards */
+export interface RewardPosition {
+  stakeValue: number
+  pending: number
+}
+
+/** Pending rewards per WAVES of stake value; null with nothing staked */
+export function rewardYield({ stakeValue, pending }: RewardPosition): number | null {
+  return stakeValue > 0 ? pending / stakeValue : null
+}
+
+/**
+ * How many times more the WETH pool pays per WAVES staked than the card
+ * pools. Null until both sides have a stake and the card side has accrued.
+ */
+export function wethPoolBoost(weth: RewardPosition, cards: RewardPosition): number | null {
+  const wethYield = rewardYield(weth)
+  const cardYield = rewardYield(cards)
+  if (wethYield === null || cardYield === null || cardYield === 0) return null
+  return wethYield / cardYield
+}
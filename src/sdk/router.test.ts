@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import { formatEther, parseEther } from 'viem'
+import { getAmountOut, quoteRoute, withSlippage } from './amm'
+import type { PoolBook } from './amm'
+import { MockChain } from './MockChain'
+import { compareRoutes, hopAction, minimumReceived, quoteSwapRoute, routePools, routeReserves, routeTokens, swapRoutes } from './router'
+import { chainClient } from '../test/renderWithChain'
+
+const e = (n: number | string) => parseEther(String(n))
+
+const pools: PoolBook = {
+  'card-0': { waves: e(90_000), tokens: e(900_000) },
+  'card-1': { waves: e(10_000), tokens: e(1_000) },
+  weth: { waves: e(200_000), tokens: e(100) },
+}
+
+describe('swapRoutes', () => {
+  it('goes through WAVES when neither side is WAVES', () => {
+    expect(swapRoutes('weth', 'card-0')).toEqual([[
+      { kind: 'swapExact', tokenIn: 'weth', tokenOut: 'waves' },
+      { kind: 'swapExact', tokenIn: 'waves', tokenOut: 'card-0' },
+    ]])
+    expect(swapRoutes('waves', 'card-1')).toEqual([[{ kind: 'swapExact', tokenIn: 'waves', tokenOut: 'card-1' }]])
+  })
+
+  it('wraps and unwraps ETH at the ends', () => {
+    expect(swapRoutes('eth', 'weth')).toEqual([[{ kind: 'wrap' }]])
+    expect(swapRoutes('eth', 'waves')[0].map(h => h.kind)).toEqual(['wrap', 'swapExact'])
+    expect(routeTokens({ hops: swapRoutes('card-0', 'eth')[0] })).toEqual(['card-0', 'waves', 'weth', 'eth'])
+  })
+
+  it('offers swapStake and an unstake → swap → stake route for staked cards', () => {
+    const [direct, unstaked] = swapRoutes('card-0', 'card-1', 'staked')
+    expect(direct).toEqual([{ kind: 'swapStake', fromCard: 0, toCard: 1 }])
+    expect(unstaked.map(h => h.kind)).toEqual(['unstake', 'swapExact', 'swapExact', 'stake'])
+    expect(swapRoutes('card-0', 'waves', 'staked')).toEqual([[
+      { kind: 'unstake', cardId: 0 }, { kind: 'swapExact', tokenIn: 'card-0', tokenOut: 'waves' },
+    ]])
+  })
+
+  it('rejects swaps that have no route', () => {
+    expect(() => swapRoutes('card-0', 'card-0')).toThrow('Cannot swap card-0 for itself')
+    expect(() => swapRoutes('weth', 'card-0', 'staked')).toThrow('Only card positions can be swapped from stake')
+  })
+
+  it('lists the pools the routes trade through', () => {
+    expect(routePools(swapRoutes('card-0', 'card-1', 'staked'))).toEqual(['card-0', 'card-1'])
+    expect(routePools(swapRoutes('eth', 'card-1'))).toEqual(['weth', 'card-1'])
+  })
+})
+
+describe('quoteSwapRoute', () => {
+  it('matches a multi-leg quote and carries amounts through 1:1 hops', () => {
+    const route = quoteSwapRoute(e(1), swapRoutes('eth', 'card-0')[0], pools)
+    const legs = quoteRoute(e(1), [{ pool: 'weth', side: 'sell' }, { pool: 'card-0', side: 'buy' }], pools)
+    expect(route.amountOut).toBe(legs.amountOut)
+    expect(route.hops[0]).toMatchObject({ kind: 'wrap', amountIn: e(1), amountOut: e(1), priceImpact: 0 })
+    expect(route.hops[2].amountIn).toBe(route.hops[1].amountOut)
+    expect(route.midPrice).toBeCloseTo(2_000 * 10, 6)
+  })
+
+  it('ties swapStake with the unstaked route and prefers the single transaction', () => {
+    const [direct, unstaked] = swapRoutes('card-0', 'card-1', 'staked').map(hops => quoteSwapRoute(e(1_000), hops, pools))
+    expect(direct.amountOut).toBe(unstaked.amountOut)
+    expect([unstaked, direct].sort(compareRoutes)[0]).toBe(direct)
+  })
+
+  it('ranks by output first', () => {
+    const small = quoteSwapRoute(e(1), swapRoutes('waves', 'card-1')[0], pools)
+    const large = quoteSwapRoute(e(2), swapRoutes('eth', 'card-1')[0], pools)
+    expect([small, large].sort(compareRoutes)[0]).toBe(large)
+  })
+
+  it('compounds the slippage guard once per priced hop', () => {
+    const route = quoteSwapRoute(e(1), swapRoutes('eth', 'card-0')[0], pools)
+    expect(minimumReceived(route, 50)).toBe(withSlippage(withSlippage(route.amountOut, 50), 50))
+  })
+
+  it('leaves the reserves the route trades through as the quote expects', () => {
+    const route = quoteSwapRoute(e(1), swapRoutes('eth', 'card-0')[0], pools)
+    const legs = quoteRoute(e(1), [{ pool: 'weth', side: 'sell' }, { pool: 'card-0', side: 'buy' }], pools)
+    expect(routeReserves(route, pools)).toEqual(legs.pools)
+    expect(routeReserves(route, pools)['card-1']).toBe(pools['card-1'])
+  })
+})
+
+describe('WhirlpoolClient routing', () => {
+  function setup() {
+    const chain = new MockChain({ cards: [{ name: 'Alpha', symbol: 'ALPHA' }, { name: 'Beta', symbol: 'BETA' }] })
+    const [, trader, whale] = chain.accounts
+    chain.fund(trader, { waves: e(1_000) })
+    chain.fund(whale, { waves: e(500_000) })
+    return { chain, client: chainClient(chain, trader), whale: chainClient(chain, whale) }
+  }
+
+  /** Buy card #0 with WAVES and stake all of it */
+  async function stakeCard0(client: ReturnType<typeof chainClient>): Promise<bigint> {
+    const [{ amountOut }] = await client.executeSwapPlan(await client.planSwap('waves', 'card-0', e(1_000)), 50)
+    await client.stake(0, amountOut)
+    return amountOut
+  }
+
+  it('buys a card with ETH in three transactions', async () => {
+    const { chain, client } = setup()
+    const plan = await client.planSwap('eth', 'card-1', e(1))
+    expect(plan.hops.map(h => h.kind)).toEqual(['wrap', 'swapExact', 'swapExact'])
+
+    const results = await client.executeSwapPlan(plan, 50)
+    expect(results.map(r => r.receipt.status)).toEqual(['success', 'success', 'success'])
+    expect(results[1].amountIn).toBe(e(1))
+    expect(results[2].amountOut).toBe(plan.amountOut)
+    expect((await client.loadPosition(1, client.account!)).myBalance).toBe(formatEther(plan.amountOut))
+    expect(chain.blockNumber).toBeGreaterThanOrEqual(3n)
+  })
+
+  it('moves a staked position with swapStake when it pays the same', async () => {
+    const { client } = setup()
+    const staked = await stakeCard0(client)
+
+    const move = await client.planSwap('card-0', 'card-1', staked, 'staked')
+    expect(move.hops.map(h => h.kind)).toEqual(['swapStake'])
+    expect(move.alternatives.map(r => r.amountOut)).toEqual([move.amountOut])
+
+    const [result] = await client.executeSwapPlan(move, 50)
+    expect(result.amountOut).toBe(move.amountOut)
+    expect((await client.loadPosition(0, client.account!)).myStake).toBe('0')
+  })
+
+  it('stops at the step the price moved on', async () => {
+    const { chain, client, whale } = setup()
+    const plan = await client.planSwap('weth', 'card-1', e(1))
+    await client.wrapETH(e(1))
+    await whale.swap('waves', 'card-1', e(50_000), 0n)
+
+    const block = chain.blockNumber
+    await expect(client.executeSwapPlan(plan, 50)).rejects.toThrow('swapExact would revert: insufficient output')
+    // WETH → WAVES landed and WAVES got approved; the card purchase itself was refused
+    expect(chain.blockNumber).toBe(block + 3n)
+  })
+
+  it('checks swapStake against fresh reserves before sending', async () => {
+    const { chain, client, whale } = setup()
+    const move = await client.planSwap('card-0', 'card-1', await stakeCard0(client), 'staked')
+    await whale.swap('waves', 'card-1', e(50_000), 0n)
+
+    const block = chain.blockNumber
+    await expect(client.executeSwapPlan(move, 50)).rejects.toThrow('swapStake would revert: price moved beyond your slippage')
+    expect(chain.blockNumber).toBe(block)
+  })
+
+  it('quotes each staged move against the reserves the moves before it leave', async () => {
+    const { client } = setup()
+    const half = (await stakeCard0(client)) / 2n
+    const trades = [{ tokenIn: 'card-0' as const, amountIn: half }, { tokenIn: 'card-0' as const, amountIn: half }]
+
+    const [first, second] = await client.planSwaps(trades, 'card-1', 'staked')
+    const alone = await client.planSwap('card-0', 'card-1', half, 'staked')
+    expect(first.amountOut).toBe(alone.amountOut)
+    expect(second.amountOut).toBeLessThan(first.amountOut)
+  })
+
+  it('sends the steps its gas estimate quoted', async () => {
+    const { client } = setup()
+    const half = (await stakeCard0(client)) / 2n
+    const plans = await client.planSwaps([{ tokenIn: 'card-0', amountIn: half }, { tokenIn: 'card-0', amountIn: half }], 'card-1', 'staked')
+
+    const quoted = (await Promise.all(plans.map(plan => client.estimateSwapPlan(plan)))).flat()
+      .flatMap(step => step.hop ? [hopAction(step.hop)] : [])
+    const executed: string[] = []
+    for (const plan of plans) {
+      const results = await client.executeSwapPlan(plan, 50)
+      expect(results.at(-1)!.amountOut).toBe(plan.amountOut)
+      executed.push(...results.map(r => hopAction(r.hop)))
+    }
+    expect(executed).toEqual(quoted)
+  })
+
+  it('agrees with the pool math on a direct swap', async () => {
+    const { client } = setup()
+    const pools = await client.loadPools(['card-0'])
+    const plan = await client.planSwap('waves', 'card-0', e(10))
+    expect(plan.amountOut).toBe(getAmountOut(e(10), pools['card-0'].waves, pools['card-0'].tokens))
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * router — swap paths across SurfSwap pools
+ *
+ * Every SurfSwap pool pairs WAVES with one card token or WETH, so WAVES is
+ * the hub: card A → card B sells A for WAVES and buys B, WETH → card buys
+ * WAVES first. ETH joins through a wrap or unwrap at either end. A staked
+ * card position has two ways out — swapStake in one transaction, or
+ * unstake, swap and (for a card target) stake again — and both are quoted
+ * so the caller can take whichever pays more. Pure: quoting takes a PoolBook,
+ * execution lives in WhirlpoolClient.
+ */
+import { SURFSWAP_FEE_BPS, executionPrice, quoteRoute, withSlippage } from './amm'
+import type { PoolBook, RouteLeg } from './amm'
+import type { QuotedHop, SwapHop, SwapRoute, SwapSource, TokenKey } from './types'
+
+function cardIdOf(key: TokenKey): number {
+  return parseInt(key.replace('card-', ''))
+}
+
+/** Wallet-to-wallet path: wrap/unwrap at the ends, one swapExact per pool through WAVES */
+function walletPath(tokenIn: TokenKey, tokenOut: TokenKey): SwapHop[] {
+  const from = tokenIn === 'eth' ? 'weth' : tokenIn
+  const to = tokenOut === 'eth' ? 'weth' : tokenOut
+  const hops: SwapHop[] = []
+  if (tokenIn === 'eth') hops.push({ kind: 'wrap' })
+  if (from !== to) {
+    if (from === 'waves' || to === 'waves') {
+      hops.push({ kind: 'swapExact', tokenIn: from, tokenOut: to })
+    } else {
+      hops.push({ kind: 'swapExact', tokenIn: from, tokenOut: 'waves' }, { kind: 'swapExact', tokenIn: 'waves', tokenOut: to })
+    }
+  }
+  if (tokenOut === 'eth') hops.push({ kind: 'unwrap' })
+  return hops
+}
+
+/**
+ * Every candidate route from tokenIn to tokenOut. Wallet swaps have one;
+ * a staked card into another card has two, both ending staked.
+ */
+export function swapRoutes(tokenIn: TokenKey, tokenOut: TokenKey, source: SwapSource = 'wallet'): SwapHop[][] {
+  if (tokenIn === tokenOut) throw new Error(`Cannot swap ${tokenIn} for itself`)
+  if (source === 'wallet') return [walletPath(tokenIn, tokenOut)]
+
+  if (!tokenIn.startsWith('card-')) throw new Error('Only card positions can be swapped from stake')
+  const fromCard = cardIdOf(tokenIn)
+  const unstaked: SwapHop[] = [{ kind: 'unstake', cardId: fromCard }, ...walletPath(tokenIn, tokenOut)]
+  if (!tokenOut.startsWith('card-')) return [unstaked]
+  const toCard = cardIdOf(tokenOut)
+  return [[{ kind: 'swapStake', fromCard, toCard }], [...unstaked, { kind: 'stake', cardId: toCard }]]
+}
+
+/** The pool legs a hop trades through; none for 1:1 hops */
+export function hopLegs(hop: SwapHop): RouteLeg[] {
+  switch (hop.kind) {
+    case 'swapExact':
+      return hop.tokenIn === 'waves' ? [{ pool: hop.tokenOut, side: 'buy' }] : [{ pool: hop.tokenIn, side: 'sell' }]
+    case 'swapStake':
+      return [{ pool: `card-${hop.fromCard}`, side: 'sell' }, { pool: `card-${hop.toCard}`, side: 'buy' }]
+    default:
+      return []
+  }
+}
+
+const HOP_ACTIONS: Record<SwapHop['kind'], string> = {
+  wrap: 'deposit', unwrap: 'withdraw', unstake: 'unstake', stake: 'stake', swapExact: 'swapExact', swapStake: 'swapStake',
+}
+
+/** Contract function a hop sends, e.g. 'deposit' for a wrap */
+export function hopAction(hop: SwapHop): string {
+  return HOP_ACTIONS[hop.kind]
+}
+
+/** What a hop spends and receives: token keys, with 'eth' for native ETH */
+export function hopTokens(hop: SwapHop): [TokenKey, TokenKey] {
+  switch (hop.kind) {
+    case 'wrap': return ['eth', 'weth']
+    case 'unwrap': return ['weth', 'eth']
+    case 'unstake':
+    case 'stake': return [`card-${hop.cardId}`, `card-${hop.cardId}`]
+    case 'swapExact': return [hop.tokenIn, hop.tokenOut]
+    case 'swapStake': return [`card-${hop.fromCard}`, `card-${hop.toCard}`]
+  }
+}
+
+/** Tokens a route passes through, in order, e.g. ['eth', 'weth', 'waves', 'card-3'] */
+export function routeTokens(route: { hops: SwapHop[] }): TokenKey[] {
+  const tokens: TokenKey[] = []
+  for (const hop of route.hops) {
+    for (const token of hopTokens(hop)) if (tokens[tokens.length - 1] !== token) tokens.push(token)
+  }
+  return tokens
+}
+
+/** Pools any of the routes trade through — what a PoolBook for quoting them must hold */
+export function routePools(routes: SwapHop[][]): string[] {
+  return [...new Set(routes.flat().flatMap(hop => hopLegs(hop).map(leg => leg.pool)))]
+}
+
+/** Quote `amountIn` through every hop; later hops see the reserves earlier ones left */
+export function quoteSwapRoute(amountIn: bigint, route: SwapHop[], pools: PoolBook, feeBps = SURFSWAP_FEE_BPS): SwapRoute {
+  const hops: QuotedHop[] = []
+  let book = pools
+  let amount = amountIn
+  let mid = 1
+  for (const hop of route) {
+    const legs = hopLegs(hop)
+    if (legs.length === 0) {
+      hops.push({ ...hop, amountIn: amount, amountOut: amount, priceImpact: 0 })
+      continue
+    }
+    const { pools: next, ...quote } = quoteRoute(amount, legs, book, feeBps)
+    hops.push({ ...hop, amountIn: amount, amountOut: quote.amountOut, priceImpact: quote.priceImpact })
+    book = next
+    mid *= quote.midPrice
+    amount = quote.amountOut
+  }
+  const execution = executionPrice(amountIn, amount)
+  return {
+    hops, amountIn, amountOut: amount, midPrice: mid, executionPrice: execution,
+    priceImpact: mid > 0 && amountIn > 0n ? Math.max(0, 1 - execution / mid) : 0,
+  }
+}
+
+/** Reserves once a quoted route has traded — what the next trade sent after it will see */
+export function routeReserves(route: { hops: QuotedHop[] }, pools: PoolBook, feeBps = SURFSWAP_FEE_BPS): PoolBook {
+  return route.hops.reduce((book, hop) => {
+    const legs = hopLegs(hop)
+    return legs.length === 0 ? book : quoteRoute(hop.amountIn, legs, book, feeBps).pools
+  }, pools)
+}
+
+/** Sort order for candidate routes: most output first, then fewer transactions */
+export function compareRoutes(a: SwapRoute, b: SwapRoute): number {
+  if (a.amountOut !== b.amountOut) return a.amountOut > b.amountOut ? -1 : 1
+  return a.hops.length - b.hops.length
+}
+
+/**
+ * Least a route can pay out without a guard tripping: every priced hop
+ * may fall `slippageBps` short of its quote, and each guard scales with
+ * what the hop before it actually delivered.
+ */
+export function minimumReceived(route: SwapRoute, slippageBps: number): bigint {
+  return route.hops.reduce((min, hop) => hopLegs(hop).length > 0 ? withSlippage(min, slippageBps) : min, route.amountOut)
+}
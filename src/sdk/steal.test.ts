@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { parseEther } from 'viem'
+import type { Address } from 'viem'
+import { getAmountOut } from './amm'
+import type { PoolBook } from './amm'
+import { MockChain } from './MockChain'
+import { planSteal, stakeNeeded } from './steal'
+import { chainClient } from '../test/renderWithChain'
+
+const e = (n: number | string) => parseEther(String(n))
+
+const me = '0x1111111111111111111111111111111111111111' as Address
+const owner = '0x2222222222222222222222222222222222222222' as Address
+const pools: PoolBook = {
+  'card-0': { waves: e(90_000), tokens: e(900_000) },
+  'card-1': { waves: e(90_000), tokens: e(900_000) },
+}
+const base = {
+  cardId: 0, account: me, owner, ownerStake: e(1_000), myStake: 0n, walletTokens: 0n, wavesBalance: e(1_000), sources: [], pools,
+}
+
+describe('stakeNeeded', () => {
+  it('is one wei past the owner, less what is already staked', () => {
+    expect(stakeNeeded(e(100), 0n)).toBe(e(100) + 1n)
+    expect(stakeNeeded(e(100), e(40))).toBe(e(60) + 1n)
+    // A tie keeps the incumbent
+    expect(stakeNeeded(e(100), e(100))).toBe(1n)
+    expect(stakeNeeded(e(100), e(101))).toBe(0n)
+  })
+})
+
+describe('planSteal', () => {
+  it('needs nothing on a card the account already owns', () => {
+    const plan = planSteal({ ...base, owner: me, myStake: e(1_000) })
+    expect(plan).toMatchObject({ needed: 0n, steps: [], wavesCost: 0n, affordable: true })
+  })
+
+  it('stakes wallet tokens before buying anything', () => {
+    const plan = planSteal({ ...base, walletTokens: e(5_000) })
+    expect(plan.steps).toEqual([{ kind: 'stake', amount: e(1_000) + 1n }])
+    expect(plan.acquired).toBe(plan.needed)
+  })
+
+  it('buys the exact remainder with WAVES and stakes it with the wallet tokens', () => {
+    const plan = planSteal({ ...base, walletTokens: e(400) })
+    const [buy, stake] = plan.steps
+    expect(buy).toMatchObject({ kind: 'buy', amountOut: e(600) + 1n })
+    if (buy.kind !== 'buy') throw new Error('expected a buy')
+    expect(getAmountOut(buy.wavesIn, e(90_000), e(900_000))).toBeGreaterThanOrEqual(e(600) + 1n)
+    expect(getAmountOut(buy.wavesIn - 2n, e(90_000), e(900_000))).toBeLessThan(e(600) + 1n)
+    expect(stake).toEqual({ kind: 'stake', amount: e(1_000) + 1n })
+    expect(plan.wavesCost).toBe(buy.wavesIn)
+  })
+
+  it('moves only as much of a position as it needs', () => {
+    const plan = planSteal({ ...base, sources: [{ cardId: 1, shares: e(50_000) }, { cardId: 1, shares: e(10) }] })
+    expect(plan.steps).toHaveLength(1)
+    const [move] = plan.steps
+    if (move.kind !== 'swapStake') throw new Error('expected a swapStake')
+    expect(move.shares).toBeLessThan(e(1_100))
+    expect(move.amountOut).toBeGreaterThanOrEqual(plan.needed)
+    expect(plan.wavesCost).toBe(0n)
+  })
+
+  it('uses whole positions, then buys the rest, and flags what the wallet cannot pay', () => {
+    const plan = planSteal({ ...base, ownerStake: e(100_000), wavesBalance: e(1), sources: [{ cardId: 1, shares: e(20_000) }] })
+    expect(plan.steps.map(s => s.kind)).toEqual(['swapStake', 'buy', 'stake'])
+    expect(plan.steps[0]).toMatchObject({ shares: e(20_000) })
+    expect(plan.acquired).toBeGreaterThanOrEqual(plan.needed)
+    expect(plan.affordable).toBe(false)
+  })
+
+  it('skips the target itself as a source', () => {
+    const plan = planSteal({ ...base, sources: [{ cardId: 0, shares: e(5_000) }] })
+    expect(plan.steps.map(s => s.kind)).toEqual(['buy', 'stake'])
+  })
+})
+
+describe('WhirlpoolClient steals', () => {
+  function setup() {
+    const chain = new MockChain({ cards: [{ name: 'Alpha', symbol: 'ALPHA' }, { name: 'Beta', symbol: 'BETA' }] })
+    const [creator, thief] = chain.accounts
+    chain.fund(thief, { waves: e(20_000) })
+    chain.fund(creator, { waves: e(1_000) })
+    return { chain, thief, client: chainClient(chain, thief), creator: chainClient(chain, creator) }
+  }
+
+  it('reads the owner stake and takes the card with WAVES', async () => {
+    const { client, thief } = setup()
+    const plan = await client.planSteal(0)
+    expect(plan.ownerStake).toBe(e(100_000))
+    expect(plan.needed).toBe(e(100_000) + 1n)
+    expect(plan.steps.map(s => s.kind)).toEqual(['buy', 'stake'])
+
+    const { receipts, owner } = await client.executeStealPlan(plan)
+    expect(receipts.every(r => r.status === 'success')).toBe(true)
+    expect(owner).toBe(thief)
+    expect((await client.loadCard(0)).ownerStake).toBe((await client.loadPosition(0, thief)).myStake)
+  })
+
+  it('moves a staked position into the target before buying', async () => {
+    const { client, thief } = setup()
+    await client.swap('waves', 'card-1', e(5_000), 0n)
+    const { myBalance } = await client.loadPosition(1, thief)
+    await client.stake(1, e(myBalance))
+
+    const plan = await client.planSteal(0, [{ cardId: 1, shares: e(myBalance) }])
+    expect(plan.steps.map(s => s.kind)).toEqual(['swapStake', 'buy', 'stake'])
+    expect((await client.executeStealPlan(plan)).owner).toBe(thief)
+    expect((await client.loadPosition(1, thief)).myStake).toBe('0')
+  })
+
+  it('sends nothing when the owner topped up after planning', async () => {
+    const { chain, client, creator } = setup()
+    const plan = await client.planSteal(0)
+    await creator.swap('waves', 'card-0', e(100), 0n)
+    await creator.stake(0, e(100))
+
+    const block = chain.blockNumber
+    await expect(client.executeStealPlan(plan)).rejects.toThrow("Card #0's owner now stakes 100")
+    expect(chain.blockNumber).toBe(block)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * steal — what it takes to become a card's owner
+ *
+ * A card belongs to its largest staker and a tie keeps the incumbent, so
+ * taking it means staking strictly more than the owner: ownerStake − myStake
+ * + 1 wei on top of what the player already has there. The planner covers
+ * that from target tokens already in the wallet, then swapStake out of the
+ * positions the player picked, then a WAVES buy on SurfSwap — each priced
+ * against the reserves the steps before it leave behind. Pure: reads and
+ * execution live in WhirlpoolClient.
+ */
+import { isAddressEqual } from 'viem'
+import type { Address } from 'viem'
+import { getAmountIn, quoteExactOut, quoteRoute } from './amm'
+import type { PoolBook, RouteLeg } from './amm'
+import type { StealPlan, StealStep } from './types'
+
+/** Extra stake that puts `myStake` strictly above `ownerStake` */
+export function stakeNeeded(ownerStake: bigint, myStake: bigint): bigint {
+  return myStake > ownerStake ? 0n : ownerStake - myStake + 1n
+}
+
+export interface StealInput {
+  cardId: number
+  account: Address
+  owner: Address
+  ownerStake: bigint
+  myStake: bigint
+  /** Target card tokens in the wallet, staked first */
+  walletTokens: bigint
+  wavesBalance: bigint
+  /** Staked positions the player offers for swapStake, used in order and only as far as needed */
+  sources: { cardId: number; shares: bigint }[]
+  /** Must hold the target pool and every source pool */
+  pools: PoolBook
+}
+
+export function planSteal({
+  cardId, account, owner, ownerStake, myStake, walletTokens, wavesBalance, sources, pools,
+}: StealInput): StealPlan {
+  const target = `card-${cardId}`
+  const needed = isAddressEqual(owner, account) ? 0n : stakeNeeded(ownerStake, myStake)
+  const steps: StealStep[] = []
+  let book = pools
+  let remaining = needed
+
+  const fromWallet = walletTokens < remaining ? walletTokens : remaining
+  remaining -= fromWallet
+
+  let moved = 0n
+  for (const source of sources) {
+    if (remaining === 0n) break
+    if (source.cardId === cardId || source.shares === 0n) continue
+    const legs: RouteLeg[] = [{ pool: `card-${source.cardId}`, side: 'sell' }, { pool: target, side: 'buy' }]
+    let quote = quoteRoute(source.shares, legs, book)
+    if (quote.amountOut > remaining) {
+      // Only part of the position: back out the shares from the target amount, leg by leg
+      const waves = getAmountIn(remaining, book[target].waves, book[target].tokens)
+      const src = book[`card-${source.cardId}`]
+      const shares = getAmountIn(waves, src.tokens, src.waves)
+      if (shares < source.shares) quote = quoteRoute(shares, legs, book)
+    }
+    steps.push({ kind: 'swapStake', fromCard: source.cardId, shares: quote.amountIn, amountOut: quote.amountOut, priceImpact: quote.priceImpact })
+    book = quote.pools
+    moved += quote.amountOut
+    remaining = quote.amountOut < remaining ? remaining - quote.amountOut : 0n
+  }
+
+  let wavesCost = 0n
+  let bought = 0n
+  if (remaining > 0n) {
+    const quote = quoteExactOut(remaining, book[target].waves, book[target].tokens)
+    steps.push({ kind: 'buy', wavesIn: quote.amountIn, amountOut: quote.amountOut, priceImpact: quote.priceImpact })
+    wavesCost = quote.amountIn
+    bought = quote.amountOut
+  }
+  if (fromWallet + bought > 0n) steps.push({ kind: 'stake', amount: fromWallet + bought })
+
+  return {
+    cardId, owner, ownerStake, myStake, needed, steps, wavesCost,
+    acquired: fromWallet + moved + bought,
+    affordable: wavesCost <= wavesBalance,
+  }
+}
@@ -0,0 +1,216 @@
+import type { Address, Hash, TransactionReceipt } from 'viem'
+import type { ContractName } from '../contracts/networks'
+
+/** Account-independent card state: metadata, owner and pool reserves */
+export interface CardMarket {
+  id: number
+  name: string
+  symbol: string
+  uri: string
+  address: Address
+  owner: string
+  /** The owner's stake — what a challenger has to outstake */
+  ownerStake: string
+  price: string
+  wavesReserve: string
+  cardReserve: string
+}
+
+/** One account's holdings in a card */
+export interface CardPosition {
+  myStake: string
+  myBalance: string
+  /** Rewards claimRewards would pay out now */
+  pendingRewards: string
+}
+
+/** One card as rendered by the pages — amounts are formatted ether strings */
+export interface CardState extends CardMarket, CardPosition {}
+
+/** Account-level token balances outside of any single card */
+export interface WalletBalances {
+  /** Native ETH, for gas and wrapping */
+  eth: string
+  waves: string
+  weth: string
+  wethStake: string
+}
+
+/** The Whirlpool WETH staking pool as a whole */
+export interface WethPoolState {
+  /** WETH held by Whirlpool — every account's stake */
+  totalStaked: string
+  /** WAVES per WETH in the SurfSwap WETH pool */
+  wethPrice: string
+}
+
+/** Where an indexed event sits on chain */
+export interface EventMeta {
+  cardId: number
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: Hash
+}
+
+/** Whirlpool events that move card stakes or ownership, in chain order */
+export type StakeEvent =
+  | (EventMeta & { kind: 'Staked' | 'Unstaked'; user: Address; amount: bigint })
+  | (EventMeta & { kind: 'OwnerChanged'; previousOwner: Address; newOwner: Address; /** Block time, unix seconds */ timestamp: number })
+
+/** Swap leg key: 'waves', 'weth' or 'card-<id>'; routes also take 'eth', wrapped or unwrapped on the way */
+export type TokenKey = string
+
+/** Expected result of a swapExact against one SurfSwap pool */
+export interface SwapQuote {
+  tokenIn: TokenKey
+  tokenOut: TokenKey
+  amountIn: bigint
+  amountOut: bigint
+  reserveIn: bigint
+  reserveOut: bigint
+  /** tokenOut per tokenIn before the swap */
+  midPrice: number
+  /** tokenOut per tokenIn this swap gets */
+  executionPrice: number
+  /** Execution vs mid price shortfall, 0–1 */
+  priceImpact: number
+}
+
+/** Gas for one transaction of a planned action */
+export interface GasStep {
+  /** Contract function, e.g. 'approve' or 'swapStake' */
+  action: string
+  gas: bigint
+  /** False when the call can't be estimated until an earlier step lands (swapExact before its approval) */
+  exact: boolean
+  /** Route hop this step sends, for steps of a SwapPlan; approvals have none */
+  hop?: QuotedHop
+}
+
+/** A planned action's transactions priced at the current gas price */
+export interface GasEstimate {
+  steps: GasStep[]
+  gasPrice: bigint
+  totalGas: bigint
+  /** totalGas × gasPrice, in wei */
+  totalFee: bigint
+}
+
+/** One transaction of a StealPlan */
+export type StealStep =
+  | { kind: 'swapStake'; fromCard: number; shares: bigint; amountOut: bigint; priceImpact: number }
+  | { kind: 'buy'; wavesIn: bigint; amountOut: bigint; priceImpact: number }
+  /** Wallet tokens of the target plus anything bought */
+  | { kind: 'stake'; amount: bigint }
+
+/** Everything it takes to outstake a card's owner, step by step */
+export interface StealPlan {
+  cardId: number
+  owner: Address
+  /** stakeOf(card, owner) */
+  ownerStake: bigint
+  myStake: bigint
+  /** Stake to add: ownerStake − myStake + 1 wei, or 0 when already the owner */
+  needed: bigint
+  steps: StealStep[]
+  /** WAVES the buy step spends */
+  wavesCost: bigint
+  /** Stake the steps add in total, at least `needed` */
+  acquired: bigint
+  /** Whether the wallet holds wavesCost */
+  affordable: boolean
+}
+
+/** One transaction of a DefensePlan: a WAVES buy, then the stake */
+export type DefenseStep = Extract<StealStep, { kind: 'buy' | 'stake' }>
+
+/** What it takes for a card's owner to lead the runner-up by a target margin */
+export interface DefensePlan {
+  cardId: number
+  /** Largest staker other than the owner, null when there is none */
+  challenger: Address | null
+  ownerStake: bigint
+  challengerStake: bigint
+  /** ownerStake − challengerStake, 0 on a tie */
+  margin: bigint
+  targetMargin: bigint
+  /** Stake to add: targetMargin − margin, or 0 when the lead is already there */
+  needed: bigint
+  steps: DefenseStep[]
+  /** WAVES the buy step spends */
+  wavesCost: bigint
+  /** WAVES the challenger would spend on SurfSwap to flip the card now; null when the pool cannot supply it */
+  flipCost: bigint | null
+  /** The same once the plan has run, against the reserves its buy leaves */
+  flipCostAfter: bigint | null
+  /** Whether the wallet holds wavesCost */
+  affordable: boolean
+}
+
+/** How much ensureApproval grants: just what the action needs, or maxUint256 */
+export type ApprovalMode = 'exact' | 'unlimited'
+
+/** Protocol contracts that pull tokens from users */
+export type ApprovalSpender = Extract<ContractName, 'SURFSWAP' | 'WHIRLPOOL'>
+
+/** One token → spender allowance held by an account */
+export interface TokenAllowance {
+  key: TokenKey
+  token: Address
+  spender: ApprovalSpender
+  spenderAddress: Address
+  allowance: bigint
+}
+
+/** Where swapped card tokens come from: wallet balance or staked position */
+export type SwapSource = 'wallet' | 'staked'
+
+/** One transaction of a swap route */
+export type SwapHop =
+  | { kind: 'wrap' | 'unwrap' }
+  | { kind: 'unstake' | 'stake'; cardId: number }
+  | { kind: 'swapExact'; tokenIn: TokenKey; tokenOut: TokenKey }
+  | { kind: 'swapStake'; fromCard: number; toCard: number }
+
+/** A hop with the amounts its route expects it to move */
+export type QuotedHop = SwapHop & {
+  amountIn: bigint
+  amountOut: bigint
+  /** 0 for 1:1 hops (wrap, unwrap, stake, unstake) */
+  priceImpact: number
+}
+
+/** A priced path from one token to another, each hop spending the previous hop's output */
+export interface SwapRoute {
+  hops: QuotedHop[]
+  amountIn: bigint
+  amountOut: bigint
+  /** Product of the hops' mid prices */
+  midPrice: number
+  executionPrice: number
+  priceImpact: number
+}
+
+/** The route a swap will take, plus the routes it beat */
+export interface SwapPlan extends SwapRoute {
+  tokenIn: TokenKey
+  tokenOut: TokenKey
+  source: SwapSource
+  /** Other candidate routes, best first */
+  alternatives: SwapRoute[]
+}
+
+/** One executed hop of a SwapPlan */
+export interface SwapHopResult {
+  hop: QuotedHop
+  /** What the hop actually spent — the previous hop's actual output */
+  amountIn: bigint
+  amountOut: bigint
+  /** The guard it ran with; equals amountIn for 1:1 hops */
+  minAmountOut: bigint
+  receipt: TransactionReceipt
+}
+
+export type ClientLogType = 'info' | 'success'
+
+export type ClientLogger = (message: string, type: ClientLogType) => void
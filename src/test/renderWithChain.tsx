@@ -0,0 +1,90 @@
+/**
+ * renderWithChain — Mount components against an in-memory MockChain
+ *
+ * Builds the same provider stack as main.tsx (wagmi → TanStack Query →
+ * WhirlpoolProvider) with every read and write going to the MockChain, and a
+ * connector already connected as one of its unlocked accounts. No network.
+ */
+import type { ReactNode } from 'react'
+import { render, renderHook } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { WagmiProvider, createConfig, createConnector } from 'wagmi'
+import { connect } from 'wagmi/actions'
+import { createPublicClient, createWalletClient } from 'viem'
+import type { Address } from 'viem'
+import { toChain } from '../contracts/networks'
+import { MockChain } from '../sdk/MockChain'
+import { WhirlpoolClient } from '../sdk/WhirlpoolClient'
+import type { MockChainOptions, MockProvider } from '../sdk/MockChain'
+import { WhirlpoolProvider } from '../hooks/WhirlpoolProvider'
+
+/** Connector that signs as `account` through the MockChain's unlocked accounts */
+function mockChainWallet(chain: MockChain, account: Address) {
+  return createConnector<MockProvider>(config => ({
+    id: 'mock-chain',
+    name: 'Mock chain',
+    type: 'mock',
+    async connect({ withCapabilities } = {}) {
+      return {
+        accounts: (withCapabilities ? [{ address: account, capabilities: {} }] : [account]) as never,
+        chainId: chain.chainId,
+      }
+    },
+    async disconnect() {},
+    async getAccounts() { return [account] },
+    async getChainId() { return chain.chainId },
+    async getProvider() { return chain.provider },
+    async isAuthorized() { return true },
+    onAccountsChanged() {},
+    onChainChanged() {},
+    onDisconnect() { config.emitter.emit('disconnect') },
+  }))
+}
+
+export interface ChainSession {
+  chain: MockChain
+  account: Address
+  wrapper: (props: { children: ReactNode }) => ReactNode
+}
+
+/** A MockChain plus a connected provider tree for `chain.accounts[accountIndex]` */
+export async function mockSession(options: MockChainOptions & { chain?: MockChain; accountIndex?: number } = {}): Promise<ChainSession> {
+  const { chain = new MockChain(options), accountIndex = 0 } = options
+  const account = chain.accounts[accountIndex]
+  const transports = { [chain.chainId]: chain.transport }
+  const config = createConfig({
+    chains: [toChain(chain.network)],
+    connectors: [mockChainWallet(chain, account)],
+    transports,
+    storage: null,
+  })
+  await connect(config, { connector: config.connectors[0] })
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } })
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <WagmiProvider config={config} reconnectOnMount={false}>
+      <QueryClientProvider client={queryClient}>
+        <WhirlpoolProvider transports={transports}>{children}</WhirlpoolProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
+  )
+  return { chain, account, wrapper }
+}
+
+/** SDK client acting as `account`, for arranging chain state before anything renders */
+export function chainClient(chain: MockChain, account: Address): WhirlpoolClient {
+  const network = toChain(chain.network)
+  return new WhirlpoolClient({
+    network: chain.network,
+    publicClient: createPublicClient({ chain: network, transport: chain.transport }),
+    walletClient: createWalletClient({ account, chain: network, transport: chain.transport }),
+  })
+}
+
+export function renderWithChain(ui: ReactNode, session: ChainSession) {
+  return render(ui, { wrapper: session.wrapper })
+}
+
+export function renderHookWithChain<T>(hook: () => T, session: ChainSession) {
+  return renderHook(hook, { wrapper: session.wrapper })
+}
@@ -0,0 +1,8 @@
+/** Vitest setup — unmount rendered trees and forget persisted settings between tests */
+import { afterEach } from 'vitest'
+import { cleanup } from '@testing-library/react'
+
+afterEach(() => {
+  cleanup()
+  globalThis.localStorage?.clear()
+})
@@ -1,9 +1,10 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import { foundryDeployments } from './scripts/deployments'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), foundryDeployments()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),